@@ -13,9 +13,126 @@ import packageInfo from '../package.json' with { type: 'json' }
 import { SimpleLogger, type LoggerOptions } from './utils/logger.js'
 import { validateDataverseUrl, validatePort } from './utils/validation.js'
 import { EnvironmentChecker } from './utils/environment-checker.js'
+import {
+  extractEventsFromXml,
+  extractPropertiesFromXml,
+  extractResourcesFromXml,
+} from '../src/utils/manifestExtractor.js'
 
 const execAsync = promisify(exec)
 
+/**
+ * Serialize a value as a TypeScript literal for generated files
+ */
+function toTsLiteral(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(toTsLiteral).join(', ')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, entryValue]) => entryValue !== undefined)
+      .map(([key, entryValue]) => `${key}: ${toTsLiteral(entryValue)}`)
+    return `{ ${entries.join(', ')} }`
+  }
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+  }
+  return String(value)
+}
+
+/**
+ * Build the manifestInfo properties entry for generated main.ts files
+ */
+function formatPropertiesInfo(manifestContent: string): string {
+  const properties = extractPropertiesFromXml(manifestContent)
+  if (properties.length === 0) {
+    return ''
+  }
+
+  const propertyLines = properties.map(property => `      ${toTsLiteral(property)},`).join('\n')
+  return `,\n    properties: [\n${propertyLines}\n    ]`
+}
+
+/**
+ * Build the manifestInfo controlType entry, only emitted for virtual (React) controls
+ */
+function formatControlTypeInfo(manifestContent: string): string {
+  return /control-type=["']virtual["']/.test(manifestContent) ? `,\n    controlType: 'virtual'` : ''
+}
+
+/**
+ * Build the manifestInfo resources entry (resx, img, css, html)
+ */
+function formatResourcesInfo(manifestContent: string): string {
+  const resources = extractResourcesFromXml(manifestContent).filter(
+    resource => resource.type !== 'code'
+  )
+  if (resources.length === 0) {
+    return ''
+  }
+
+  const resourceLines = resources.map(resource => `      ${toTsLiteral(resource)},`).join('\n')
+  return `,\n    resources: [\n${resourceLines}\n    ]`
+}
+
+/**
+ * Build the manifestInfo events entry from the `<event>` nodes
+ */
+function formatEventsInfo(manifestContent: string): string {
+  const events = extractEventsFromXml(manifestContent)
+  if (events.length === 0) {
+    return ''
+  }
+
+  const eventLines = events.map(event => `      ${toTsLiteral(event)},`).join('\n')
+  return `,\n    events: [\n${eventLines}\n    ]`
+}
+
+/**
+ * Build the resourceFiles option that lets Vite load the manifest's resx and image files
+ */
+function formatResourceFilesOption(manifestContent: string, importPath: string): string {
+  const resources = extractResourcesFromXml(manifestContent)
+  const hasResx = resources.some(resource => resource.type === 'resx')
+  const hasFiles = resources.some(resource => resource.type !== 'resx' && resource.type !== 'code')
+  if (!hasResx && !hasFiles) {
+    return ''
+  }
+
+  const slashIndex = importPath.lastIndexOf('/')
+  const controlDir = slashIndex === -1 ? '.' : importPath.slice(0, slashIndex)
+  const prefix = controlDir.startsWith('.') ? controlDir : `./${controlDir}`
+  const lines = [
+    hasResx &&
+      `    resx: import.meta.glob<string>('${prefix}/**/*.resx', { query: '?raw', import: 'default', eager: true }),`,
+    hasFiles &&
+      `    urls: import.meta.glob<string>('${prefix}/**/*.{png,jpg,jpeg,gif,svg,bmp,css,html}', { query: '?url', import: 'default', eager: true }),`,
+  ].filter(Boolean)
+
+  return `
+  // Manifest resource files: resx strings for getString, file URLs for getResource
+  resourceFiles: {
+${lines.join('\n')}
+  },`
+}
+
+/**
+ * Build the HMR block for generated main.ts files
+ * Accepting the component module lets the harness swap the class without a page reload.
+ */
+function formatHmrAccept(importPath: string, className: string): string {
+  return `
+// Swap the component in place when its source changes, keeping context, records and state
+if (import.meta.hot) {
+  import.meta.hot.accept('${importPath}', newModule => {
+    if (newModule) {
+      harness.updatePCFClass(newModule.${className})
+    }
+  })
+}
+`
+}
+
 interface PCFComponent {
   name: string
   path: string
@@ -393,6 +510,11 @@ ${config.dataverseUrl ? `  // Dataverse URL\n  dataverseUrl: '${config.dataverse
         }
       }
 
+      const propertiesInfo = formatPropertiesInfo(manifestContent)
+      const controlTypeInfo = formatControlTypeInfo(manifestContent)
+      const resourcesInfo = formatResourcesInfo(manifestContent)
+      const eventsInfo = formatEventsInfo(manifestContent)
+
       componentClassName = controlMatch?.[1] ?? component.constructor ?? basename(component.path)
 
       if (namespaceMatch?.[1] && controlMatch?.[1] && versionMatch?.[1]) {
@@ -401,8 +523,8 @@ ${config.dataverseUrl ? `  // Dataverse URL\n  dataverseUrl: '${config.dataverse
     namespace: '${namespaceMatch[1]}',
     constructor: '${controlMatch[1]}',
     version: '${versionMatch[1]}',${displayNameMatch?.[1] ? `\n    displayName: '${displayNameMatch[1]}',` : ''}${descriptionMatch?.[1] ? `\n    description: '${descriptionMatch[1]}',` : ''}
-    componentType: '${componentType}'${datasetsInfo},
-  },`
+    componentType: '${componentType}'${datasetsInfo}${propertiesInfo}${controlTypeInfo}${resourcesInfo}${eventsInfo},
+  },${formatResourceFilesOption(manifestContent, importPath)}`
       }
     } catch {
       componentClassName = component.constructor ?? basename(component.path)
@@ -415,11 +537,11 @@ import 'pcf-vite-harness/styles/powerapps.css'
 import { ${componentClassName} } from '${importPath.startsWith('.') ? importPath : './' + importPath}'
 
 // Initialize the PCF harness with auto-detected manifest info
-initializePCFHarness({
+const harness = initializePCFHarness({
   pcfClass: ${componentClassName},
   containerId: 'pcf-container'${manifestInfo ? `,\n${manifestInfo}` : ''}
 })
-
+${formatHmrAccept(importPath.startsWith('.') ? importPath : './' + importPath, componentClassName)}
 // For additional configuration options:
 /*
 initializePCFHarness({
@@ -487,6 +609,11 @@ initializePCFHarness({
         }
       }
 
+      const propertiesInfo = formatPropertiesInfo(manifestContent)
+      const controlTypeInfo = formatControlTypeInfo(manifestContent)
+      const resourcesInfo = formatResourcesInfo(manifestContent)
+      const eventsInfo = formatEventsInfo(manifestContent)
+
       componentClassName = controlMatch?.[1] ?? component.constructor ?? basename(component.path)
 
       if (namespaceMatch?.[1] && controlMatch?.[1] && versionMatch?.[1]) {
@@ -495,8 +622,8 @@ initializePCFHarness({
     namespace: '${namespaceMatch[1]}',
     constructor: '${controlMatch[1]}',
     version: '${versionMatch[1]}',${displayNameMatch?.[1] ? `\n    displayName: '${displayNameMatch[1]}',` : ''}${descriptionMatch?.[1] ? `\n    description: '${descriptionMatch[1]}',` : ''}
-    componentType: '${componentType}'${datasetsInfo},
-  },`
+    componentType: '${componentType}'${datasetsInfo}${propertiesInfo}${controlTypeInfo}${resourcesInfo}${eventsInfo},
+  },${formatResourceFilesOption(manifestContent, importPath)}`
       }
     } catch {
       componentClassName = component.constructor ?? basename(component.path)
@@ -509,11 +636,11 @@ import 'pcf-vite-harness/styles/powerapps.css'
 import { ${componentClassName} } from '${importPath.startsWith('.') ? importPath : './' + importPath}'
 
 // Initialize the PCF harness with auto-detected manifest info
-initializePCFHarness({
+const harness = initializePCFHarness({
   pcfClass: ${componentClassName},
   containerId: 'pcf-container'${manifestInfo ? `,\n${manifestInfo}` : ''}
 })
-
+${formatHmrAccept(importPath.startsWith('.') ? importPath : './' + importPath, componentClassName)}
 // For additional configuration options:
 /*
 initializePCFHarness({
@@ -946,14 +1073,19 @@ export async function runGenerateContext(options: any = {}) {
       }
     }
 
+    const propertiesInfo = formatPropertiesInfo(manifestContent)
+    const controlTypeInfo = formatControlTypeInfo(manifestContent)
+    const resourcesInfo = formatResourcesInfo(manifestContent)
+    const eventsInfo = formatEventsInfo(manifestContent)
+
     // Build manifestInfo
     const manifestInfo = `  // Auto-detected manifest info from ${manifestPath}
   manifestInfo: {
     namespace: '${namespaceMatch[1]}',
     constructor: '${constructorMatch[1]}',
     version: '${versionMatch?.[1] || '1.0.0'}',${displayNameMatch?.[1] ? `\n    displayName: '${displayNameMatch[1]}',` : ''}${descriptionMatch?.[1] ? `\n    description: '${descriptionMatch[1]}',` : ''}
-    componentType: '${componentType}'${datasetsInfo},
-  },`
+    componentType: '${componentType}'${datasetsInfo}${propertiesInfo}${controlTypeInfo}${resourcesInfo}${eventsInfo},
+  },${formatResourceFilesOption(manifestContent, importPath)}`
 
     // Generate main.ts content
     const content = `import { initializePCFHarness } from 'pcf-vite-harness'
@@ -963,12 +1095,12 @@ import 'pcf-vite-harness/styles/powerapps.css'
 import { ${componentName} } from '${importPath.startsWith('.') ? importPath : './' + importPath}'
 
 // Initialize the PCF harness with auto-detected manifest info
-initializePCFHarness({
+const harness = initializePCFHarness({
   pcfClass: ${componentName},
   containerId: 'pcf-container',
 ${manifestInfo}
 })
-
+${formatHmrAccept(importPath.startsWith('.') ? importPath : './' + importPath, componentName as string)}
 // For additional configuration options:
 /*
 initializePCFHarness({
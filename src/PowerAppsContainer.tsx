@@ -1,5 +1,30 @@
 import * as React from 'react'
-import { createPCFManager, initPCF, updatePCFView, destroyPCF, type PCFInstanceManager } from './utils/pcfLifecycle'
+import {
+  DevToolsPanel,
+  FormPreviewDialog,
+  LookupDialog,
+  NavigationDialog,
+  SelectionCommandBar,
+  ViewportToolbar,
+} from './devtools'
+import {
+  observeContainerResize,
+  VIEWPORT_PRESETS,
+  type ViewportPreset,
+} from './utils/containerResize'
+import { registerContextUpdateHandler } from './utils/contextUpdates'
+import { hasDatasetSelection } from './utils/datasetSelection'
+import { shouldShowDevTools } from './utils/envConfigGenerator'
+import type { ManifestEventInfo, ManifestPropertyInfo } from './utils/manifestExtractor'
+import {
+  createPCFManager,
+  destroyPCF,
+  initPCF,
+  type OutputLogEntry,
+  type PCFInstanceManager,
+  swapPCFClass,
+  updatePCFView,
+} from './utils/pcfLifecycle'
 import { startAutoLoad } from './utils/simpleDatasetLoader'
 
 interface PowerAppsContainerProps {
@@ -12,6 +37,9 @@ interface PowerAppsContainerProps {
     version: string
     displayName?: string
     description?: string
+    properties?: ManifestPropertyInfo[]
+    controlType?: 'standard' | 'virtual'
+    events?: ManifestEventInfo[]
   }
 }
 
@@ -20,24 +48,63 @@ const PowerAppsContainerInner: React.FC<
   PowerAppsContainerProps & { containerRef: React.RefObject<HTMLDivElement> }
 > = ({ context, pcfClass, className = '', manifestInfo, containerRef }) => {
   const pcfManagerRef = React.useRef<PCFInstanceManager | null>(null)
+  const [outputLog, setOutputLog] = React.useState<OutputLogEntry[]>([])
+  const [viewport, setViewport] = React.useState<ViewportPreset>('fullScreen')
 
+  // Dataset controls get a command bar strip with the record selection, like a subgrid
+  const selectionDataset = React.useMemo(
+    () => Object.entries(context.parameters || {}).find(([, value]) => hasDatasetSelection(value)),
+    [context]
+  )
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: the instance lives as long as the context, a new pcfClass is swapped in by the effect below
   React.useEffect(() => {
     // Initialize PCF lifecycle manager when container is ready
     if (containerRef.current && !pcfManagerRef.current) {
-      pcfManagerRef.current = createPCFManager(pcfClass, context, containerRef.current)
-      
+      pcfManagerRef.current = createPCFManager(
+        pcfClass,
+        context,
+        containerRef.current,
+        manifestInfo?.properties,
+        manifestInfo?.controlType
+      )
+      pcfManagerRef.current.onOutputs = () => {
+        setOutputLog(pcfManagerRef.current?.outputLog || [])
+      }
+
       // Auto-initialize when component mounts
       initPCF(pcfManagerRef.current).catch(console.error)
     }
 
+    // Mocks inside the context (dataset paging, refresh, ...) push their changes through updateView
+    const unregisterContextUpdates = registerContextUpdateHandler(context, updatedProperties => {
+      if (pcfManagerRef.current) {
+        updatePCFView(pcfManagerRef.current, updatedProperties).catch(console.error)
+      }
+    })
+
+    // Fills mode.allocatedWidth/allocatedHeight once the control calls trackContainerResize
+    const stopObservingResize = containerRef.current
+      ? observeContainerResize(context, containerRef.current)
+      : undefined
+
     // Cleanup on unmount
     return () => {
+      stopObservingResize?.()
+      unregisterContextUpdates()
       if (pcfManagerRef.current) {
         destroyPCF(pcfManagerRef.current).catch(console.error)
         pcfManagerRef.current = null
       }
     }
-  }, [pcfClass, context])
+  }, [context])
+
+  React.useEffect(() => {
+    // A new component class (HMR) replaces the instance without recreating the context
+    if (pcfManagerRef.current && pcfManagerRef.current.pcfClass !== pcfClass) {
+      swapPCFClass(pcfManagerRef.current, pcfClass).catch(console.error)
+    }
+  }, [pcfClass])
 
   React.useEffect(() => {
     // Start simple dataset loading
@@ -51,6 +118,36 @@ const PowerAppsContainerInner: React.FC<
     }
   }, [context])
 
+  // Changes made from the devtools panel are pushed to the control through updateView
+  const handleContextChanged = React.useCallback((updatedProperties: string[]) => {
+    if (pcfManagerRef.current) {
+      updatePCFView(pcfManagerRef.current, updatedProperties).catch(console.error)
+    }
+  }, [])
+
+  // Fixed-size presets get a frame the user can drag to resize
+  const { width: viewportWidth, height: viewportHeight } = VIEWPORT_PRESETS[viewport]
+  const viewportStyle: React.CSSProperties =
+    viewportWidth && viewportHeight
+      ? {
+          width: `${viewportWidth}px`,
+          height: `${viewportHeight}px`,
+          flex: 'none',
+          resize: 'both',
+          overflow: 'hidden',
+          margin: '16px',
+          border: '1px dashed #a19f9d',
+          backgroundColor: 'white',
+        }
+      : { height: '100%', width: '100%' }
+
+  const handleClearOutputLog = React.useCallback(() => {
+    if (pcfManagerRef.current) {
+      pcfManagerRef.current.outputLog = []
+    }
+    setOutputLog([])
+  }, [])
+
   return (
     <div
       id="tab-section2"
@@ -64,13 +161,19 @@ const PowerAppsContainerInner: React.FC<
           '"Segoe UI", "Segoe UI Web (West European)", "Segoe UI", -apple-system, BlinkMacSystemFont, Roboto, "Helvetica Neue", sans-serif',
       }}
     >
-      <div className="pa-op pa-gm flexbox" style={{ height: '100%', width: '100%' }}>
+      <div
+        className="pa-op pa-gm flexbox"
+        style={{ height: '100%', width: '100%', flexDirection: 'column', minWidth: 0 }}
+      >
+        {shouldShowDevTools() && (
+          <ViewportToolbar context={context} viewport={viewport} onViewportChanged={setViewport} />
+        )}
         <div
           id="id-875"
           aria-label="PCF Control"
           role="tabpanel"
           className="pa-g pa-cf pa-no pa-qm pa-bx pa-bf pa-pd forceNewStackContext flexbox"
-          style={{ height: '100%', width: '100%', flex: '1 1 auto' }}
+          style={{ height: '100%', width: '100%', flex: '1 1 auto', minHeight: 0 }}
         >
           <div
             id="id-872_2"
@@ -96,6 +199,12 @@ const PowerAppsContainerInner: React.FC<
                     className="pa-g pa-ct pa-h pa-nk pa-nh flexbox"
                     style={{ height: '100%', width: '100%' }}
                   >
+                    {selectionDataset && (
+                      <SelectionCommandBar
+                        datasetName={selectionDataset[0]}
+                        dataset={selectionDataset[1] as ComponentFramework.PropertyTypes.DataSet}
+                      />
+                    )}
                     <div
                       className="pa-g pa-ct pa-bf pa-oe pa-bx pa-of pa-og flexbox"
                       style={{ height: '100%', width: '100%' }}
@@ -111,7 +220,7 @@ const PowerAppsContainerInner: React.FC<
                           <div
                             id="id-c98688f0-2676-483b-ae68-504795de5dfe-121_outer"
                             className="pa-cf flexbox"
-                            style={{ height: '100%', width: '100%', position: 'relative' }}
+                            style={{ ...viewportStyle, position: 'relative' }}
                           >
                             <div
                               id="id-c98688f0-2676-483b-ae68-504795de5dfe-12"
@@ -140,7 +249,18 @@ const PowerAppsContainerInner: React.FC<
           </div>
         </div>
       </div>
-      {/* DevTools UI removed - keeping connector for future use */}
+      {shouldShowDevTools() && (
+        <DevToolsPanel
+          context={context}
+          manifestInfo={manifestInfo}
+          onContextChanged={handleContextChanged}
+          outputLog={outputLog}
+          onClearOutputLog={handleClearOutputLog}
+        />
+      )}
+      {shouldShowDevTools() && <FormPreviewDialog />}
+      <LookupDialog />
+      <NavigationDialog />
     </div>
   )
 }
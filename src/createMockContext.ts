@@ -1,3 +1,69 @@
+import { type ClientEnvironment, createMockClient } from './utils/clientEnvironment'
+import { setContainerResizeTracking } from './utils/containerResize'
+import { scheduleContextUpdate } from './utils/contextUpdates'
+import type { ControlAccessState, PropertySecurity } from './utils/controlAccess'
+import { createMockEvents, type FormScript, registerFormScript } from './utils/controlEvents'
+import { saveControlState } from './utils/controlState'
+import { attachDatasetQuery } from './utils/datasetQuery'
+import { attachDatasetSelection } from './utils/datasetSelection'
+import {
+  type DeviceFixtures,
+  setDeviceFixtures,
+  simulateCaptureAudio,
+  simulateCaptureImage,
+  simulateCaptureVideo,
+  simulateGetBarcodeValue,
+  simulateGetCurrentPosition,
+  simulatePickFile,
+} from './utils/deviceMocks'
+import { getEntityMetadata as getPlatformEntityMetadata } from './utils/entityMetadata'
+import { simulateOpenDatasetItem, simulateOpenForm } from './utils/formNavigation'
+import {
+  createDateFormattingInfo,
+  createMockFormatting,
+  createNumberFormattingInfo,
+  DEFAULT_LCID,
+  LOCALE_PRESETS,
+} from './utils/localeFormatting'
+import { simulateLookupObjects } from './utils/lookupObjects'
+import type {
+  ManifestEventInfo,
+  ManifestPropertyInfo,
+  ManifestResourceInfo,
+} from './utils/manifestExtractor'
+import {
+  simulateAlertDialog,
+  simulateConfirmDialog,
+  simulateErrorDialog,
+} from './utils/navigationDialogs'
+import {
+  simulateOpenFile,
+  simulateOpenUrl,
+  simulateOpenWebResource,
+} from './utils/navigationLinks'
+import { createMockPopupService } from './utils/popupService'
+import {
+  createMockProperties,
+  type PropertyAttributes,
+  reformatMockProperties,
+} from './utils/propertyMocks'
+import { createMockResources, type ResourceFiles } from './utils/resourceMocks'
+import { setPersonas, switchPersona, type UserPersona } from './utils/userPersonas'
+import { hasEntityPrivilege, loadUserSecurity } from './utils/userPrivileges'
+import {
+  completeWebApiCall,
+  fetchForWebApiCall,
+  startWebApiCall,
+  type WebApiCall,
+} from './utils/webApiLog'
+import {
+  buildExecuteRequests,
+  type ExecuteRequest,
+  getQueryString,
+  getRequestEntity,
+  type HarnessWebApi,
+} from './utils/webApiRequests'
+
 /**
  * Helper function to format GUID strings properly
  */
@@ -5,6 +71,28 @@ function formatGuid(guid: string): string {
   return guid.replace(/[{}]/g, '')
 }
 
+/**
+ * Error for a failed Web API response, with the Dataverse error code like Xrm.WebApi rejects with
+ */
+async function createWebApiError(response: Response): Promise<Error> {
+  const text = await response.text().catch(() => '')
+  let payload: { code?: string; message?: string } | undefined
+  try {
+    payload = JSON.parse(text).error
+  } catch {
+    payload = undefined
+  }
+
+  const error = new Error(payload?.message || `HTTP error! status: ${response.status}`)
+  const retryAfter = response.headers.get('Retry-After')
+  return Object.assign(error, {
+    status: response.status,
+    code: payload?.code,
+    errorCode: payload?.code ? Number.parseInt(payload.code, 16) : undefined,
+    retryAfter: retryAfter ? Number(retryAfter) : undefined,
+  })
+}
+
 /**
  * Helper function to get entity metadata from Dataverse
  */
@@ -24,6 +112,27 @@ async function getEntityMetadata(entityLogicalName: string): Promise<any> {
   return response.json()
 }
 
+/**
+ * Primary name of a record, read before it is deleted, empty when it cannot be read
+ * The read is recorded on the deleteRecord call, faults only apply to the delete itself.
+ */
+async function getPrimaryName(
+  call: WebApiCall,
+  recordUrl: string,
+  primaryNameAttribute?: string
+): Promise<string> {
+  if (!primaryNameAttribute) {
+    return ''
+  }
+  call.nameLookupUrl = `${recordUrl}?$select=${primaryNameAttribute}`
+  try {
+    const response = await fetch(call.nameLookupUrl)
+    return response.ok ? ((await response.json())[primaryNameAttribute] ?? '') : ''
+  } catch {
+    return ''
+  }
+}
+
 /**
  * Helper function to extract view ID from query options
  */
@@ -71,15 +180,65 @@ async function getViewInfo(
 /**
  * Default webAPI implementation with proxy support
  */
-function createDefaultWebAPI(): ComponentFramework.WebApi {
+function createDefaultWebAPI(): HarnessWebApi {
+  /**
+   * Send the Web API requests of an execute request, resolves with the last response
+   */
+  const executeRequest = async (request: ExecuteRequest): Promise<Response> => {
+    const { operationName } = request.getMetadata()
+    const call = startWebApiCall({
+      method: 'execute',
+      entity: getRequestEntity(request),
+      operationName,
+    })
+    try {
+      const requests = await buildExecuteRequests(request, async entityLogicalName => {
+        const metadata = await getEntityMetadata(entityLogicalName)
+        return {
+          collectionName: metadata.LogicalCollectionName,
+          primaryIdAttribute: metadata.PrimaryIdAttribute,
+        }
+      })
+
+      let response: Response | undefined
+      for (const { method, path, body } of requests) {
+        call.data = body
+        response = await fetchForWebApiCall(call, `/api/data/v9.2/${path}`, {
+          method,
+          ...(body === undefined
+            ? {}
+            : { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) }),
+        })
+        if (!response.ok) {
+          throw await createWebApiError(response)
+        }
+      }
+
+      completeWebApiCall(call)
+      console.log(`✅ Executed ${operationName}`)
+      return response as Response
+    } catch (error) {
+      completeWebApiCall(call, { error })
+      console.error(`Error executing ${operationName}:`, error)
+      throw error
+    }
+  }
+
   return {
     retrieveMultipleRecords: async (
       entityLogicalName: string,
-      options?: string
+      options?: string,
+      maxPageSize?: number
     ): Promise<ComponentFramework.WebApi.RetrieveMultipleResponse> => {
+      const call = startWebApiCall({
+        method: 'retrieveMultipleRecords',
+        entity: entityLogicalName,
+        options,
+      })
       try {
         console.log(`🔄 retrieveMultipleRecords called for ${entityLogicalName}`, {
           options,
+          maxPageSize,
         })
 
         // Get metadata to find collection name
@@ -87,8 +246,9 @@ function createDefaultWebAPI(): ComponentFramework.WebApi {
         const collectionName = metadata.LogicalCollectionName
         let url = `/api/data/v9.2/${collectionName}`
 
+        // Options may be the nextLink of the previous page
         if (options) {
-          url += options.startsWith('?') ? options : `?${options}`
+          url += getQueryString(options)
         }
 
         // Check if this is a view-based query and extract view information
@@ -115,15 +275,21 @@ function createDefaultWebAPI(): ComponentFramework.WebApi {
           }
         }
 
-        const response = await fetch(url)
+        // The same page size has to be sent again when following nextLink
+        const response = await fetchForWebApiCall(
+          call,
+          url,
+          maxPageSize ? { headers: { Prefer: `odata.maxpagesize=${maxPageSize}` } } : undefined
+        )
         if (!response.ok) {
-          const errorText = await response.text()
-          console.error(`API Error Response:`, errorText)
-          throw new Error(`HTTP error! status: ${response.status}`)
+          const error = await createWebApiError(response)
+          console.error(`API Error Response:`, error.message)
+          throw error
         }
 
         const result = await response.json()
         const recordCount = result.value?.length || 0
+        completeWebApiCall(call, { recordCount })
 
         if (isViewQuery) {
           const viewDescription = viewInfo.name ? ` via "${viewInfo.name}"` : ' via view'
@@ -144,6 +310,7 @@ function createDefaultWebAPI(): ComponentFramework.WebApi {
 
         return result
       } catch (error) {
+        completeWebApiCall(call, { error })
         console.error(`Error retrieving multiple records for ${entityLogicalName}:`, error)
         throw error
       }
@@ -154,6 +321,12 @@ function createDefaultWebAPI(): ComponentFramework.WebApi {
       id: string,
       options?: string
     ): Promise<ComponentFramework.WebApi.Entity> => {
+      const call = startWebApiCall({
+        method: 'retrieveRecord',
+        entity: entityLogicalName,
+        recordId: id,
+        options,
+      })
       try {
         // Get metadata to find collection name
         const metadata = await getEntityMetadata(entityLogicalName)
@@ -164,15 +337,17 @@ function createDefaultWebAPI(): ComponentFramework.WebApi {
           url += options.startsWith('?') ? options : `?${options}`
         }
 
-        const response = await fetch(url)
+        const response = await fetchForWebApiCall(call, url)
         if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`)
+          throw await createWebApiError(response)
         }
 
         const result = await response.json()
+        completeWebApiCall(call, { recordCount: 1 })
         console.log(`✅ Retrieved record ${id} for ${entityLogicalName}`)
         return result
       } catch (error) {
+        completeWebApiCall(call, { error })
         console.error(`Error retrieving record ${id} for ${entityLogicalName}:`, error)
         throw error
       }
@@ -182,13 +357,14 @@ function createDefaultWebAPI(): ComponentFramework.WebApi {
       entityLogicalName: string,
       data: ComponentFramework.WebApi.Entity
     ): Promise<ComponentFramework.LookupValue> => {
+      const call = startWebApiCall({ method: 'createRecord', entity: entityLogicalName, data })
       try {
         // Get metadata to find collection name and primary attributes
         const metadata = await getEntityMetadata(entityLogicalName)
         const collectionName = metadata.LogicalCollectionName
         const url = `/api/data/v9.2/${collectionName}`
 
-        const response = await fetch(url, {
+        const response = await fetchForWebApiCall(call, url, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -198,9 +374,9 @@ function createDefaultWebAPI(): ComponentFramework.WebApi {
         })
 
         if (!response.ok) {
-          const errorText = await response.text()
-          console.error(`Create Error Response:`, errorText)
-          throw new Error(`HTTP error! status: ${response.status}`)
+          const error = await createWebApiError(response)
+          console.error(`Create Error Response:`, error.message)
+          throw error
         }
 
         const result = await response.json()
@@ -210,6 +386,7 @@ function createDefaultWebAPI(): ComponentFramework.WebApi {
           throw new Error(`No PrimaryIdAttribute found in metadata for ${entityLogicalName}`)
         }
 
+        completeWebApiCall(call, { recordCount: 1 })
         console.log(`✅ Created record for ${entityLogicalName}`)
         return {
           id: formatGuid(result[primaryIdAttribute]),
@@ -217,6 +394,7 @@ function createDefaultWebAPI(): ComponentFramework.WebApi {
           entityType: entityLogicalName,
         }
       } catch (error) {
+        completeWebApiCall(call, { error })
         console.error(`Error creating record for ${entityLogicalName}:`, error)
         throw error
       }
@@ -227,33 +405,45 @@ function createDefaultWebAPI(): ComponentFramework.WebApi {
       id: string,
       data: ComponentFramework.WebApi.Entity
     ): Promise<ComponentFramework.LookupValue> => {
+      const call = startWebApiCall({
+        method: 'updateRecord',
+        entity: entityLogicalName,
+        recordId: id,
+        data,
+      })
       try {
         // Get metadata to find collection name
         const metadata = await getEntityMetadata(entityLogicalName)
         const collectionName = metadata.LogicalCollectionName
-        const url = `/api/data/v9.2/${collectionName}(${id})`
+        const primaryNameAttribute = metadata.PrimaryNameAttribute
+        // The representation carries the primary name for the returned lookup
+        const url = `/api/data/v9.2/${collectionName}(${id})${primaryNameAttribute ? `?$select=${primaryNameAttribute}` : ''}`
 
-        const response = await fetch(url, {
+        const response = await fetchForWebApiCall(call, url, {
           method: 'PATCH',
           headers: {
             'Content-Type': 'application/json',
+            Prefer: 'return=representation',
           },
           body: JSON.stringify(data),
         })
 
         if (!response.ok) {
-          const errorText = await response.text()
-          console.error(`Update Error Response:`, errorText)
-          throw new Error(`HTTP error! status: ${response.status}`)
+          const error = await createWebApiError(response)
+          console.error(`Update Error Response:`, error.message)
+          throw error
         }
 
+        const result = response.status === 204 ? {} : await response.json()
+        completeWebApiCall(call, { recordCount: 1 })
         console.log(`✅ Updated record ${id} for ${entityLogicalName}`)
         return {
           id: formatGuid(id),
-          name: '', // For updates, we don't have the name without additional fetch
+          name: result[primaryNameAttribute] ?? data[primaryNameAttribute] ?? '',
           entityType: entityLogicalName,
         }
       } catch (error) {
+        completeWebApiCall(call, { error })
         console.error(`Error updating record ${id} for ${entityLogicalName}:`, error)
         throw error
       }
@@ -263,33 +453,54 @@ function createDefaultWebAPI(): ComponentFramework.WebApi {
       entityLogicalName: string,
       id: string
     ): Promise<ComponentFramework.LookupValue> => {
+      const call = startWebApiCall({
+        method: 'deleteRecord',
+        entity: entityLogicalName,
+        recordId: id,
+      })
       try {
         // Get metadata to find collection name
         const metadata = await getEntityMetadata(entityLogicalName)
         const collectionName = metadata.LogicalCollectionName
         const url = `/api/data/v9.2/${collectionName}(${id})`
+        const name = await getPrimaryName(call, url, metadata.PrimaryNameAttribute)
 
-        const response = await fetch(url, {
+        const response = await fetchForWebApiCall(call, url, {
           method: 'DELETE',
         })
 
         if (!response.ok) {
-          const errorText = await response.text()
-          console.error(`Delete Error Response:`, errorText)
-          throw new Error(`HTTP error! status: ${response.status}`)
+          const error = await createWebApiError(response)
+          console.error(`Delete Error Response:`, error.message)
+          throw error
         }
 
+        completeWebApiCall(call, { recordCount: 1 })
         console.log(`✅ Deleted record ${id} for ${entityLogicalName}`)
         return {
           id: formatGuid(id),
-          name: '', // For deletes, we don't have the name without additional fetch
+          name,
           entityType: entityLogicalName,
         }
       } catch (error) {
+        completeWebApiCall(call, { error })
         console.error(`Error deleting record ${id} for ${entityLogicalName}:`, error)
         throw error
       }
     },
+
+    execute: executeRequest,
+
+    executeMultiple: async (requests: Array<ExecuteRequest | ExecuteRequest[]>) => {
+      // Change sets run in order and stop at the first failure, without a rollback
+      const responses: Response[] = []
+      for (const item of requests) {
+        for (const request of Array.isArray(item) ? item : [item]) {
+          responses.push(await executeRequest(request))
+        }
+      }
+      return responses
+    },
   }
 }
 
@@ -359,11 +570,36 @@ export function createMockContext<TInputs>(options?: {
   displayName?: string
   userName?: string
   userId?: string
+  /** LCID for userSettings and context.formatting, e.g. 1044 */
+  languageId?: number
+  /** User time zone offset from UTC in minutes, defaults to the browser's */
+  timeZoneOffsetMinutes?: number
+  /** Start form factor, client and network state, switchable from the toolbar */
+  clientEnvironment?: Partial<ClientEnvironment>
+  /** What captureImage, getBarcodeValue and getCurrentPosition return, editable in the DevTools panel */
+  deviceFixtures?: DeviceFixtures
   datasetOptions?: Partial<ComponentFramework.PropertyTypes.DataSet>
   webAPI?: Partial<ComponentFramework.WebApi>
   entityType?: string
+  propertyValues?: Record<string, unknown>
+  propertyAttributes?: Record<string, PropertyAttributes>
+  /** Field security for manifest properties, keyed by property name */
+  propertySecurity?: Record<string, Partial<PropertySecurity>>
+  /** Start with the control disabled or the form read-only, switchable from the DevTools panel */
+  controlAccess?: Partial<ControlAccessState>
+  /** Form script OnLoad handler that subscribes to the control's manifest events */
+  formScript?: FormScript
+  /** Named fake users to switch between in the DevTools panel */
+  personas?: UserPersona[]
+  /** Persona to start as, or 'Signed-in user' to load the real user (defaults to VITE_PCF_PERSONA) */
+  persona?: string
+  /** resx strings and image/css URLs for context.resources */
+  resourceFiles?: ResourceFiles
   manifestInfo?: {
     datasets?: Array<{ name: string; displayNameKey?: string }>
+    properties?: ManifestPropertyInfo[]
+    resources?: ManifestResourceInfo[]
+    events?: ManifestEventInfo[]
     namespace?: string
     constructor?: string
     version?: string
@@ -373,14 +609,29 @@ export function createMockContext<TInputs>(options?: {
   }
 }): ComponentFramework.Context<TInputs> {
   const {
-    controlId = `id-${crypto.randomUUID()}`,
+    // Stable per control so state stored with setControlState survives reloads
+    controlId = options?.manifestInfo?.namespace && options.manifestInfo.constructor
+      ? `id-${options.manifestInfo.namespace}.${options.manifestInfo.constructor}`
+      : `id-${crypto.randomUUID()}`,
     viewId = crypto.randomUUID(),
     displayName = 'Dev User',
     userName = 'devuser@contoso.com',
     userId = 'dev-user-id',
+    languageId = Number(import.meta.env.VITE_PCF_LANGUAGE_ID) || DEFAULT_LCID,
+    timeZoneOffsetMinutes = -new Date().getTimezoneOffset(),
+    clientEnvironment,
+    deviceFixtures,
     datasetOptions = {},
     webAPI: customWebAPI = {},
     entityType = 'unknown',
+    propertyValues,
+    propertyAttributes,
+    propertySecurity,
+    controlAccess = {},
+    formScript,
+    personas = [],
+    persona = import.meta.env.VITE_PCF_PERSONA as string | undefined,
+    resourceFiles = {},
     manifestInfo,
   } = options || {}
 
@@ -411,59 +662,82 @@ export function createMockContext<TInputs>(options?: {
     VITE_PCF_VIEW_NAME: import.meta.env.VITE_PCF_VIEW_NAME
   })
 
+  if (deviceFixtures) {
+    setDeviceFixtures(deviceFixtures)
+  }
+
+  // Create property mocks for every bound/input property in the manifest
+  const parameters: Record<string, unknown> = createMockProperties(manifestInfo?.properties || [], {
+    values: propertyValues,
+    attributes: propertyAttributes,
+    security: propertySecurity,
+  })
+
+  if (manifestInfo?.properties?.length) {
+    console.log(`📋 Created property mocks from manifest: ${Object.keys(parameters).join(', ')}`)
+  }
+
   // Create dataset dynamically based on manifest information
-  if (!manifestInfo?.datasets || manifestInfo.datasets.length === 0) {
+  if (manifestInfo?.componentType === 'dataset' && !manifestInfo.datasets?.length) {
     throw new Error(
       '❌ No dataset found in manifest. Dataset components require a <data-set> element in ControlManifest.Input.xml.\n' +
       '   Please check your manifest file or use a field component instead.'
     )
   }
+
+  const firstDataset = manifestInfo?.datasets?.[0]
+  let dataset: ComponentFramework.PropertyTypes.DataSet | undefined
+  if (firstDataset) {
+    if (!firstDataset.name) {
+      throw new Error(
+        '❌ Invalid dataset configuration in manifest. Dataset must have a name attribute.\n' +
+        '   Example: <data-set name="myDataset" display-name-key="Dataset_Display_Key" />'
+      )
+    }
   
-  const firstDataset = manifestInfo.datasets[0]
-  if (!firstDataset || !firstDataset.name) {
-    throw new Error(
-      '❌ Invalid dataset configuration in manifest. Dataset must have a name attribute.\n' +
-      '   Example: <data-set name="myDataset" display-name-key="Dataset_Display_Key" />'
-    )
-  }
-  
-  const datasetName = firstDataset.name
-  const datasetDisplayName = firstDataset.displayNameKey || firstDataset.name
-  console.log(`📋 Using dataset from manifest: "${datasetName}" (${datasetDisplayName})`)
+    const datasetName = firstDataset.name
+    const datasetDisplayName = firstDataset.displayNameKey || firstDataset.name
+    console.log(`📋 Using dataset from manifest: "${datasetName}" (${datasetDisplayName})`)
   
-  const dataset = createMockDataSet({
-    name: datasetName,
-    displayName: datasetDisplayName,
-    entityLogicalName: envTargetTable !== 'unknown' ? envTargetTable : 'unknown',
-    columns: [], // Will be populated based on discovered entity
-    ...datasetOptions,
-  })
+    dataset = createMockDataSet({
+      name: datasetName,
+      displayName: datasetDisplayName,
+      entityLogicalName: envTargetTable !== 'unknown' ? envTargetTable : 'unknown',
+      columns: [], // Will be populated based on discovered entity
+      ...datasetOptions,
+    })
   
-  // Set the initial _targetEntityType
-  ;(dataset as any)._targetEntityType = envTargetTable !== 'unknown' ? envTargetTable : undefined
+    // Set the initial _targetEntityType
+    ;(dataset as any)._targetEntityType = envTargetTable !== 'unknown' ? envTargetTable : undefined
   
-  // Make getTargetEntityType configurable
-  Object.defineProperty(dataset, 'getTargetEntityType', {
-    value: function() {
-      const envValue = import.meta.env.VITE_PCF_TARGET_TABLE as string
-      if (envValue && envValue !== 'unknown') {
-        return envValue
-      }
-      return (this as any)._targetEntityType || (this as any).entityLogicalName || 'unknown'
-    },
-    writable: true,
-    configurable: true
-  })
+    // Make getTargetEntityType configurable
+    Object.defineProperty(dataset, 'getTargetEntityType', {
+      value: function() {
+        const envValue = import.meta.env.VITE_PCF_TARGET_TABLE as string
+        if (envValue && envValue !== 'unknown') {
+          return envValue
+        }
+        return (this as any)._targetEntityType || (this as any).entityLogicalName || 'unknown'
+      },
+      writable: true,
+      configurable: true
+    })
+
+    console.log(`🔧 Created dataset "${datasetName}" with structure:`, {
+      entityType: entityType,
+      hasRecords: 'records' in dataset,
+      hasColumns: 'columns' in dataset,
+      recordCount: Object.keys(dataset.records || {}).length,
+      columnCount: dataset.columns?.length || 0,
+    })
+
+    parameters[datasetName] = dataset
+  }
 
-  console.log(`🔧 Created dataset "${datasetName}" with structure:`, {
-    entityType: entityType,
-    hasRecords: 'records' in dataset,
-    hasColumns: 'columns' in dataset,
-    recordCount: Object.keys(dataset.records || {}).length,
-    columnCount: dataset.columns?.length || 0,
-  })
+  // One popup service per control, like the platform
+  const popupService = createMockPopupService()
 
-  return {
+  const context = {
     accessibility: {
       _customControlProperties: {
         descriptor: {
@@ -481,126 +755,104 @@ export function createMockContext<TInputs>(options?: {
       })(),
       isVisible: true,
     } as any,
-    parameters: {
-      [datasetName]: dataset,
-    } as any,
+    parameters: parameters as any,
     factory: {
-      requestRender: () => {},
-      getPopupService: () => ({}) as any,
-    } as any,
-    events: {} as any,
+      requestRender: () => scheduleContextUpdate(context),
+      getPopupService: () => popupService,
+    },
+    events: createMockEvents(manifestInfo?.events),
     copilot: {} as any,
     mode: {
-      trackContainerResize: () => {},
-      isControlDisabled: false,
+      trackContainerResize: (value: boolean) => setContainerResizeTracking(context, value),
+      allocatedWidth: -1,
+      allocatedHeight: -1,
+      setControlState: (state: ComponentFramework.Dictionary) => saveControlState(controlId, state),
+      _access: { controlDisabled: false, formReadOnly: false, ...controlAccess },
+      isControlDisabled: !!(controlAccess.controlDisabled || controlAccess.formReadOnly),
       isVisible: true,
     },
-    client: {
-      getClient: () => 'Web',
-      disableScroll: () => {},
-      getFormFactor: () => 0,
-      isOffline: false,
-      isNetworkAvailable: true,
-    },
+    client: createMockClient(clientEnvironment),
     device: {
-      captureAudio: () => Promise.resolve(),
-      captureImage: () => Promise.resolve(),
-      captureVideo: () => Promise.resolve(),
-      getBarcodeValue: () => Promise.resolve(),
-      getCurrentPosition: () => Promise.resolve(),
-      pickFile: () => Promise.resolve(),
-    },
-    formatting: {
-      formatCurrency: (value: number) => `$${value}`,
-      formatDateLong: (value: Date) => value.toLocaleDateString(),
-      formatDateShort: (value: Date) => value.toLocaleDateString(),
-      formatDateYearMonth: (value: Date) => value.toLocaleDateString(),
-      formatDecimal: (value: number) => value.toString(),
-      formatInteger: (value: number) => Math.round(value).toString(),
-      formatLanguage: (value: number) => value.toString(),
-      formatTime: (value: Date) => value.toLocaleTimeString(),
-      getWeekOfYear: (value: Date) => 1,
+      captureAudio: simulateCaptureAudio,
+      captureImage: simulateCaptureImage,
+      captureVideo: simulateCaptureVideo,
+      getBarcodeValue: simulateGetBarcodeValue,
+      getCurrentPosition: simulateGetCurrentPosition,
+      pickFile: simulatePickFile,
     },
+    // Reads userSettings at call time so setUserLocale applies immediately
+    formatting: createMockFormatting(() => context.userSettings),
     navigation: {
-      openAlertDialog: () => Promise.resolve(),
-      openConfirmDialog: () => Promise.resolve(),
-      openErrorDialog: () => Promise.resolve(),
-      openFile: () => Promise.resolve(),
-      openForm: () => Promise.resolve(),
-      openUrl: () => {},
-      openWebResource: () => {},
-    },
-    resources: {
-      getString: (id: string) => id,
-      getResource: (id: string) => '',
+      openAlertDialog: simulateAlertDialog,
+      openConfirmDialog: simulateConfirmDialog,
+      openErrorDialog: simulateErrorDialog,
+      openFile: simulateOpenFile,
+      openForm: simulateOpenForm,
+      openUrl: simulateOpenUrl,
+      openWebResource: simulateOpenWebResource,
     },
+    resources: createMockResources(
+      manifestInfo?.resources || [],
+      resourceFiles,
+      () => context.userSettings.languageId
+    ),
     updatedProperties: [],
     userSettings: {
-      dateFormattingInfo: {
-        abbreviatedDayNames: [],
-        abbreviatedMonthNames: [],
-        amDesignator: 'AM',
-        calendar: {},
-        calendarWeekRule: 0,
-        dayNames: [],
-        firstDayOfWeek: 0,
-        fullDateTimePattern: '',
-        longDatePattern: '',
-        longTimePattern: '',
-        monthDayPattern: '',
-        monthNames: [],
-        pmDesignator: 'PM',
-        shortDatePattern: '',
-        shortTimePattern: '',
-        shortestDayNames: [],
-        sortableDateTimePattern: '',
-        timeSeparator: ':',
-        universalSortableDateTimePattern: '',
-        yearMonthPattern: '',
-      },
+      dateFormattingInfo: createDateFormattingInfo(languageId),
       displayName,
-      isRTL: false,
-      languageId: 1033,
-      numberFormattingInfo: {
-        currencyDecimalDigits: 2,
-        currencyDecimalSeparator: '.',
-        currencyGroupSeparator: ',',
-        currencyGroupSizes: [3],
-        currencyNegativePattern: 0,
-        currencyPositivePattern: 0,
-        currencySymbol: '$',
-        naNSymbol: 'NaN',
-        nativeDigits: ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'],
-        negativeInfinitySymbol: '-∞',
-        negativeSign: '-',
-        numberDecimalDigits: 2,
-        numberDecimalSeparator: '.',
-        numberGroupSeparator: ',',
-        numberGroupSizes: [3],
-        numberNegativePattern: 1,
-        percentDecimalDigits: 2,
-        percentDecimalSeparator: '.',
-        percentGroupSeparator: ',',
-        percentGroupSizes: [3],
-        percentNegativePattern: 0,
-        percentPositivePattern: 0,
-        percentSymbol: '%',
-        perMilleSymbol: '‰',
-        positiveInfinitySymbol: '∞',
-        positiveSign: '+',
+      isRTL: LOCALE_PRESETS[languageId]?.isRTL ?? false,
+      languageId,
+      numberFormattingInfo: createNumberFormattingInfo(languageId),
+      _timeZoneOffsetMinutes: timeZoneOffsetMinutes,
+      getTimeZoneOffsetMinutes(this: { _timeZoneOffsetMinutes: number }) {
+        return this._timeZoneOffsetMinutes
       },
       securityRoles: [],
       userId,
       userName,
     },
     utils: {
-      getEntityMetadata: () => Promise.resolve({} as any),
-      hasEntityPrivilege: () => false,
-      lookupObjects: () => Promise.resolve([]),
+      getEntityMetadata: getPlatformEntityMetadata,
+      hasEntityPrivilege,
+      lookupObjects: simulateLookupObjects,
     },
     webAPI: {
       ...createDefaultWebAPI(),
       ...customWebAPI,
     },
   } as any as ComponentFramework.Context<TInputs>
+
+  // Roles drive hasEntityPrivilege, initPCF waits up to a second for them and calls updateView
+  // again when they arrive later
+  setPersonas(personas)
+  if (persona) {
+    switchPersona(context, persona).catch(error => {
+      console.warn(`⚠️ Could not switch to persona ${persona}:`, error)
+    })
+  } else {
+    loadUserSecurity(userId).then(security => {
+      if (security) {
+        context.userSettings.securityRoles = security.roles
+      }
+    })
+  }
+
+  if (formScript) {
+    registerFormScript(formScript)
+  }
+
+  // Property mocks were created before the context, format them in the user's locale
+  reformatMockProperties(context)
+
+  // Paging, sorting, filtering and selection push their changes through updateView
+  if (dataset && firstDataset) {
+    const mockDataset = dataset
+    const datasetName = firstDataset.name
+    attachDatasetQuery(mockDataset, context, datasetName)
+    attachDatasetSelection(mockDataset, context, datasetName)
+    mockDataset.openDatasetItem = entityReference =>
+      simulateOpenDatasetItem(datasetName, mockDataset.getTargetEntityType(), entityReference)
+  }
+
+  return context
 }
@@ -1,3 +1,6 @@
+import type { UserConfig } from 'vite'
+import { type CassetteMode, createDataverseCassettePlugin } from './dataverseCassette.js'
+import { createOfflineDataversePlugin } from './offlineDataverse.js'
 import type { PCFViteOptions } from './types/index.js'
 
 /**
@@ -61,6 +64,11 @@ export async function createPCFViteConfig(options: PCFViteOptions = {}) {
 
     const {
       dataverseUrl = env.VITE_DATAVERSE_URL,
+      offline = env.VITE_PCF_OFFLINE === 'true',
+      fixturesDir = env.VITE_PCF_FIXTURES_DIR || 'dev/fixtures',
+      cassette = env.VITE_PCF_CASSETTE as CassetteMode | undefined,
+      cassettePath = env.VITE_PCF_CASSETTE_PATH || 'dev/cassettes/dataverse.json',
+      cassetteOptions = {},
       port = 3000,
       hmrPort = 3001,
       open = true,
@@ -103,7 +111,40 @@ export async function createPCFViteConfig(options: PCFViteOptions = {}) {
       },
     }
 
-    // Add dataverse-utilities integration (always enabled)
+    if (offline) {
+      // Fixtures stand in for Dataverse, no URL or token needed
+      const resolvedFixturesDir = path.resolve(envDir, fixturesDir)
+      console.log(`📴 Offline mode: serving /api/data from ${resolvedFixturesDir}`)
+      return mergeViteConfig(
+        {
+          ...baseConfig,
+          plugins: [
+            ...baseConfig.plugins,
+            createOfflineDataversePlugin({ fixturesDir: resolvedFixturesDir }),
+          ],
+        },
+        viteConfig
+      )
+    }
+
+    const cassettePlugin = cassette
+      ? createDataverseCassettePlugin({
+          ...cassetteOptions,
+          mode: cassette,
+          path: path.resolve(envDir, cassettePath),
+          dataverseUrl,
+        })
+      : undefined
+
+    if (cassettePlugin && cassette === 'replay') {
+      // The cassette stands in for the proxy, no URL or token needed
+      return mergeViteConfig(
+        { ...baseConfig, plugins: [...baseConfig.plugins, cassettePlugin] },
+        viteConfig
+      )
+    }
+
+    // Add dataverse-utilities integration
     if (!dataverseUrl) {
       throw new Error(
         '❌ VITE_DATAVERSE_URL environment variable is required.\n' +
@@ -125,6 +166,7 @@ export async function createPCFViteConfig(options: PCFViteOptions = {}) {
       ...baseConfig,
       plugins: [
         ...(baseConfig.plugins || []),
+        ...(cassettePlugin ? [cassettePlugin] : []),
         ...(Array.isArray(dataverseConfig.plugins) ? dataverseConfig.plugins : []),
       ],
       server: {
@@ -133,18 +175,24 @@ export async function createPCFViteConfig(options: PCFViteOptions = {}) {
       },
     }
 
-    // Merge with user-provided config
-    return {
-      ...baseConfig,
-      ...viteConfig,
-      plugins: [
-        ...(baseConfig.plugins || []),
-        ...(Array.isArray(viteConfig.plugins) ? viteConfig.plugins : []),
-      ],
-      server: {
-        ...baseConfig.server,
-        ...(viteConfig.server || {}),
-      },
-    }
+    return mergeViteConfig(baseConfig, viteConfig)
   })
 }
+
+/**
+ * Merge the user-provided config, plugins and server options are combined
+ */
+function mergeViteConfig(baseConfig: UserConfig, viteConfig: UserConfig): UserConfig {
+  return {
+    ...baseConfig,
+    ...viteConfig,
+    plugins: [
+      ...(baseConfig.plugins || []),
+      ...(Array.isArray(viteConfig.plugins) ? viteConfig.plugins : []),
+    ],
+    server: {
+      ...baseConfig.server,
+      ...(viteConfig.server || {}),
+    },
+  }
+}
@@ -0,0 +1,313 @@
+/**
+ * Dataverse Cassette
+ * Records the proxied /api/data traffic to a cassette file and replays it without network or token
+ */
+
+import type { Plugin } from 'vite'
+
+export type CassetteMode = 'record' | 'replay'
+
+export interface DataverseCassetteOptions {
+  mode: CassetteMode
+  /** Cassette file, e.g. dev/cassettes/dataverse.json */
+  path: string
+  /** Dataverse URL, replaced by a placeholder so the cassette works on any org and port */
+  dataverseUrl?: string
+  /** Query parameters matched by name only because their value changes between runs */
+  ignoreQueryParameters?: string[]
+  /** Parts of the URL or body that change between runs, blanked out before matching */
+  volatilePatterns?: RegExp[]
+  /** Request and response headers left out of the cassette */
+  scrubHeaders?: string[]
+}
+
+export interface CassetteInteraction {
+  request: {
+    method: string
+    url: string
+    headers: Record<string, string>
+    body?: string
+  }
+  response: {
+    status: number
+    headers: Record<string, string>
+    body: string
+    /** base64 for binary bodies such as images and files */
+    bodyEncoding?: 'base64'
+  }
+}
+
+export interface Cassette {
+  version: 1
+  recordedAt: string
+  interactions: CassetteInteraction[]
+}
+
+export const DEFAULT_IGNORED_QUERY_PARAMETERS = ['$skiptoken']
+
+/** FetchXML paging cookies carry record ids and timestamps of the previous page */
+export const DEFAULT_VOLATILE_PATTERNS = [/paging-cookie=(["']).*?\1/g]
+
+export const DEFAULT_SCRUBBED_HEADERS = [
+  'authorization',
+  'cookie',
+  'set-cookie',
+  'x-ms-client-request-id',
+  'x-ms-service-request-id',
+  'req_id',
+  'request-id',
+  'x-ms-ratelimit-burst-remaining-xrm-requests',
+  'x-ms-ratelimit-time-remaining-xrm-requests',
+]
+
+/** Request headers that change the response and are worth keeping */
+const RECORDED_REQUEST_HEADERS = ['accept', 'content-type', 'prefer', 'if-match', 'if-none-match']
+
+/** The proxy or Node set these again when the response is sent */
+const HOP_HEADERS = ['connection', 'content-length', 'content-encoding', 'transfer-encoding']
+
+const ORIGIN_PLACEHOLDER = '{{origin}}'
+const API_PATH = /^\/api\/data\//
+/** Recorded responses are written to the cassette at most this often */
+const SAVE_DELAY_MS = 500
+
+/**
+ * Key used to match a replayed request to a recorded one
+ */
+export function getInteractionKey(
+  method: string,
+  url: string,
+  body: string | undefined,
+  options: Pick<DataverseCassetteOptions, 'ignoreQueryParameters' | 'volatilePatterns'>
+): string {
+  const ignored = new Set(
+    (options.ignoreQueryParameters ?? DEFAULT_IGNORED_QUERY_PARAMETERS).map(name =>
+      name.toLowerCase()
+    )
+  )
+  const parsed = new URL(url, 'http://cassette')
+  const query = Array.from(parsed.searchParams.entries())
+    .map(([name, value]) => `${name}=${ignored.has(name.toLowerCase()) ? '*' : value}`)
+    .join('&')
+
+  let key = `${method.toUpperCase()} ${decodeURIComponent(parsed.pathname)}?${query}\n${body ?? ''}`
+  for (const pattern of options.volatilePatterns ?? DEFAULT_VOLATILE_PATTERNS) {
+    key = key.replace(pattern, '*')
+  }
+  return key
+}
+
+function pickHeaders(
+  headers: Record<string, unknown>,
+  include: (name: string) => boolean
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers)
+      .filter(([name, value]) => value !== undefined && include(name.toLowerCase()))
+      .map(([name, value]) => [
+        name.toLowerCase(),
+        Array.isArray(value) ? value.join(', ') : String(value),
+      ])
+  )
+}
+
+function isTextContent(contentType: string | undefined): boolean {
+  return !contentType || /json|text|xml|javascript/.test(contentType)
+}
+
+/**
+ * Vite plugin that records the Dataverse proxy traffic, or replays it in place of the proxy
+ */
+export function createDataverseCassettePlugin(options: DataverseCassetteOptions): Plugin {
+  const scrubbed = new Set(
+    (options.scrubHeaders ?? DEFAULT_SCRUBBED_HEADERS).map(name => name.toLowerCase())
+  )
+  const dataverseOrigin = options.dataverseUrl ? new URL(options.dataverseUrl).origin : undefined
+  const hideOrigin = (text: string) =>
+    dataverseOrigin ? text.split(dataverseOrigin).join(ORIGIN_PLACEHOLDER) : text
+
+  return {
+    name: 'pcf-dataverse-cassette',
+    // Runs before the proxy middleware so recording sees every response
+    enforce: 'pre',
+    async configureServer(server) {
+      const fs = await import('node:fs')
+      const path = await import('node:path')
+      const zlib = await import('node:zlib')
+      const cassettePath = path.resolve(options.path)
+
+      if (options.mode === 'record') {
+        const cassette: Cassette = {
+          version: 1,
+          recordedAt: new Date().toISOString(),
+          interactions: [],
+        }
+        let pendingSave: ReturnType<typeof setTimeout> | undefined
+        const save = () => {
+          clearTimeout(pendingSave)
+          pendingSave = undefined
+          fs.mkdirSync(path.dirname(cassettePath), { recursive: true })
+          fs.writeFileSync(cassettePath, `${JSON.stringify(cassette, null, 2)}\n`)
+        }
+        // A burst of responses shares one write, stopping the server writes what is left
+        const scheduleSave = () => {
+          if (!pendingSave) {
+            pendingSave = setTimeout(save, SAVE_DELAY_MS)
+          }
+        }
+        const flush = () => {
+          if (pendingSave) {
+            save()
+          }
+        }
+        save()
+        server.httpServer?.on('close', flush)
+        process.once('exit', flush)
+        console.log(`📼 Recording Dataverse traffic to ${cassettePath}`)
+
+        server.middlewares.use((req, res, next) => {
+          if (!API_PATH.test(req.url || '')) {
+            next()
+            return
+          }
+
+          // Listening alongside the proxy keeps the request stream intact for it
+          const requestChunks: Buffer[] = []
+          req.on('data', (chunk: Buffer) => requestChunks.push(Buffer.from(chunk)))
+
+          const responseChunks: Buffer[] = []
+          const write = res.write.bind(res) as (...args: any[]) => boolean
+          const end = res.end.bind(res) as (...args: any[]) => typeof res
+          res.write = ((chunk: any, ...args: any[]) => {
+            if (chunk) {
+              responseChunks.push(Buffer.from(chunk))
+            }
+            return write(chunk, ...args)
+          }) as typeof res.write
+          res.end = ((chunk?: any, ...args: any[]) => {
+            if (chunk && typeof chunk !== 'function') {
+              responseChunks.push(Buffer.from(chunk))
+            }
+
+            const headers = res.getHeaders() as Record<string, unknown>
+            let responseBody = Buffer.concat(responseChunks)
+            try {
+              const encoding = String(headers['content-encoding'] || '')
+              if (encoding === 'gzip') {
+                responseBody = zlib.gunzipSync(responseBody)
+              } else if (encoding === 'br') {
+                responseBody = zlib.brotliDecompressSync(responseBody)
+              } else if (encoding === 'deflate') {
+                responseBody = zlib.inflateSync(responseBody)
+              }
+            } catch (error) {
+              console.warn(`⚠️ Could not decode the response of ${req.url}:`, error)
+            }
+            const text = isTextContent(headers['content-type'] as string | undefined)
+            const requestBody = Buffer.concat(requestChunks).toString('utf-8')
+
+            cassette.interactions.push({
+              request: {
+                method: req.method || 'GET',
+                url: hideOrigin(req.url || ''),
+                headers: pickHeaders(
+                  req.headers,
+                  name => RECORDED_REQUEST_HEADERS.includes(name) && !scrubbed.has(name)
+                ),
+                ...(requestBody ? { body: hideOrigin(requestBody) } : {}),
+              },
+              response: {
+                status: res.statusCode,
+                headers: pickHeaders(
+                  headers,
+                  name => !scrubbed.has(name) && !HOP_HEADERS.includes(name)
+                ),
+                body: text
+                  ? hideOrigin(responseBody.toString('utf-8'))
+                  : responseBody.toString('base64'),
+                ...(text ? {} : { bodyEncoding: 'base64' as const }),
+              },
+            })
+            scheduleSave()
+            return end(chunk, ...args)
+          }) as typeof res.end
+
+          next()
+        })
+        return
+      }
+
+      if (!fs.existsSync(cassettePath)) {
+        throw new Error(
+          `❌ Cassette ${cassettePath} does not exist.\n` +
+            '   Record one first with VITE_PCF_CASSETTE=record.'
+        )
+      }
+      const cassette: Cassette = JSON.parse(fs.readFileSync(cassettePath, 'utf-8'))
+
+      // Identical requests replay in recorded order, the last response repeats
+      const recorded = new Map<string, CassetteInteraction[]>()
+      for (const interaction of cassette.interactions) {
+        const { method, url, body } = interaction.request
+        const key = getInteractionKey(method, url, body, options)
+        recorded.set(key, [...(recorded.get(key) || []), interaction])
+      }
+      const played = new Map<string, number>()
+      console.log(
+        `📼 Replaying ${cassette.interactions.length} Dataverse responses from ${cassettePath}`
+      )
+
+      server.middlewares.use((req, res, next) => {
+        if (!API_PATH.test(req.url || '')) {
+          next()
+          return
+        }
+
+        const chunks: Buffer[] = []
+        req.on('data', (chunk: Buffer) => chunks.push(Buffer.from(chunk)))
+        req.on('end', () => {
+          const origin = `http://${req.headers.host || 'localhost'}`
+          const body = Buffer.concat(chunks)
+            .toString('utf-8')
+            .split(origin)
+            .join(ORIGIN_PLACEHOLDER)
+          const key = getInteractionKey(
+            req.method || 'GET',
+            req.url || '',
+            body || undefined,
+            options
+          )
+          const interactions = recorded.get(key)
+
+          if (!interactions) {
+            console.warn(`⚠️ No recorded response for ${req.method} ${req.url}`)
+            res.statusCode = 404
+            res.setHeader('Content-Type', 'application/json')
+            res.end(
+              JSON.stringify({
+                error: { code: '', message: `No recorded response for ${req.method} ${req.url}` },
+              })
+            )
+            return
+          }
+
+          const index = played.get(key) ?? 0
+          played.set(key, index + 1)
+          const { response } = interactions[
+            Math.min(index, interactions.length - 1)
+          ] as CassetteInteraction
+
+          res.statusCode = response.status
+          for (const [name, value] of Object.entries(response.headers)) {
+            res.setHeader(name, value.split(ORIGIN_PLACEHOLDER).join(origin))
+          }
+          res.end(
+            response.bodyEncoding === 'base64'
+              ? Buffer.from(response.body, 'base64')
+              : response.body.split(ORIGIN_PLACEHOLDER).join(origin)
+          )
+        })
+      })
+    },
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * AccessPanel - Toggle disabled mode, form read-only mode and field security while the control is running
+ */
+
+import { Checkbox, mergeStyleSets, Stack, Text, Toggle } from '@fluentui/react'
+import type * as React from 'react'
+import { useEffect, useState } from 'react'
+import {
+  getControlAccess,
+  getSecurableProperties,
+  onControlAccessChanged,
+  type PropertySecurity,
+  setControlAccess,
+  setPropertySecurity,
+} from '../utils/controlAccess'
+
+const classNames = mergeStyleSets({
+  section: {
+    padding: '8px 0',
+    borderBottom: '1px solid #edebe9',
+  },
+  state: {
+    color: '#605e5c',
+    fontFamily: 'monospace',
+  },
+  empty: {
+    color: '#605e5c',
+    fontStyle: 'italic',
+  },
+})
+
+const SECURITY_FLAGS: Array<keyof PropertySecurity> = ['secured', 'readable', 'editable']
+
+export interface AccessPanelProps {
+  context: ComponentFramework.Context<any>
+}
+
+export const AccessPanel: React.FC<AccessPanelProps> = ({ context }) => {
+  const [, setRevision] = useState(0)
+
+  useEffect(() => onControlAccessChanged(() => setRevision(revision => revision + 1)), [])
+
+  const access = getControlAccess(context)
+  const parameters = context.parameters as Record<string, ComponentFramework.PropertyTypes.Property>
+  const securableProperties = getSecurableProperties(context)
+
+  return (
+    <Stack>
+      <div className={classNames.section}>
+        <Toggle
+          label="Control disabled"
+          inlineLabel
+          checked={access.controlDisabled}
+          onChange={(_, checked) => setControlAccess(context, { controlDisabled: !!checked })}
+        />
+        <Toggle
+          label="Form read-only"
+          inlineLabel
+          checked={access.formReadOnly}
+          onChange={(_, checked) => setControlAccess(context, { formReadOnly: !!checked })}
+        />
+        <Text variant="small" block className={classNames.state}>
+          mode.isControlDisabled: {String(context.mode.isControlDisabled)}
+        </Text>
+      </div>
+      {securableProperties.length === 0 ? (
+        <Text className={classNames.empty}>No properties with field security</Text>
+      ) : (
+        securableProperties.map(name => {
+          const property = parameters[name] as ComponentFramework.PropertyTypes.Property
+          const security = property.security as PropertySecurity
+          return (
+            <div key={name} className={classNames.section}>
+              <Text variant="medium" block styles={{ root: { fontWeight: 600 } }}>
+                {name}
+              </Text>
+              <Stack
+                horizontal
+                tokens={{ childrenGap: 16 }}
+                styles={{ root: { padding: '4px 0' } }}
+              >
+                {SECURITY_FLAGS.map(flag => (
+                  <Checkbox
+                    key={flag}
+                    label={flag}
+                    checked={security[flag]}
+                    onChange={(_, checked) =>
+                      setPropertySecurity(context, name, { [flag]: !!checked })
+                    }
+                  />
+                ))}
+              </Stack>
+              <Text variant="small" block className={classNames.state}>
+                raw: {JSON.stringify(property.raw ?? null)} · formatted:{' '}
+                {property.formatted || '(empty)'}
+              </Text>
+            </div>
+          )
+        })
+      )}
+    </Stack>
+  )
+}
@@ -0,0 +1,116 @@
+/**
+ * ControlEventsPanel - Raise the manifest events and see which form script handlers receive them
+ */
+
+import { DefaultButton, mergeStyleSets, Stack, Text, TextField, Toggle } from '@fluentui/react'
+import type * as React from 'react'
+import { useEffect, useState } from 'react'
+import {
+  getFormScriptHandlerCount,
+  isAlertFormScriptEnabled,
+  onFormScriptHandlersChanged,
+  setAlertFormScriptEnabled,
+} from '../utils/controlEvents'
+import type { ManifestEventInfo } from '../utils/manifestExtractor'
+
+const classNames = mergeStyleSets({
+  event: {
+    padding: '8px 0',
+    borderBottom: '1px solid #edebe9',
+  },
+  meta: {
+    color: '#605e5c',
+    fontFamily: 'monospace',
+  },
+  empty: {
+    color: '#605e5c',
+    fontStyle: 'italic',
+  },
+})
+
+export interface ControlEventsPanelProps {
+  context: ComponentFramework.Context<any>
+  events: ManifestEventInfo[]
+}
+
+const ControlEventRow: React.FC<{
+  context: ComponentFramework.Context<any>
+  event: ManifestEventInfo
+}> = ({ context, event }) => {
+  const [params, setParams] = useState('')
+  const [error, setError] = useState<string>()
+
+  const raise = () => {
+    let parsed: unknown
+    try {
+      parsed = params.trim() ? JSON.parse(params) : undefined
+    } catch {
+      setError('Params must be JSON')
+      return
+    }
+    setError(undefined)
+    const handler = (context.events as Record<string, (params?: unknown) => void>)[event.name]
+    handler?.(parsed)
+  }
+
+  const handlerCount = getFormScriptHandlerCount(event.name)
+
+  return (
+    <div className={classNames.event}>
+      <Stack horizontal horizontalAlign="space-between" verticalAlign="baseline">
+        <Text variant="medium" styles={{ root: { fontWeight: 600 } }}>
+          {event.name}
+        </Text>
+        <Text variant="small" className={classNames.meta}>
+          {handlerCount} handler{handlerCount === 1 ? '' : 's'}
+        </Text>
+      </Stack>
+      {event.descriptionKey && (
+        <Text variant="small" block className={classNames.meta}>
+          {context.resources.getString(event.descriptionKey)}
+        </Text>
+      )}
+      <Stack horizontal verticalAlign="end" tokens={{ childrenGap: 8 }}>
+        <Stack.Item grow>
+          <TextField
+            placeholder="Params (JSON, optional)"
+            value={params}
+            errorMessage={error}
+            onChange={(_, value) => setParams(value ?? '')}
+          />
+        </Stack.Item>
+        <DefaultButton text="Raise" onClick={raise} />
+      </Stack>
+    </div>
+  )
+}
+
+export const ControlEventsPanel: React.FC<ControlEventsPanelProps> = ({ context, events }) => {
+  const [, setRevision] = useState(0)
+
+  useEffect(() => onFormScriptHandlersChanged(() => setRevision(revision => revision + 1)), [])
+
+  if (events.length === 0) {
+    return <Text className={classNames.empty}>No events declared in the manifest</Text>
+  }
+
+  return (
+    <Stack>
+      <Toggle
+        label="Mock form script shows an alert for every event"
+        inlineLabel
+        checked={isAlertFormScriptEnabled()}
+        onChange={(_, checked) =>
+          setAlertFormScriptEnabled(
+            context,
+            events.map(event => event.name),
+            !!checked
+          )
+        }
+      />
+      {events.map(event => (
+        <ControlEventRow key={event.name} context={context} event={event} />
+      ))}
+    </Stack>
+  )
+}
@@ -0,0 +1,126 @@
+/**
+ * DevToolsPanel - Side panel rendered next to the PCF control
+ */
+
+import { mergeStyleSets, Pivot, PivotItem, Text } from '@fluentui/react'
+import type * as React from 'react'
+import type { ManifestEventInfo, ManifestPropertyInfo } from '../utils/manifestExtractor'
+import type { OutputLogEntry } from '../utils/pcfLifecycle'
+import { AccessPanel } from './AccessPanel'
+import { ControlEventsPanel } from './ControlEventsPanel'
+import { DevicePanel } from './DevicePanel'
+import { EventLogPanel } from './EventLogPanel'
+import { FaultsPanel } from './FaultsPanel'
+import { LocalePanel } from './LocalePanel'
+import { OutputsPanel } from './OutputsPanel'
+import { PropertyEditorPanel } from './PropertyEditorPanel'
+import { UserPanel } from './UserPanel'
+import { WebApiPanel } from './WebApiPanel'
+
+const classNames = mergeStyleSets({
+  panel: {
+    flex: '0 0 360px',
+    height: '100%',
+    backgroundColor: 'white',
+    borderLeft: '1px solid #d1d1d1',
+    overflowY: 'auto',
+  },
+  header: {
+    padding: '12px 16px 0',
+  },
+  content: {
+    padding: '8px 16px 16px',
+  },
+})
+
+export interface DevToolsPanelProps {
+  context: ComponentFramework.Context<any>
+  manifestInfo?: {
+    namespace: string
+    constructor: string
+    properties?: ManifestPropertyInfo[]
+    events?: ManifestEventInfo[]
+  }
+  /** Called after the panel changed the context, triggers updateView */
+  onContextChanged: (updatedProperties: string[]) => void
+  /** notifyOutputChanged calls, newest first */
+  outputLog?: OutputLogEntry[]
+  onClearOutputLog?: () => void
+}
+
+export const DevToolsPanel: React.FC<DevToolsPanelProps> = ({
+  context,
+  manifestInfo,
+  onContextChanged,
+  outputLog = [],
+  onClearOutputLog,
+}) => {
+  return (
+    <div className={classNames.panel} data-id="pcf_devtools">
+      <div className={classNames.header}>
+        <Text variant="large">PCF DevTools</Text>
+        {manifestInfo && (
+          <Text variant="small" block styles={{ root: { color: '#605e5c' } }}>
+            {manifestInfo.namespace}.{manifestInfo.constructor}
+          </Text>
+        )}
+      </div>
+      <Pivot styles={{ root: { padding: '0 8px' } }} overflowBehavior="menu">
+        <PivotItem headerText="Properties" itemKey="properties">
+          <div className={classNames.content}>
+            <PropertyEditorPanel
+              context={context}
+              properties={manifestInfo?.properties || []}
+              onPropertiesChanged={onContextChanged}
+            />
+          </div>
+        </PivotItem>
+        <PivotItem headerText="Access" itemKey="access">
+          <div className={classNames.content}>
+            <AccessPanel context={context} />
+          </div>
+        </PivotItem>
+        <PivotItem headerText="Outputs" itemKey="outputs" itemCount={outputLog.length}>
+          <div className={classNames.content}>
+            <OutputsPanel entries={outputLog} onClear={() => onClearOutputLog?.()} />
+          </div>
+        </PivotItem>
+        <PivotItem headerText="Locale" itemKey="locale">
+          <div className={classNames.content}>
+            <LocalePanel context={context} onLocaleChanged={onContextChanged} />
+          </div>
+        </PivotItem>
+        <PivotItem headerText="User" itemKey="user">
+          <div className={classNames.content}>
+            <UserPanel context={context} />
+          </div>
+        </PivotItem>
+        <PivotItem headerText="Device" itemKey="device">
+          <div className={classNames.content}>
+            <DevicePanel />
+          </div>
+        </PivotItem>
+        <PivotItem headerText="Control events" itemKey="controlEvents">
+          <div className={classNames.content}>
+            <ControlEventsPanel context={context} events={manifestInfo?.events || []} />
+          </div>
+        </PivotItem>
+        <PivotItem headerText="Web API" itemKey="webApi">
+          <div className={classNames.content}>
+            <WebApiPanel />
+          </div>
+        </PivotItem>
+        <PivotItem headerText="Faults" itemKey="faults">
+          <div className={classNames.content}>
+            <FaultsPanel />
+          </div>
+        </PivotItem>
+        <PivotItem headerText="Events" itemKey="events">
+          <div className={classNames.content}>
+            <EventLogPanel />
+          </div>
+        </PivotItem>
+      </Pivot>
+    </div>
+  )
+}
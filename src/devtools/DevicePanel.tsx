@@ -0,0 +1,112 @@
+/**
+ * DevicePanel - Edit what the context.device capture APIs return
+ */
+
+import { DefaultButton, mergeStyleSets, Stack, Text, TextField } from '@fluentui/react'
+import type * as React from 'react'
+import { useEffect, useRef, useState } from 'react'
+import {
+  type DeviceFixtures,
+  getDeviceFixtures,
+  onDeviceFixturesChanged,
+  readFileObject,
+  setDeviceFixtures,
+} from '../utils/deviceMocks'
+
+const classNames = mergeStyleSets({
+  section: {
+    padding: '8px 0',
+    borderBottom: '1px solid #edebe9',
+  },
+  preview: {
+    maxWidth: '100%',
+    maxHeight: '120px',
+    border: '1px solid #edebe9',
+  },
+  meta: {
+    color: '#605e5c',
+    fontFamily: 'monospace',
+  },
+})
+
+type Coordinate = 'latitude' | 'longitude' | 'accuracy'
+
+const COORDINATES: Coordinate[] = ['latitude', 'longitude', 'accuracy']
+
+const getImageSource = (image: DeviceFixtures['image']) =>
+  typeof image === 'string' ? image : image && `data:${image.mimeType};base64,${image.fileContent}`
+
+export const DevicePanel: React.FC = () => {
+  const [fixtures, setFixtures] = useState(getDeviceFixtures)
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  useEffect(() => onDeviceFixturesChanged(setFixtures), [])
+
+  const chooseImage = async (file: File | undefined) => {
+    if (file) {
+      setDeviceFixtures({ image: await readFileObject(file, file.name) })
+    }
+  }
+
+  const setCoordinate = (coordinate: Coordinate, value: string | undefined) => {
+    const number = Number(value)
+    if (value !== undefined && value !== '' && !Number.isNaN(number)) {
+      setDeviceFixtures({ position: { ...fixtures.position, [coordinate]: number } })
+    }
+  }
+
+  const imageSource = getImageSource(fixtures.image)
+
+  return (
+    <Stack>
+      <div className={classNames.section}>
+        <Text variant="medium" block styles={{ root: { fontWeight: 600 } }}>
+          captureImage
+        </Text>
+        {imageSource && (
+          <img className={classNames.preview} src={imageSource} alt="Capture fixture" />
+        )}
+        {fixtures.image && typeof fixtures.image !== 'string' && (
+          <Text variant="small" block className={classNames.meta}>
+            {fixtures.image.fileName} · {fixtures.image.mimeType} · {fixtures.image.fileSize} bytes
+          </Text>
+        )}
+        <input
+          ref={fileInput}
+          type="file"
+          accept="image/*"
+          hidden
+          onChange={event => chooseImage(event.target.files?.[0])}
+        />
+        <DefaultButton
+          text="Choose image..."
+          styles={{ root: { marginTop: 4 } }}
+          onClick={() => fileInput.current?.click()}
+        />
+      </div>
+      <div className={classNames.section}>
+        <TextField
+          label="getBarcodeValue"
+          value={fixtures.barcode ?? ''}
+          onChange={(_, value) => setDeviceFixtures({ barcode: value ?? '' })}
+        />
+      </div>
+      <div className={classNames.section}>
+        <Text variant="medium" block styles={{ root: { fontWeight: 600 } }}>
+          getCurrentPosition
+        </Text>
+        <Stack horizontal tokens={{ childrenGap: 8 }}>
+          {COORDINATES.map(coordinate => (
+            <TextField
+              key={coordinate}
+              label={coordinate}
+              type="number"
+              defaultValue={String(fixtures.position?.[coordinate] ?? 0)}
+              onChange={(_, value) => setCoordinate(coordinate, value)}
+            />
+          ))}
+        </Stack>
+      </div>
+    </Stack>
+  )
+}
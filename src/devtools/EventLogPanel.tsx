@@ -0,0 +1,95 @@
+/**
+ * EventLogPanel - Platform calls the control made, e.g. openForm, openDatasetItem and dialogs
+ */
+
+import { DefaultButton, mergeStyleSets, Stack, Text, Toggle } from '@fluentui/react'
+import type * as React from 'react'
+import { useEffect, useState } from 'react'
+import { clearHarnessEvents, getHarnessEvents, onHarnessEvent } from '../utils/eventLog'
+import { isFormPreviewEnabled, setFormPreviewEnabled } from '../utils/formNavigation'
+import { isScriptedDialogsEnabled, setScriptedDialogsEnabled } from '../utils/navigationDialogs'
+import { isOpenLinksEnabled, setOpenLinksEnabled } from '../utils/navigationLinks'
+
+const classNames = mergeStyleSets({
+  entry: {
+    padding: '8px 0',
+    borderBottom: '1px solid #edebe9',
+  },
+  meta: {
+    color: '#605e5c',
+  },
+  details: {
+    margin: '4px 0 0',
+    padding: '6px 8px',
+    backgroundColor: '#faf9f8',
+    fontFamily: 'monospace',
+    fontSize: '12px',
+    whiteSpace: 'pre-wrap',
+    wordBreak: 'break-all',
+  },
+  empty: {
+    color: '#605e5c',
+    fontStyle: 'italic',
+  },
+})
+
+export const EventLogPanel: React.FC = () => {
+  const [events, setEvents] = useState(getHarnessEvents)
+  const [previewEnabled, setPreviewEnabled] = useState(isFormPreviewEnabled)
+  const [linksEnabled, setLinksEnabled] = useState(isOpenLinksEnabled)
+  const [scripted, setScripted] = useState(isScriptedDialogsEnabled)
+
+  useEffect(() => onHarnessEvent(setEvents), [])
+
+  return (
+    <Stack tokens={{ childrenGap: 4 }}>
+      <Toggle
+        label="Open form preview for openForm and openDatasetItem"
+        inlineLabel
+        checked={previewEnabled}
+        onChange={(_, checked) => {
+          setFormPreviewEnabled(!!checked)
+          setPreviewEnabled(!!checked)
+        }}
+      />
+      <Toggle
+        label="Open URLs, web resources and files"
+        inlineLabel
+        checked={linksEnabled}
+        onChange={(_, checked) => {
+          setOpenLinksEnabled(!!checked)
+          setLinksEnabled(!!checked)
+        }}
+      />
+      <Toggle
+        label="Answer dialogs from the scripted response queue"
+        inlineLabel
+        checked={scripted}
+        onChange={(_, checked) => {
+          setScriptedDialogsEnabled(!!checked)
+          setScripted(!!checked)
+        }}
+      />
+      {events.length === 0 ? (
+        <Text className={classNames.empty}>No platform calls logged yet</Text>
+      ) : (
+        <>
+          <Stack horizontal horizontalAlign="space-between" verticalAlign="center">
+            <Text variant="small" className={classNames.meta}>
+              {events.length} event{events.length === 1 ? '' : 's'}
+            </Text>
+            <DefaultButton text="Clear" onClick={clearHarnessEvents} />
+          </Stack>
+          {events.map(event => (
+            <div key={event.id} className={classNames.entry}>
+              <Text variant="small" block className={classNames.meta}>
+                {event.timestamp.toLocaleTimeString()} · <strong>{event.type}</strong>
+              </Text>
+              <pre className={classNames.details}>{JSON.stringify(event.details, null, 2)}</pre>
+            </div>
+          ))}
+        </>
+      )}
+    </Stack>
+  )
+}
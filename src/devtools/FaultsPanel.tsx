@@ -0,0 +1,206 @@
+/**
+ * FaultsPanel - Inject HTTP errors, throttling, latency and dropped connections into webAPI calls
+ */
+
+import {
+  DefaultButton,
+  Dropdown,
+  IconButton,
+  mergeStyleSets,
+  PrimaryButton,
+  Stack,
+  Text,
+  TextField,
+  Toggle,
+} from '@fluentui/react'
+import type * as React from 'react'
+import { useEffect, useState } from 'react'
+import {
+  addFaultRule,
+  clearFaultRules,
+  FAULT_TYPES,
+  type FaultMethod,
+  type FaultRule,
+  type FaultType,
+  getFaultRules,
+  onFaultRulesChanged,
+  removeFaultRule,
+  updateFaultRule,
+} from '../utils/faultInjection'
+
+const classNames = mergeStyleSets({
+  section: {
+    padding: '8px 0',
+    borderBottom: '1px solid #edebe9',
+  },
+  meta: {
+    color: '#605e5c',
+  },
+  empty: {
+    color: '#605e5c',
+    fontStyle: 'italic',
+  },
+})
+
+const METHODS: Array<{ key: FaultMethod | '*'; text: string }> = [
+  { key: '*', text: 'Any method' },
+  { key: 'retrieveMultipleRecords', text: 'retrieveMultipleRecords' },
+  { key: 'retrieveRecord', text: 'retrieveRecord' },
+  { key: 'createRecord', text: 'createRecord' },
+  { key: 'updateRecord', text: 'updateRecord' },
+  { key: 'deleteRecord', text: 'deleteRecord' },
+  { key: 'execute', text: 'execute' },
+  { key: 'loadDataset', text: 'Dataset load' },
+]
+
+const getFaultLabel = (fault: FaultType) =>
+  FAULT_TYPES.find(type => type.value === fault)?.label ?? fault
+
+const getMethodLabel = (method: FaultRule['method']) =>
+  METHODS.find(option => option.key === method)?.text ?? method
+
+/** A number of zero or more from a text field, undefined when empty or invalid */
+function parseNumber(value: string): number | undefined {
+  const number = Number(value)
+  return value.trim() !== '' && !Number.isNaN(number) && number >= 0 ? number : undefined
+}
+
+function describeRule(rule: FaultRule): string {
+  return [
+    rule.latencyMs !== undefined && `${rule.latencyMs} ms delay`,
+    rule.retryAfterSeconds !== undefined && `Retry-After ${rule.retryAfterSeconds}s`,
+    rule.errorCode && `code ${rule.errorCode}`,
+    rule.remaining !== undefined ? `${rule.remaining} left` : 'every request',
+  ]
+    .filter(Boolean)
+    .join(' · ')
+}
+
+export const FaultsPanel: React.FC = () => {
+  const [rules, setRules] = useState(getFaultRules)
+  const [fault, setFault] = useState<FaultType>('serverError')
+  const [entity, setEntity] = useState('')
+  const [method, setMethod] = useState<FaultRule['method']>('*')
+  const [latency, setLatency] = useState('')
+  const [retryAfter, setRetryAfter] = useState('')
+  const [errorCode, setErrorCode] = useState('')
+  const [count, setCount] = useState('')
+
+  useEffect(() => onFaultRulesChanged(setRules), [])
+
+  const addRule = () => {
+    addFaultRule({
+      fault,
+      entity: entity.trim() || '*',
+      method,
+      latencyMs: parseNumber(latency),
+      retryAfterSeconds: fault === 'throttled' ? parseNumber(retryAfter) : undefined,
+      errorCode: errorCode.trim() || undefined,
+      remaining: parseNumber(count),
+    })
+  }
+
+  const returnsPayload = !['unauthorized', 'latency', 'dropConnection'].includes(fault)
+
+  return (
+    <Stack>
+      <div className={classNames.section}>
+        <Dropdown
+          label="Fault"
+          selectedKey={fault}
+          options={FAULT_TYPES.map(type => ({ key: type.value, text: type.label }))}
+          onChange={(_, option) => option && setFault(option.key as FaultType)}
+        />
+        <Stack horizontal tokens={{ childrenGap: 8 }}>
+          <TextField
+            label="Entity"
+            placeholder="* for every entity"
+            value={entity}
+            onChange={(_, value) => setEntity(value ?? '')}
+          />
+          <Dropdown
+            label="Method"
+            selectedKey={method}
+            options={METHODS}
+            styles={{ root: { minWidth: 150 } }}
+            onChange={(_, option) => option && setMethod(option.key as FaultRule['method'])}
+          />
+        </Stack>
+        <Stack horizontal tokens={{ childrenGap: 8 }}>
+          <TextField
+            label="Latency (ms)"
+            type="number"
+            placeholder={fault === 'latency' ? '2000' : '0'}
+            value={latency}
+            onChange={(_, value) => setLatency(value ?? '')}
+          />
+          <TextField
+            label="Fail next"
+            type="number"
+            placeholder="every request"
+            value={count}
+            onChange={(_, value) => setCount(value ?? '')}
+          />
+        </Stack>
+        {fault === 'throttled' && (
+          <TextField
+            label="Retry-After (s)"
+            type="number"
+            placeholder="5"
+            value={retryAfter}
+            onChange={(_, value) => setRetryAfter(value ?? '')}
+          />
+        )}
+        {returnsPayload && (
+          <TextField
+            label="error.code"
+            placeholder="Dataverse code for the status"
+            value={errorCode}
+            onChange={(_, value) => setErrorCode(value ?? '')}
+          />
+        )}
+        <PrimaryButton text="Add fault" styles={{ root: { marginTop: 8 } }} onClick={addRule} />
+      </div>
+      <div className={classNames.section}>
+        {rules.length === 0 ? (
+          <Text className={classNames.empty}>No faults, requests go through</Text>
+        ) : (
+          <>
+            {rules.map(rule => (
+              <Stack
+                key={rule.id}
+                horizontal
+                verticalAlign="center"
+                horizontalAlign="space-between"
+              >
+                <Stack>
+                  <Toggle
+                    label={`${getFaultLabel(rule.fault)} · ${getMethodLabel(rule.method)} · ${rule.entity}`}
+                    inlineLabel
+                    checked={rule.enabled}
+                    styles={{ root: { marginBottom: 0 } }}
+                    onChange={(_, checked) => updateFaultRule(rule.id, { enabled: !!checked })}
+                  />
+                  <Text variant="small" className={classNames.meta}>
+                    {describeRule(rule)}
+                  </Text>
+                </Stack>
+                <IconButton
+                  iconProps={{ iconName: 'Delete' }}
+                  title="Remove fault"
+                  ariaLabel="Remove fault"
+                  onClick={() => removeFaultRule(rule.id)}
+                />
+              </Stack>
+            ))}
+            <DefaultButton
+              text="Remove all"
+              styles={{ root: { marginTop: 8 } }}
+              onClick={clearFaultRules}
+            />
+          </>
+        )}
+      </div>
+    </Stack>
+  )
+}
@@ -0,0 +1,201 @@
+/**
+ * FormPreviewDialog - Read-only form for the record a control opened with openForm/openDatasetItem
+ */
+
+import {
+  DefaultButton,
+  IconButton,
+  MessageBar,
+  MessageBarType,
+  Modal,
+  mergeStyleSets,
+  Spinner,
+  Stack,
+  Text,
+  TextField,
+} from '@fluentui/react'
+import type * as React from 'react'
+import { useEffect, useState } from 'react'
+import { type FormPreviewRequest, onFormPreviewRequested } from '../utils/formNavigation'
+
+const FORMATTED_VALUE_SUFFIX = '@OData.Community.Display.V1.FormattedValue'
+
+const classNames = mergeStyleSets({
+  modal: {
+    width: '640px',
+    maxWidth: '90vw',
+  },
+  header: {
+    padding: '12px 16px',
+    borderBottom: '1px solid #edebe9',
+  },
+  body: {
+    padding: '16px',
+    maxHeight: '70vh',
+    overflowY: 'auto',
+  },
+  footer: {
+    padding: '12px 16px',
+    borderTop: '1px solid #edebe9',
+  },
+  options: {
+    margin: 0,
+    padding: '6px 8px',
+    backgroundColor: '#faf9f8',
+    fontFamily: 'monospace',
+    fontSize: '12px',
+    whiteSpace: 'pre-wrap',
+  },
+})
+
+interface FormField {
+  logicalName: string
+  label: string
+  value: string
+}
+
+interface FormPreviewData {
+  entityDisplayName: string
+  primaryName: string
+  fields: FormField[]
+}
+
+/**
+ * Fetch the record and the entity attribute metadata through the Dataverse proxy
+ */
+async function loadFormPreview(entityName: string, entityId: string): Promise<FormPreviewData> {
+  const metadataResponse = await fetch(
+    `/api/data/v9.2/EntityDefinitions(LogicalName='${entityName}')?$select=LogicalName,DisplayName,EntitySetName,PrimaryNameAttribute&$expand=Attributes($select=LogicalName,DisplayName,AttributeType,AttributeOf)`
+  )
+  if (!metadataResponse.ok) {
+    throw new Error(`Failed to get metadata for ${entityName}: ${metadataResponse.status}`)
+  }
+  const metadata = await metadataResponse.json()
+
+  // Read the record directly so the preview stays out of the Web API log and fault rules
+  const recordResponse = await fetch(`/api/data/v9.2/${metadata.EntitySetName}(${entityId})`, {
+    headers: { Prefer: 'odata.include-annotations="*"' },
+  })
+  if (!recordResponse.ok) {
+    throw new Error(`Failed to get ${entityName} ${entityId}: ${recordResponse.status}`)
+  }
+  const record = await recordResponse.json()
+
+  const fields: FormField[] = []
+  for (const attribute of metadata.Attributes || []) {
+    // Skip virtual name/yomi attributes that belong to another attribute
+    if (attribute.AttributeOf || attribute.AttributeType === 'Virtual') {
+      continue
+    }
+
+    const key =
+      attribute.AttributeType === 'Lookup' ||
+      attribute.AttributeType === 'Customer' ||
+      attribute.AttributeType === 'Owner'
+        ? `_${attribute.LogicalName}_value`
+        : attribute.LogicalName
+    if (!(key in record)) {
+      continue
+    }
+
+    const raw = record[key]
+    const formatted = record[`${key}${FORMATTED_VALUE_SUFFIX}`]
+    fields.push({
+      logicalName: attribute.LogicalName,
+      label: attribute.DisplayName?.UserLocalizedLabel?.Label || attribute.LogicalName,
+      value: formatted ?? (raw === null || raw === undefined ? '' : String(raw)),
+    })
+  }
+
+  fields.sort((a, b) => a.label.localeCompare(b.label))
+
+  return {
+    entityDisplayName: metadata.DisplayName?.UserLocalizedLabel?.Label || entityName,
+    primaryName: record[metadata.PrimaryNameAttribute] || entityId,
+    fields,
+  }
+}
+
+export const FormPreviewDialog: React.FC = () => {
+  const [request, setRequest] = useState<FormPreviewRequest | null>(null)
+  const [data, setData] = useState<FormPreviewData | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => onFormPreviewRequested(setRequest), [])
+
+  useEffect(() => {
+    setData(null)
+    setError(null)
+    if (!request?.entityId) {
+      return
+    }
+
+    let cancelled = false
+    loadFormPreview(request.entityName, request.entityId)
+      .then(result => {
+        if (!cancelled) setData(result)
+      })
+      .catch(loadError => {
+        if (!cancelled) setError(String(loadError))
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [request])
+
+  const close = () => setRequest(null)
+
+  return (
+    <Modal isOpen={!!request} onDismiss={close} containerClassName={classNames.modal}>
+      {request && (
+        <>
+          <Stack
+            horizontal
+            horizontalAlign="space-between"
+            verticalAlign="center"
+            className={classNames.header}
+          >
+            <Stack>
+              <Text variant="xLarge">
+                {request.entityId ? data?.primaryName || 'Loading...' : `New ${request.entityName}`}
+              </Text>
+              <Text variant="small" styles={{ root: { color: '#605e5c' } }}>
+                {data?.entityDisplayName || request.entityName}
+                {request.entityId ? ` · ${request.entityId}` : ''} · Form preview
+              </Text>
+            </Stack>
+            <IconButton
+              iconProps={{ iconName: 'Cancel' }}
+              ariaLabel="Close form preview"
+              onClick={close}
+            />
+          </Stack>
+          <div className={classNames.body}>
+            <Stack tokens={{ childrenGap: 8 }}>
+              {request.options && (
+                <pre className={classNames.options}>{JSON.stringify(request.options, null, 2)}</pre>
+              )}
+              {error && <MessageBar messageBarType={MessageBarType.error}>{error}</MessageBar>}
+              {request.entityId && !data && !error && <Spinner label="Loading record..." />}
+              {!request.entityId && (
+                <Text>The control opened a create form, there is no record to show.</Text>
+              )}
+              {data?.fields.map(field => (
+                <TextField
+                  key={field.logicalName}
+                  label={field.label}
+                  value={field.value}
+                  title={field.logicalName}
+                  readOnly
+                />
+              ))}
+            </Stack>
+          </div>
+          <Stack horizontal horizontalAlign="end" className={classNames.footer}>
+            <DefaultButton text="Close" onClick={close} />
+          </Stack>
+        </>
+      )}
+    </Modal>
+  )
+}
@@ -0,0 +1,119 @@
+/**
+ * LocalePanel - Switch the user's language and time zone while the control is running
+ */
+
+import { Dropdown, type IDropdownOption, mergeStyleSets, Stack, Text } from '@fluentui/react'
+import type * as React from 'react'
+import { useState } from 'react'
+import { LOCALE_PRESETS, setUserLocale } from '../utils/localeFormatting'
+import { reformatMockProperties } from '../utils/propertyMocks'
+import { getResourceLanguages } from '../utils/resourceMocks'
+
+const classNames = mergeStyleSets({
+  samples: {
+    marginTop: '8px',
+    borderTop: '1px solid #edebe9',
+  },
+  sample: {
+    padding: '4px 0',
+  },
+  sampleLabel: {
+    color: '#605e5c',
+    fontFamily: 'monospace',
+  },
+})
+
+/**
+ * Preset languages plus every language with resx strings, translated ones are marked
+ */
+const getLanguageOptions = (resxLanguages: number[], current: number): IDropdownOption[] => {
+  const lcids = new Set([...Object.keys(LOCALE_PRESETS).map(Number), ...resxLanguages, current])
+  return Array.from(lcids).map(lcid => {
+    const name = LOCALE_PRESETS[lcid]?.displayName ?? 'No formatting preset'
+    const translated = resxLanguages.includes(lcid) ? ' · resx' : ''
+    return { key: lcid, text: `${name} (${lcid})${translated}` }
+  })
+}
+
+const formatOffset = (minutes: number) => {
+  const sign = minutes < 0 ? '-' : '+'
+  const absolute = Math.abs(minutes)
+  return `UTC${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}:${String(absolute % 60).padStart(2, '0')}`
+}
+
+const TIME_ZONE_OPTIONS: IDropdownOption[] = [
+  ...Array.from({ length: 27 }, (_, index) => (index - 12) * 60),
+  330,
+  570,
+]
+  .sort((a, b) => a - b)
+  .map(minutes => ({ key: minutes, text: formatOffset(minutes) }))
+
+const SAMPLE_DATE = new Date(2024, 11, 31, 14, 5, 9)
+
+export interface LocalePanelProps {
+  context: ComponentFramework.Context<any>
+  /** Called with the properties whose formatted value changed */
+  onLocaleChanged: (updatedProperties: string[]) => void
+}
+
+export const LocalePanel: React.FC<LocalePanelProps> = ({ context, onLocaleChanged }) => {
+  const { userSettings, formatting } = context
+  const [, setRevision] = useState(0)
+
+  const apply = (options: Parameters<typeof setUserLocale>[1]) => {
+    setUserLocale(context, options)
+    setRevision(revision => revision + 1)
+    onLocaleChanged(reformatMockProperties(context))
+  }
+
+  const resxLanguages = getResourceLanguages(context)
+  const offset = userSettings.getTimeZoneOffsetMinutes()
+  const samples: [string, string][] = [
+    ['formatInteger(1234567)', formatting.formatInteger(1234567)],
+    ['formatDecimal(-1234.5)', formatting.formatDecimal(-1234.5)],
+    ['formatCurrency(1234.5)', formatting.formatCurrency(1234.5)],
+    ['formatCurrency(-1234.5)', formatting.formatCurrency(-1234.5)],
+    ['formatDateShort(d, true)', formatting.formatDateShort(SAMPLE_DATE, true)],
+    ['formatDateLong(d)', formatting.formatDateLong(SAMPLE_DATE)],
+    ['formatDateYearMonth(d)', formatting.formatDateYearMonth(SAMPLE_DATE)],
+    ['formatTime(now, UserLocal)', formatting.formatTime(new Date(), 1)],
+    ['getWeekOfYear(d)', String(formatting.getWeekOfYear(SAMPLE_DATE))],
+  ]
+
+  return (
+    <Stack tokens={{ childrenGap: 8 }}>
+      <Dropdown
+        label="Language (userSettings.languageId)"
+        options={getLanguageOptions(resxLanguages, userSettings.languageId)}
+        selectedKey={userSettings.languageId}
+        onChange={(_, option) => option && apply({ languageId: option.key as number })}
+      />
+      <Text variant="small" className={classNames.sampleLabel}>
+        {resxLanguages.length > 0
+          ? `getString translations: ${resxLanguages.join(', ')}, falling back to 1033`
+          : 'No resx files declared in the manifest, getString returns the key'}
+      </Text>
+      <Dropdown
+        label="Time zone"
+        options={
+          TIME_ZONE_OPTIONS.some(option => option.key === offset)
+            ? TIME_ZONE_OPTIONS
+            : [...TIME_ZONE_OPTIONS, { key: offset, text: formatOffset(offset) }]
+        }
+        selectedKey={offset}
+        onChange={(_, option) => option && apply({ timeZoneOffsetMinutes: option.key as number })}
+      />
+      <div className={classNames.samples}>
+        {samples.map(([label, value]) => (
+          <div key={label} className={classNames.sample}>
+            <Text variant="small" block className={classNames.sampleLabel}>
+              {label}
+            </Text>
+            <Text>{value}</Text>
+          </div>
+        ))}
+      </div>
+    </Stack>
+  )
+}
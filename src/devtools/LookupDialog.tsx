@@ -0,0 +1,184 @@
+/**
+ * LookupDialog - Record picker the harness shows for context.utils.lookupObjects
+ */
+
+import {
+  DefaultButton,
+  Dropdown,
+  Icon,
+  Modal,
+  mergeStyleSets,
+  PrimaryButton,
+  SearchBox,
+  Spinner,
+  Stack,
+  Text,
+} from '@fluentui/react'
+import type * as React from 'react'
+import { useCallback, useEffect, useState } from 'react'
+import { type LookupRequest, onLookupRequested } from '../utils/lookupObjects'
+import { type RecordInfo, searchRecordsFromTable } from '../utils/viewDiscovery'
+
+const classNames = mergeStyleSets({
+  modal: {
+    width: '520px',
+    maxWidth: '90vw',
+  },
+  header: {
+    padding: '12px 16px',
+    borderBottom: '1px solid #edebe9',
+  },
+  body: {
+    padding: '16px',
+  },
+  results: {
+    height: '320px',
+    overflowY: 'auto',
+    border: '1px solid #edebe9',
+  },
+  result: {
+    display: 'block',
+    width: '100%',
+    padding: '8px',
+    border: 'none',
+    borderBottom: '1px solid #f3f2f1',
+    background: 'transparent',
+    textAlign: 'left',
+    cursor: 'pointer',
+    ':hover': {
+      backgroundColor: '#f3f2f1',
+    },
+  },
+  selected: {
+    backgroundColor: '#edebe9',
+  },
+  empty: {
+    padding: '8px',
+    color: '#605e5c',
+    fontStyle: 'italic',
+  },
+  footer: {
+    padding: '12px 16px',
+    borderTop: '1px solid #edebe9',
+  },
+})
+
+export const LookupDialog: React.FC = () => {
+  const [request, setRequest] = useState<LookupRequest | null>(null)
+  const [entityType, setEntityType] = useState('')
+  const [searchTerm, setSearchTerm] = useState('')
+  const [results, setResults] = useState<RecordInfo[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+  const [selected, setSelected] = useState<ComponentFramework.LookupValue[]>([])
+
+  useEffect(
+    () =>
+      onLookupRequested(newRequest => {
+        const { defaultEntityType, entityTypes } = newRequest.options
+        setRequest(newRequest)
+        setEntityType(defaultEntityType || entityTypes[0] || '')
+        setSearchTerm('')
+        setSelected([])
+      }),
+    []
+  )
+
+  const search = useCallback(async (table: string, term: string) => {
+    setIsSearching(true)
+    setResults(await searchRecordsFromTable(table, term, 50))
+    setIsSearching(false)
+  }, [])
+
+  useEffect(() => {
+    if (request && entityType) {
+      search(entityType, '')
+    }
+  }, [request, entityType, search])
+
+  const close = (values: ComponentFramework.LookupValue[]) => {
+    request?.resolve(values)
+    setRequest(null)
+    setResults([])
+  }
+
+  const isSelected = (record: RecordInfo) => selected.some(value => value.id === record.id)
+
+  const toggle = (record: RecordInfo) => {
+    const value = { id: record.id, name: record.primaryName, entityType }
+    if (!request?.options.allowMultiSelect) {
+      setSelected([value])
+    } else if (isSelected(record)) {
+      setSelected(selected.filter(item => item.id !== record.id))
+    } else {
+      setSelected([...selected, value])
+    }
+  }
+
+  return (
+    <Modal isOpen={!!request} onDismiss={() => close([])} containerClassName={classNames.modal}>
+      {request && (
+        <>
+          <div className={classNames.header}>
+            <Text variant="xLarge">Look up records</Text>
+          </div>
+          <Stack tokens={{ childrenGap: 8 }} className={classNames.body}>
+            {request.options.entityTypes.length > 1 && (
+              <Dropdown
+                label="Look for"
+                options={request.options.entityTypes.map(type => ({ key: type, text: type }))}
+                selectedKey={entityType}
+                onChange={(_, option) => option && setEntityType(String(option.key))}
+              />
+            )}
+            <SearchBox
+              placeholder={`Search ${entityType}`}
+              value={searchTerm}
+              onChange={(_, newValue) => setSearchTerm(newValue ?? '')}
+              onSearch={term => search(entityType, term)}
+            />
+            <div className={classNames.results}>
+              {isSearching ? (
+                <Spinner label="Searching..." />
+              ) : results.length === 0 ? (
+                <Text block className={classNames.empty}>
+                  No records found
+                </Text>
+              ) : (
+                results.map(record => (
+                  <button
+                    key={record.id}
+                    type="button"
+                    className={`${classNames.result} ${isSelected(record) ? classNames.selected : ''}`}
+                    onClick={() => toggle(record)}
+                  >
+                    {request.options.allowMultiSelect && (
+                      <Icon
+                        iconName={isSelected(record) ? 'CheckboxComposite' : 'Checkbox'}
+                        styles={{ root: { marginRight: 8, verticalAlign: 'middle' } }}
+                      />
+                    )}
+                    {record.displayText}
+                  </button>
+                ))
+              )}
+            </div>
+            <Text variant="small">{selected.length} selected</Text>
+          </Stack>
+          <Stack
+            horizontal
+            horizontalAlign="end"
+            tokens={{ childrenGap: 8 }}
+            className={classNames.footer}
+          >
+            <PrimaryButton
+              text="Add"
+              disabled={selected.length === 0}
+              onClick={() => close(selected)}
+            />
+            <DefaultButton text="Cancel" onClick={() => close([])} />
+          </Stack>
+        </>
+      )}
+    </Modal>
+  )
+}
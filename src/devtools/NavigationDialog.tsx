@@ -0,0 +1,113 @@
+/**
+ * NavigationDialog - Alert, confirm and error dialogs the harness shows for context.navigation
+ */
+
+import {
+  DefaultButton,
+  Dialog,
+  DialogFooter,
+  DialogType,
+  Icon,
+  mergeStyleSets,
+  PrimaryButton,
+  Stack,
+  Text,
+} from '@fluentui/react'
+import type * as React from 'react'
+import { useEffect, useState } from 'react'
+import { type DialogRequest, onDialogRequested } from '../utils/navigationDialogs'
+
+const classNames = mergeStyleSets({
+  errorIcon: {
+    fontSize: '24px',
+    color: '#a4262c',
+  },
+  details: {
+    margin: '8px 0 0',
+    padding: '6px 8px',
+    maxHeight: '160px',
+    overflowY: 'auto',
+    backgroundColor: '#faf9f8',
+    fontFamily: 'monospace',
+    fontSize: '12px',
+    whiteSpace: 'pre-wrap',
+  },
+})
+
+const DialogBody: React.FC<{ request: DialogRequest }> = ({ request }) => {
+  const { kind, strings } = request
+
+  if (kind === 'error') {
+    return (
+      <Stack>
+        <Stack horizontal verticalAlign="center" tokens={{ childrenGap: 12 }}>
+          <Icon iconName="ErrorBadge" className={classNames.errorIcon} />
+          <Text>{strings.message || 'An error has occurred.'}</Text>
+        </Stack>
+        {strings.errorCode !== undefined && (
+          <Text variant="small" block styles={{ root: { marginTop: 8 } }}>
+            Error code: 0x{(strings.errorCode >>> 0).toString(16)}
+          </Text>
+        )}
+        {strings.details && <pre className={classNames.details}>{strings.details}</pre>}
+      </Stack>
+    )
+  }
+
+  return <Text styles={{ root: { whiteSpace: 'pre-wrap' } }}>{strings.text}</Text>
+}
+
+export const NavigationDialog: React.FC = () => {
+  // Dialogs opened while one is showing wait their turn, like on the platform
+  const [requests, setRequests] = useState<DialogRequest[]>([])
+  const request = requests[0]
+
+  useEffect(
+    () => onDialogRequested(newRequest => setRequests(current => [...current, newRequest])),
+    []
+  )
+
+  const close = (confirmed: boolean) => {
+    request?.resolve(confirmed)
+    setRequests(current => current.slice(1))
+  }
+
+  if (!request) {
+    return null
+  }
+
+  const { kind, strings, options } = request
+  const title = kind === 'error' ? 'Error' : kind === 'confirm' ? strings.title || 'Confirm' : ''
+
+  return (
+    <Dialog
+      hidden={false}
+      onDismiss={() => close(false)}
+      minWidth={options?.width || 450}
+      dialogContentProps={{
+        type: kind === 'confirm' ? DialogType.largeHeader : DialogType.normal,
+        title,
+        subText: kind === 'confirm' ? strings.subtitle : undefined,
+      }}
+      modalProps={{ isBlocking: true, styles: { main: { minHeight: options?.height } } }}
+    >
+      <DialogBody request={request} />
+      <DialogFooter>
+        {kind === 'confirm' ? (
+          <>
+            <PrimaryButton text={strings.confirmButtonLabel || 'OK'} onClick={() => close(true)} />
+            <DefaultButton
+              text={strings.cancelButtonLabel || 'Cancel'}
+              onClick={() => close(false)}
+            />
+          </>
+        ) : (
+          <PrimaryButton
+            text={kind === 'alert' ? strings.confirmButtonLabel || 'OK' : 'Close'}
+            onClick={() => close(true)}
+          />
+        )}
+      </DialogFooter>
+    </Dialog>
+  )
+}
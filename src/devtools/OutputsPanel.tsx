@@ -0,0 +1,63 @@
+/**
+ * OutputsPanel - Log of notifyOutputChanged calls and the values getOutputs() returned
+ */
+
+import { DefaultButton, mergeStyleSets, Stack, Text } from '@fluentui/react'
+import type * as React from 'react'
+import type { OutputLogEntry } from '../utils/pcfLifecycle'
+
+const classNames = mergeStyleSets({
+  entry: {
+    padding: '8px 0',
+    borderBottom: '1px solid #edebe9',
+  },
+  meta: {
+    color: '#605e5c',
+  },
+  outputs: {
+    margin: '4px 0 0',
+    padding: '6px 8px',
+    backgroundColor: '#faf9f8',
+    fontFamily: 'monospace',
+    fontSize: '12px',
+    whiteSpace: 'pre-wrap',
+    wordBreak: 'break-all',
+  },
+  empty: {
+    color: '#605e5c',
+    fontStyle: 'italic',
+  },
+})
+
+export interface OutputsPanelProps {
+  entries: OutputLogEntry[]
+  onClear: () => void
+}
+
+export const OutputsPanel: React.FC<OutputsPanelProps> = ({ entries, onClear }) => {
+  if (entries.length === 0) {
+    return <Text className={classNames.empty}>The control has not called notifyOutputChanged</Text>
+  }
+
+  return (
+    <Stack>
+      <Stack horizontal horizontalAlign="space-between" verticalAlign="center">
+        <Text variant="small" className={classNames.meta}>
+          {entries.length} call{entries.length === 1 ? '' : 's'}
+        </Text>
+        <DefaultButton text="Clear" onClick={onClear} />
+      </Stack>
+      {entries.map(entry => (
+        <div key={entry.id} className={classNames.entry}>
+          <Text variant="small" block className={classNames.meta}>
+            {entry.timestamp.toLocaleTimeString()} ·{' '}
+            {entry.updatedProperties.length > 0
+              ? `updateView(${entry.updatedProperties.join(', ')})`
+              : 'no bound values changed'}
+          </Text>
+          <pre className={classNames.outputs}>{JSON.stringify(entry.outputs, null, 2)}</pre>
+        </div>
+      ))}
+    </Stack>
+  )
+}
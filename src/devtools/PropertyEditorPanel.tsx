@@ -0,0 +1,348 @@
+/**
+ * PropertyEditorPanel - Edit manifest property values while the control is running
+ */
+
+import {
+  DatePicker,
+  DefaultButton,
+  Dropdown,
+  type IDropdownOption,
+  List,
+  mergeStyleSets,
+  SearchBox,
+  Stack,
+  Text,
+  TextField,
+  Toggle,
+} from '@fluentui/react'
+import type * as React from 'react'
+import { useCallback, useEffect, useState } from 'react'
+import type { ManifestPropertyInfo } from '../utils/manifestExtractor'
+import { getPropertyType, setMockPropertyValue } from '../utils/propertyMocks'
+import { type RecordInfo, searchRecordsFromTable } from '../utils/viewDiscovery'
+
+const classNames = mergeStyleSets({
+  property: {
+    padding: '8px 0',
+    borderBottom: '1px solid #edebe9',
+  },
+  propertyType: {
+    color: '#605e5c',
+    fontFamily: 'monospace',
+  },
+  lookupResults: {
+    border: '1px solid #d1d1d1',
+    maxHeight: '160px',
+    overflowY: 'auto',
+    backgroundColor: 'white',
+  },
+  lookupItem: {
+    display: 'block',
+    width: '100%',
+    padding: '6px 8px',
+    border: 'none',
+    background: 'transparent',
+    textAlign: 'left',
+    cursor: 'pointer',
+    ':hover': {
+      backgroundColor: '#f3f2f1',
+    },
+  },
+  empty: {
+    color: '#605e5c',
+    fontStyle: 'italic',
+  },
+})
+
+export interface PropertyEditorPanelProps {
+  context: ComponentFramework.Context<any>
+  properties: ManifestPropertyInfo[]
+  onPropertiesChanged: (updatedProperties: string[]) => void
+}
+
+interface PropertyEditorProps {
+  property: ManifestPropertyInfo
+  type: string
+  value: ComponentFramework.PropertyTypes.Property
+  onChange: (value: unknown) => void
+}
+
+function getOptions(value: ComponentFramework.PropertyTypes.Property): IDropdownOption[] {
+  const options = ((
+    value.attributes as { Options?: ComponentFramework.PropertyHelper.OptionMetadata[] }
+  )?.Options || []) as ComponentFramework.PropertyHelper.OptionMetadata[]
+  return options.map(option => ({ key: option.Value, text: option.Label }))
+}
+
+/**
+ * Text and number editor that commits on blur or Enter, like a form field
+ */
+const CommitTextField: React.FC<{
+  value: string
+  multiline?: boolean
+  type?: string
+  onCommit: (value: string) => void
+}> = ({ value, multiline, type, onCommit }) => {
+  const [draft, setDraft] = useState(value)
+
+  useEffect(() => {
+    setDraft(value)
+  }, [value])
+
+  const commit = () => {
+    if (draft !== value) {
+      onCommit(draft)
+    }
+  }
+
+  return (
+    <TextField
+      value={draft}
+      type={type}
+      multiline={multiline}
+      autoAdjustHeight={multiline}
+      onChange={(_, newValue) => setDraft(newValue ?? '')}
+      onBlur={commit}
+      onKeyDown={event => {
+        if (event.key === 'Enter' && !multiline) {
+          commit()
+        }
+      }}
+    />
+  )
+}
+
+/**
+ * Lookup editor that searches the target table through the Dataverse proxy
+ */
+const LookupEditor: React.FC<PropertyEditorProps> = ({ value, onChange }) => {
+  const lookupProperty = value as ComponentFramework.PropertyTypes.LookupProperty
+  const current = lookupProperty.raw?.[0]
+  const [entityName, setEntityName] = useState(lookupProperty.getTargetEntityType?.() || '')
+  const [results, setResults] = useState<RecordInfo[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+
+  const search = useCallback(
+    async (searchTerm: string) => {
+      if (!entityName) {
+        return
+      }
+      setIsSearching(true)
+      setResults(await searchRecordsFromTable(entityName, searchTerm, 20))
+      setIsSearching(false)
+    },
+    [entityName]
+  )
+
+  return (
+    <Stack tokens={{ childrenGap: 4 }}>
+      <TextField
+        placeholder="Target table logical name"
+        value={entityName}
+        onChange={(_, newValue) => setEntityName(newValue ?? '')}
+      />
+      <SearchBox
+        placeholder={isSearching ? 'Searching...' : 'Search records'}
+        onSearch={search}
+        disabled={!entityName}
+      />
+      {results.length > 0 && (
+        <div className={classNames.lookupResults}>
+          <List
+            items={results}
+            onRenderCell={record =>
+              record ? (
+                <button
+                  type="button"
+                  className={classNames.lookupItem}
+                  onClick={() => {
+                    onChange([{ id: record.id, name: record.primaryName, entityType: entityName }])
+                    setResults([])
+                  }}
+                >
+                  {record.displayText}
+                </button>
+              ) : null
+            }
+          />
+        </div>
+      )}
+      <Stack horizontal verticalAlign="center" tokens={{ childrenGap: 8 }}>
+        <Text variant="small">
+          {current ? `${current.name} (${current.entityType})` : 'No value'}
+        </Text>
+        {current && <DefaultButton text="Clear" onClick={() => onChange([])} />}
+      </Stack>
+    </Stack>
+  )
+}
+
+const PropertyEditor: React.FC<PropertyEditorProps> = props => {
+  const { property, type, value, onChange } = props
+  const raw = value.raw
+
+  switch (type) {
+    case 'Whole.None':
+    case 'Decimal':
+    case 'FP':
+    case 'Currency':
+      return (
+        <CommitTextField
+          type="number"
+          value={raw === null || raw === undefined ? '' : String(raw)}
+          onCommit={onChange}
+        />
+      )
+    case 'DateAndTime.DateOnly':
+    case 'DateAndTime.DateAndTime':
+      return (
+        <DatePicker
+          value={raw ?? undefined}
+          onSelectDate={date => onChange(date ?? null)}
+          placeholder="Select a date"
+          allowTextInput
+        />
+      )
+    case 'TwoOptions': {
+      const options = getOptions(value)
+      return (
+        <Toggle
+          checked={Boolean(raw)}
+          onText={options[1]?.text ?? 'Yes'}
+          offText={options[0]?.text ?? 'No'}
+          onChange={(_, checked) => onChange(Boolean(checked))}
+        />
+      )
+    }
+    case 'OptionSet': {
+      const options = getOptions(value)
+      if (options.length === 0) {
+        return (
+          <CommitTextField
+            type="number"
+            value={raw === null ? '' : String(raw)}
+            onCommit={onChange}
+          />
+        )
+      }
+      return (
+        <Dropdown
+          selectedKey={raw ?? null}
+          options={[{ key: '', text: '--Select--' }, ...options]}
+          onChange={(_, option) => onChange(option?.key === '' ? null : option?.key)}
+        />
+      )
+    }
+    case 'MultiSelectOptionSet': {
+      const options = getOptions(value)
+      const selected = (raw as number[] | null) || []
+      if (options.length === 0) {
+        return <CommitTextField value={selected.join(',')} onCommit={onChange} />
+      }
+      return (
+        <Dropdown
+          multiSelect
+          selectedKeys={selected}
+          options={options}
+          onChange={(_, option) => {
+            if (!option) return
+            onChange(
+              option.selected
+                ? [...selected, option.key as number]
+                : selected.filter(key => key !== option.key)
+            )
+          }}
+        />
+      )
+    }
+    case 'Enum':
+      return (
+        <Dropdown
+          selectedKey={raw}
+          options={(property.enumValues || []).map(enumValue => ({
+            key: enumValue.value,
+            text: enumValue.name,
+          }))}
+          onChange={(_, option) => onChange(option?.key)}
+        />
+      )
+    case 'Lookup.Simple':
+      return <LookupEditor {...props} />
+    case 'Object':
+      return (
+        <CommitTextField
+          multiline
+          value={typeof raw === 'string' ? raw : JSON.stringify(raw ?? null)}
+          onCommit={onChange}
+        />
+      )
+    default:
+      return (
+        <CommitTextField
+          multiline={type === 'Multiple' || type === 'SingleLine.TextArea'}
+          value={raw ?? ''}
+          onCommit={onChange}
+        />
+      )
+  }
+}
+
+export const PropertyEditorPanel: React.FC<PropertyEditorPanelProps> = ({
+  context,
+  properties,
+  onPropertiesChanged,
+}) => {
+  const [, setRevision] = useState(0)
+  const editableProperties = properties.filter(property => property.usage !== 'output')
+
+  const handleChange = (property: ManifestPropertyInfo, value: unknown) => {
+    const updated = setMockPropertyValue(context, property, value)
+    console.log(`✏️ Property "${property.name}" changed`, { raw: updated.raw })
+    setRevision(revision => revision + 1)
+    onPropertiesChanged([property.name])
+  }
+
+  if (editableProperties.length === 0) {
+    return <Text className={classNames.empty}>No bound or input properties in the manifest</Text>
+  }
+
+  return (
+    <Stack>
+      {editableProperties.map(property => {
+        const type = getPropertyType(property)
+        const value = (
+          context.parameters as Record<string, ComponentFramework.PropertyTypes.Property>
+        )[property.name]
+
+        return (
+          <div key={property.name} className={classNames.property}>
+            <Stack horizontal horizontalAlign="space-between" verticalAlign="baseline">
+              <Text variant="medium" styles={{ root: { fontWeight: 600 } }}>
+                {property.name}
+                {property.required ? ' *' : ''}
+              </Text>
+              <Text variant="small" className={classNames.propertyType}>
+                {type} · {property.usage}
+              </Text>
+            </Stack>
+            {value ? (
+              <PropertyEditor
+                property={property}
+                type={type}
+                value={value}
+                onChange={newValue => handleChange(property, newValue)}
+              />
+            ) : (
+              <Text className={classNames.empty}>Not present in context.parameters</Text>
+            )}
+            {value?.formatted !== undefined && (
+              <Text variant="small" className={classNames.propertyType}>
+                formatted: {value.formatted || '(empty)'}
+              </Text>
+            )}
+          </div>
+        )
+      })}
+    </Stack>
+  )
+}
@@ -0,0 +1,59 @@
+/**
+ * SelectionCommandBar - Command bar strip above dataset controls showing the record selection
+ */
+
+import { CommandBar, type ICommandBarItemProps } from '@fluentui/react'
+import type * as React from 'react'
+import { useEffect, useState } from 'react'
+import { onSelectionChanged } from '../utils/datasetSelection'
+
+export interface SelectionCommandBarProps {
+  dataset: ComponentFramework.PropertyTypes.DataSet
+  datasetName: string
+}
+
+export const SelectionCommandBar: React.FC<SelectionCommandBarProps> = ({
+  dataset,
+  datasetName,
+}) => {
+  const [selectedRecordIds, setSelectedRecordIds] = useState<string[]>(() =>
+    dataset.getSelectedRecordIds()
+  )
+
+  useEffect(
+    () =>
+      onSelectionChanged((changedDataset, ids) => {
+        if (changedDataset === datasetName) {
+          setSelectedRecordIds(ids)
+        }
+      }),
+    [datasetName]
+  )
+
+  const count = selectedRecordIds.length
+  const items: ICommandBarItemProps[] = [
+    {
+      key: 'selection',
+      text: count === 0 ? 'No records selected' : `${count} selected`,
+      disabled: true,
+    },
+  ]
+  const farItems: ICommandBarItemProps[] = [
+    {
+      key: 'clear',
+      text: 'Clear selection',
+      disabled: count === 0,
+      onClick: () => dataset.clearSelectedRecordIds(),
+    },
+  ]
+
+  return (
+    <div data-id="pcf_selection_commandbar" style={{ flex: '0 0 auto', width: '100%' }}>
+      <CommandBar
+        items={items}
+        farItems={farItems}
+        styles={{ root: { borderBottom: '1px solid #edebe9', padding: '0 8px' } }}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,108 @@
+/**
+ * UserPanel - Switch between the signed-in user and fake personas while the control is running
+ */
+
+import {
+  Dropdown,
+  type IDropdownOption,
+  MessageBar,
+  MessageBarType,
+  mergeStyleSets,
+  Spinner,
+  SpinnerSize,
+  Stack,
+  Text,
+} from '@fluentui/react'
+import type * as React from 'react'
+import { useEffect, useState } from 'react'
+import {
+  getActivePersona,
+  getPersonas,
+  type HarnessUserSettings,
+  onPersonaChanged,
+  SIGNED_IN_PERSONA,
+  switchPersona,
+} from '../utils/userPersonas'
+import { getUserSecurity } from '../utils/userPrivileges'
+
+const classNames = mergeStyleSets({
+  details: {
+    marginTop: '8px',
+    borderTop: '1px solid #edebe9',
+  },
+  detail: {
+    padding: '4px 0',
+  },
+  detailLabel: {
+    color: '#605e5c',
+    fontFamily: 'monospace',
+  },
+})
+
+export interface UserPanelProps {
+  context: ComponentFramework.Context<any>
+}
+
+export const UserPanel: React.FC<UserPanelProps> = ({ context }) => {
+  const [activePersona, setActivePersona] = useState(getActivePersona)
+  const [switching, setSwitching] = useState(false)
+  const [error, setError] = useState<string>()
+
+  useEffect(() => onPersonaChanged(setActivePersona), [])
+
+  const switchTo = async (name: string) => {
+    setSwitching(true)
+    setError(undefined)
+    try {
+      await switchPersona(context, name)
+    } catch (switchError) {
+      setError(switchError instanceof Error ? switchError.message : String(switchError))
+    }
+    setSwitching(false)
+  }
+
+  const options: IDropdownOption[] = [
+    { key: SIGNED_IN_PERSONA, text: `${SIGNED_IN_PERSONA} (from Dataverse)` },
+    ...getPersonas().map(persona => ({ key: persona.name, text: persona.name })),
+  ]
+  const userSettings = context.userSettings as HarnessUserSettings
+  const security = getUserSecurity()
+  const details: [string, string][] = [
+    ['displayName', userSettings.displayName],
+    ['userName', userSettings.userName],
+    ['userId', userSettings.userId],
+    ['languageId', String(userSettings.languageId)],
+    ['getTimeZoneOffsetMinutes()', String(userSettings.getTimeZoneOffsetMinutes())],
+    ['security roles', security?.roleNames.join(', ') || 'none'],
+    ['privileges', String(security?.privileges.size ?? 0)],
+  ]
+
+  return (
+    <Stack tokens={{ childrenGap: 8 }}>
+      <Stack horizontal verticalAlign="end" tokens={{ childrenGap: 8 }}>
+        <Stack.Item grow>
+          <Dropdown
+            label="Persona"
+            placeholder="Default mock user"
+            options={options}
+            selectedKey={activePersona}
+            disabled={switching}
+            onChange={(_, option) => option && switchTo(String(option.key))}
+          />
+        </Stack.Item>
+        {switching && <Spinner size={SpinnerSize.small} />}
+      </Stack>
+      {error && <MessageBar messageBarType={MessageBarType.error}>{error}</MessageBar>}
+      <div className={classNames.details}>
+        {details.map(([label, value]) => (
+          <div key={label} className={classNames.detail}>
+            <Text variant="small" block className={classNames.detailLabel}>
+              {label}
+            </Text>
+            <Text>{value}</Text>
+          </div>
+        ))}
+      </div>
+    </Stack>
+  )
+}
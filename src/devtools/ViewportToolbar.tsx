@@ -0,0 +1,142 @@
+/**
+ * ViewportToolbar - Strip above the control to size its container and switch form factor, client and network state
+ * Also shows when the control is disabled or the form is read-only
+ */
+
+import { CommandBar, type ICommandBarItemProps } from '@fluentui/react'
+import type * as React from 'react'
+import { useEffect, useState } from 'react'
+import {
+  CLIENT_NAMES,
+  FORM_FACTOR_VIEWPORTS,
+  FORM_FACTORS,
+  getClientEnvironment,
+  onClientEnvironmentChanged,
+  setClientEnvironment,
+} from '../utils/clientEnvironment'
+import {
+  isContainerResizeTracked,
+  onContainerResize,
+  VIEWPORT_PRESETS,
+  type ViewportPreset,
+} from '../utils/containerResize'
+import { getControlAccess, onControlAccessChanged } from '../utils/controlAccess'
+
+export interface ViewportToolbarProps {
+  context: ComponentFramework.Context<any>
+  viewport: ViewportPreset
+  onViewportChanged: (viewport: ViewportPreset) => void
+}
+
+export const ViewportToolbar: React.FC<ViewportToolbarProps> = ({
+  context,
+  viewport,
+  onViewportChanged,
+}) => {
+  const [mode, setMode] = useState(() => ({ ...context.mode }))
+  const [environment, setEnvironment] = useState(() => getClientEnvironment(context))
+
+  useEffect(() => onContainerResize(changedMode => setMode({ ...changedMode })), [])
+  useEffect(() => onClientEnvironmentChanged(setEnvironment), [])
+  const [access, setAccess] = useState(() => getControlAccess(context))
+  useEffect(() => onControlAccessChanged(() => setAccess(getControlAccess(context))), [context])
+
+  const items: ICommandBarItemProps[] = [
+    {
+      key: 'viewport',
+      text: VIEWPORT_PRESETS[viewport].label,
+      iconProps: { iconName: 'ResponsiveMode' },
+      subMenuProps: {
+        items: (Object.keys(VIEWPORT_PRESETS) as ViewportPreset[]).map(preset => {
+          const { label, width, height } = VIEWPORT_PRESETS[preset]
+          return {
+            key: preset,
+            text: label,
+            secondaryText: width && height ? `${width} × ${height}` : undefined,
+            canCheck: true,
+            checked: viewport === preset,
+            onClick: () => onViewportChanged(preset),
+          }
+        }),
+      },
+    },
+    {
+      key: 'formFactor',
+      text: FORM_FACTORS.find(formFactor => formFactor.value === environment.formFactor)?.label,
+      iconProps: { iconName: 'Devices3' },
+      subMenuProps: {
+        items: FORM_FACTORS.map(formFactor => ({
+          key: String(formFactor.value),
+          text: formFactor.label,
+          secondaryText: `getFormFactor() ${formFactor.value}`,
+          canCheck: true,
+          checked: environment.formFactor === formFactor.value,
+          onClick: () => {
+            setClientEnvironment(context, { formFactor: formFactor.value })
+            onViewportChanged(FORM_FACTOR_VIEWPORTS[formFactor.value])
+          },
+        })),
+      },
+    },
+    {
+      key: 'client',
+      text: environment.client,
+      iconProps: { iconName: 'Globe' },
+      subMenuProps: {
+        items: CLIENT_NAMES.map(client => ({
+          key: client,
+          text: client,
+          canCheck: true,
+          checked: environment.client === client,
+          onClick: () => setClientEnvironment(context, { client }),
+        })),
+      },
+    },
+    {
+      key: 'offline',
+      text: 'Offline',
+      iconProps: { iconName: 'CloudOffline' },
+      canCheck: true,
+      checked: environment.isOffline,
+      onClick: () => setClientEnvironment(context, { isOffline: !environment.isOffline }),
+    },
+    {
+      key: 'network',
+      text: environment.isNetworkAvailable ? 'Network available' : 'No network',
+      iconProps: { iconName: environment.isNetworkAvailable ? 'NetworkTower' : 'WifiWarning4' },
+      canCheck: true,
+      checked: !environment.isNetworkAvailable,
+      onClick: () =>
+        setClientEnvironment(context, { isNetworkAvailable: !environment.isNetworkAvailable }),
+    },
+  ]
+  const farItems: ICommandBarItemProps[] = [
+    ...(access.formReadOnly || access.controlDisabled
+      ? [
+          {
+            key: 'access',
+            text: access.formReadOnly ? 'Form read-only' : 'Control disabled',
+            iconProps: { iconName: 'Lock' },
+            disabled: true,
+          },
+        ]
+      : []),
+    {
+      key: 'allocated',
+      text: isContainerResizeTracked(context)
+        ? `allocated ${mode.allocatedWidth} × ${mode.allocatedHeight}`
+        : 'trackContainerResize not called',
+      disabled: true,
+    },
+  ]
+
+  return (
+    <div data-id="pcf_viewport_toolbar" style={{ flex: '0 0 auto', width: '100%' }}>
+      <CommandBar
+        items={items}
+        farItems={farItems}
+        styles={{ root: { borderBottom: '1px solid #edebe9', padding: '0 8px' } }}
+      />
+    </div>
+  )
+}
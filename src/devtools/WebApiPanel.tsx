@@ -0,0 +1,203 @@
+/**
+ * WebApiPanel - Inspect the context.webAPI calls the control made, filter them and replay the requests
+ */
+
+import {
+  ActionButton,
+  DefaultButton,
+  mergeStyleSets,
+  SearchBox,
+  Stack,
+  Text,
+  Toggle,
+} from '@fluentui/react'
+import type * as React from 'react'
+import { useEffect, useState } from 'react'
+import {
+  clearWebApiCalls,
+  getWebApiCalls,
+  onWebApiCallsChanged,
+  toCurlCommand,
+  toFetchStatement,
+  type WebApiCall,
+} from '../utils/webApiLog'
+
+const classNames = mergeStyleSets({
+  entry: {
+    padding: '8px 0',
+    borderBottom: '1px solid #edebe9',
+  },
+  summary: {
+    cursor: 'pointer',
+    width: '100%',
+    padding: 0,
+    border: 'none',
+    background: 'none',
+    textAlign: 'left',
+  },
+  meta: {
+    color: '#605e5c',
+  },
+  failed: {
+    color: '#a4262c',
+  },
+  label: {
+    display: 'block',
+    marginTop: '8px',
+    color: '#605e5c',
+  },
+  details: {
+    margin: '4px 0 0',
+    padding: '6px 8px',
+    maxHeight: '240px',
+    overflow: 'auto',
+    backgroundColor: '#faf9f8',
+    fontFamily: 'monospace',
+    fontSize: '12px',
+    whiteSpace: 'pre-wrap',
+    wordBreak: 'break-all',
+  },
+  empty: {
+    color: '#605e5c',
+    fontStyle: 'italic',
+  },
+})
+
+function isFailed(call: WebApiCall): boolean {
+  return call.error !== undefined || (call.status !== undefined && call.status >= 400)
+}
+
+function matchesSearch(call: WebApiCall, search: string): boolean {
+  const text = [
+    call.method,
+    call.operationName,
+    call.entity,
+    call.recordId,
+    call.url,
+    call.status,
+    call.fetchXml,
+  ]
+    .join(' ')
+    .toLowerCase()
+  return search
+    .toLowerCase()
+    .split(/\s+/)
+    .every(term => text.includes(term))
+}
+
+function copyText(text: string): void {
+  navigator.clipboard.writeText(text).catch(error => {
+    console.error('Failed to copy to clipboard:', error)
+  })
+}
+
+const Detail: React.FC<{ label: string; value: unknown }> = ({ label, value }) =>
+  value === undefined || value === '' ? null : (
+    <>
+      <Text variant="small" className={classNames.label}>
+        {label}
+      </Text>
+      <pre className={classNames.details}>
+        {typeof value === 'string' ? value : JSON.stringify(value, null, 2)}
+      </pre>
+    </>
+  )
+
+const WebApiCallEntry: React.FC<{ call: WebApiCall }> = ({ call }) => {
+  const [expanded, setExpanded] = useState(false)
+  const dataverseUrl = String(import.meta.env.VITE_DATAVERSE_URL || window.location.origin)
+  const status = call.pending ? 'pending' : call.error && !call.status ? 'failed' : call.status
+
+  return (
+    <div className={classNames.entry}>
+      <button type="button" className={classNames.summary} onClick={() => setExpanded(!expanded)}>
+        <Text variant="small" block className={classNames.meta}>
+          {call.timestamp.toLocaleTimeString()} · <strong>{call.method}</strong>{' '}
+          {call.operationName && `${call.operationName} `}
+          {call.entity}
+        </Text>
+        <Text variant="small" block className={isFailed(call) ? classNames.failed : undefined}>
+          {status}
+          {call.durationMs !== undefined && ` · ${call.durationMs} ms`}
+          {call.recordCount !== undefined &&
+            ` · ${call.recordCount} record${call.recordCount === 1 ? '' : 's'}`}
+          {call.error && ` · ${call.error}`}
+        </Text>
+      </button>
+      {expanded && (
+        <>
+          <Stack horizontal wrap>
+            <ActionButton
+              iconProps={{ iconName: 'Copy' }}
+              text="Copy as curl"
+              disabled={!call.url}
+              onClick={() => copyText(toCurlCommand(call, dataverseUrl))}
+            />
+            <ActionButton
+              iconProps={{ iconName: 'Code' }}
+              text="Copy as fetch"
+              disabled={!call.url}
+              onClick={() => copyText(toFetchStatement(call))}
+            />
+            <ActionButton
+              iconProps={{ iconName: 'OpenInNewWindow' }}
+              text="Open in browser"
+              disabled={!call.url || call.httpMethod !== 'GET'}
+              onClick={() => window.open(call.url, '_blank', 'noopener')}
+            />
+          </Stack>
+          <Detail label="Request" value={call.url && `${call.httpMethod} ${call.url}`} />
+          <Detail label="Name lookup" value={call.nameLookupUrl && `GET ${call.nameLookupUrl}`} />
+          <Detail label="Options" value={call.options} />
+          <Detail label="FetchXML" value={call.fetchXml} />
+          <Detail label="Data" value={call.data} />
+          <Detail label="Response" value={call.response} />
+          <Detail label="Called from" value={call.callStack?.join('\n')} />
+        </>
+      )}
+    </div>
+  )
+}
+
+export const WebApiPanel: React.FC = () => {
+  const [calls, setCalls] = useState(getWebApiCalls)
+  const [search, setSearch] = useState('')
+  const [failedOnly, setFailedOnly] = useState(false)
+
+  useEffect(() => onWebApiCallsChanged(setCalls), [])
+
+  const visibleCalls = calls.filter(
+    call => (!failedOnly || isFailed(call)) && matchesSearch(call, search)
+  )
+
+  return (
+    <Stack tokens={{ childrenGap: 4 }}>
+      <SearchBox
+        placeholder="Filter by entity, method, URL or status"
+        value={search}
+        onChange={(_, value) => setSearch(value ?? '')}
+      />
+      <Toggle
+        label="Failed calls only"
+        inlineLabel
+        checked={failedOnly}
+        onChange={(_, checked) => setFailedOnly(!!checked)}
+      />
+      {calls.length === 0 ? (
+        <Text className={classNames.empty}>No webAPI calls yet</Text>
+      ) : (
+        <>
+          <Stack horizontal horizontalAlign="space-between" verticalAlign="center">
+            <Text variant="small" className={classNames.meta}>
+              {visibleCalls.length} of {calls.length} call{calls.length === 1 ? '' : 's'}
+            </Text>
+            <DefaultButton text="Clear" onClick={clearWebApiCalls} />
+          </Stack>
+          {visibleCalls.map(call => (
+            <WebApiCallEntry key={call.id} call={call} />
+          ))}
+        </>
+      )}
+    </Stack>
+  )
+}
@@ -0,0 +1,29 @@
+/**
+ * PCF DevTools - Export all devtools panel components
+ */
+
+export type { AccessPanelProps } from './AccessPanel'
+export { AccessPanel } from './AccessPanel'
+export type { ControlEventsPanelProps } from './ControlEventsPanel'
+export { ControlEventsPanel } from './ControlEventsPanel'
+export { DevicePanel } from './DevicePanel'
+export type { DevToolsPanelProps } from './DevToolsPanel'
+export { DevToolsPanel } from './DevToolsPanel'
+export { EventLogPanel } from './EventLogPanel'
+export { FaultsPanel } from './FaultsPanel'
+export { FormPreviewDialog } from './FormPreviewDialog'
+export type { LocalePanelProps } from './LocalePanel'
+export { LocalePanel } from './LocalePanel'
+export { LookupDialog } from './LookupDialog'
+export { NavigationDialog } from './NavigationDialog'
+export type { OutputsPanelProps } from './OutputsPanel'
+export { OutputsPanel } from './OutputsPanel'
+export type { PropertyEditorPanelProps } from './PropertyEditorPanel'
+export { PropertyEditorPanel } from './PropertyEditorPanel'
+export type { SelectionCommandBarProps } from './SelectionCommandBar'
+export { SelectionCommandBar } from './SelectionCommandBar'
+export type { UserPanelProps } from './UserPanel'
+export { UserPanel } from './UserPanel'
+export type { ViewportToolbarProps } from './ViewportToolbar'
+export { ViewportToolbar } from './ViewportToolbar'
+export { WebApiPanel } from './WebApiPanel'
@@ -7,9 +7,18 @@
 
 export { createMockContext } from './createMockContext.js'
 export { createPCFViteConfig } from './createViteConfig.js'
+export {
+  createOfflineDataversePlugin,
+  type OfflineDataverseOptions,
+} from './offlineDataverse.js'
+export {
+  type CassetteMode,
+  createDataverseCassettePlugin,
+  type DataverseCassetteOptions,
+} from './dataverseCassette.js'
 // DevTools Integration (minimal exports)
 // PCF Lifecycle utilities
-export { createPCFManager, updatePCFView, destroyPCF, isPCFInitialized, type PCFInstanceManager } from './utils/pcfLifecycle'
+export { createPCFManager, updatePCFView, destroyPCF, isPCFInitialized, handleOutputChanged, swapPCFClass, type PCFInstanceManager, type OutputLogEntry } from './utils/pcfLifecycle'
 // Environment validation utilities
 export { checkRequiredEnvVars, redirectToSetupIfNeeded } from './utils/envValidation'
 export { initializePCFHarness, initPCF } from './initializePCFHarness.js'
@@ -17,6 +26,8 @@ export { initializePCFHarness, initPCF } from './initializePCFHarness.js'
 export { PowerAppsContainer } from './PowerAppsContainer.js'
 // Setup wizard
 export * from './setup/index.js'
+// DevTools panel
+export * from './devtools/index.js'
 // View and record utilities
 export * from './utils/index.js'
 
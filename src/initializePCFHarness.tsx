@@ -3,7 +3,19 @@ import { createRoot } from 'react-dom/client'
 import { ThemeProvider, initializeIcons } from '@fluentui/react'
 import { createMockContext } from './createMockContext'
 import { PowerAppsContainer } from './PowerAppsContainer'
+import type { ClientEnvironment } from './utils/clientEnvironment'
+import type { ControlAccessState, PropertySecurity } from './utils/controlAccess'
+import type { DeviceFixtures } from './utils/deviceMocks'
+import type { FormScript } from './utils/controlEvents'
+import type {
+  ManifestEventInfo,
+  ManifestPropertyInfo,
+  ManifestResourceInfo,
+} from './utils/manifestExtractor'
 import { detectManifestInfo } from './utils/manifestReader'
+import type { PropertyAttributes } from './utils/propertyMocks'
+import type { ResourceFiles } from './utils/resourceMocks'
+import type { UserPersona } from './utils/userPersonas'
 import { SetupWizard } from './setup'
 import type { SetupWizardData } from './setup/types'
 import { isAutoRefreshEnabled, getAutoRefreshDelay, shouldShowDevTools } from './utils/envConfigGenerator'
@@ -44,10 +56,34 @@ export interface PCFHarnessOptions<TInputs, TOutputs> {
     displayName?: string
     userName?: string
     userId?: string
+    /** LCID for userSettings and context.formatting (defaults to VITE_PCF_LANGUAGE_ID or 1033) */
+    languageId?: number
+    /** User time zone offset from UTC in minutes */
+    timeZoneOffsetMinutes?: number
+    /** Start form factor, client and network state */
+    clientEnvironment?: Partial<ClientEnvironment>
+    /** Fixture image, barcode and position for the context.device capture APIs */
+    deviceFixtures?: DeviceFixtures
     datasetOptions?: Partial<ComponentFramework.PropertyTypes.DataSet>
     entityType?: string
     mockScenario?: 'account' | 'contact' | 'initiative' | 'custom'
+    /** Start values for manifest properties, keyed by property name */
+    propertyValues?: Record<string, unknown>
+    /** Attribute metadata overrides for manifest properties, e.g. option set Options */
+    propertyAttributes?: Record<string, PropertyAttributes>
+    /** Field security for manifest properties, e.g. { secured: true, readable: false } */
+    propertySecurity?: Record<string, Partial<PropertySecurity>>
+    /** Start with the control disabled or the form read-only */
+    controlAccess?: Partial<ControlAccessState>
+    /** Form script OnLoad handler that subscribes to the control's manifest events */
+    formScript?: FormScript
+    /** Named fake users, e.g. { name: 'Sales rep', languageId: 1044, roles: ['Salesperson'] } */
+    personas?: UserPersona[]
+    /** Persona to start as, 'Signed-in user' loads the real user */
+    persona?: string
   }
+  /** resx, image and css files declared in the manifest, loaded by Vite */
+  resourceFiles?: ResourceFiles
   /** Additional CSS class for the container */
   className?: string
   /** Custom context instead of mock */
@@ -64,6 +100,11 @@ export interface PCFHarnessOptions<TInputs, TOutputs> {
       name: string
       displayNameKey?: string
     }>
+    properties?: ManifestPropertyInfo[]
+    /** 'virtual' for ReactControl components */
+    controlType?: 'standard' | 'virtual'
+    resources?: ManifestResourceInfo[]
+    events?: ManifestEventInfo[]
   }
 }
 
@@ -80,8 +121,15 @@ export interface PCFHarnessResult<TInputs> {
       name: string
       displayNameKey?: string
     }>
+    properties?: ManifestPropertyInfo[]
+    /** 'virtual' for ReactControl components */
+    controlType?: 'standard' | 'virtual'
+    resources?: ManifestResourceInfo[]
+    events?: ManifestEventInfo[]
   }
   container: HTMLElement
+  /** Swap in a new component class (HMR), keeping context, records and control state */
+  updatePCFClass: (pcfClass: new () => ComponentFramework.StandardControl<TInputs, any>) => void
 }
 
 /**
@@ -94,6 +142,7 @@ export function initializePCFHarness<TInputs, TOutputs>(
     pcfClass,
     containerId = 'pcf-container',
     contextOptions,
+    resourceFiles,
     className,
     customContext,
     manifestInfo,
@@ -194,23 +243,36 @@ export function initializePCFHarness<TInputs, TOutputs>(
         componentType: 'dataset', // Setup is only for dataset components
       },
       container: targetContainer,
+      updatePCFClass: () => {
+        // The setup wizard renders no component to swap
+      },
     }
   } else {
     // Render main PCF development interface
+    // Fluent UI icons are used by the devtools panel
+    if (shouldShowDevTools()) {
+      initializeIcons()
+    }
+
     const context = customContext || createMockContext<TInputs>({
       ...contextOptions,
+      resourceFiles,
       manifestInfo: finalManifestInfoWithType,
     })
 
-    root.render(
-      React.createElement(PCFHarnessWrapper, {
-        context,
-        pcfClass,
-        className,
-        manifestInfo: finalManifestInfoWithType,
-        componentType,
-      })
-    )
+    const render = (currentClass: new () => ComponentFramework.StandardControl<TInputs, any>) => {
+      root.render(
+        React.createElement(PCFHarnessWrapper, {
+          context,
+          pcfClass: currentClass,
+          className,
+          manifestInfo: finalManifestInfoWithType,
+          componentType,
+        })
+      )
+    }
+
+    render(pcfClass)
 
     console.log(`PCF harness initialized with ${pcfClass.name} component`)
     console.log(`Using manifest:`, finalManifestInfoWithType)
@@ -220,6 +282,10 @@ export function initializePCFHarness<TInputs, TOutputs>(
       context,
       manifestInfo: finalManifestInfoWithType,
       container: targetContainer,
+      updatePCFClass: newClass => {
+        console.log(`♻️ Hot-swapping ${newClass.name} component`)
+        render(newClass)
+      },
     }
   }
 }
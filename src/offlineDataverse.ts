@@ -0,0 +1,631 @@
+/**
+ * Offline Dataverse
+ * Vite middleware that answers /api/data/v9.x/* from JSON fixtures, so the harness runs without an org
+ */
+
+import type { Plugin } from 'vite'
+import { type FetchXmlResult, runFetchXml } from './utils/fetchXmlQuery'
+import {
+  compareValues,
+  getAttributeValue,
+  type NavigationResolver,
+  ODataQueryError,
+  type ODataRecord,
+  parseQueryOptions,
+  queryRecord,
+  queryRecords,
+  splitTopLevel,
+} from './utils/odataQuery'
+
+export interface OfflineDataverseOptions {
+  /** Directory with one <EntitySetName>.json per collection and <FunctionName>.json per function */
+  fixturesDir: string
+}
+
+interface OfflineResponse {
+  status: number
+  body?: unknown
+  headers?: Record<string, string>
+}
+
+interface OfflineRequest {
+  method: string
+  url: URL
+  body?: ODataRecord
+  /** Prefer: return=representation */
+  returnRepresentation: boolean
+  /** Prefer: odata.maxpagesize */
+  maxPageSize?: number
+}
+
+interface PathSegment {
+  name: string
+  key?: string
+}
+
+/** Fixtures of system tables do not need EntityDefinitions entries */
+const SYSTEM_TABLES: Record<string, { logicalName: string; primaryId: string }> = {
+  EntityDefinitions: { logicalName: 'entity', primaryId: 'MetadataId' },
+  RelationshipDefinitions: { logicalName: 'relationship', primaryId: 'MetadataId' },
+  savedqueries: { logicalName: 'savedquery', primaryId: 'savedqueryid' },
+  userqueries: { logicalName: 'userquery', primaryId: 'userqueryid' },
+  systemforms: { logicalName: 'systemform', primaryId: 'formid' },
+  systemusers: { logicalName: 'systemuser', primaryId: 'systemuserid' },
+  roles: { logicalName: 'role', primaryId: 'roleid' },
+  usersettingscollection: { logicalName: 'usersettings', primaryId: 'systemuserid' },
+}
+
+const OFFLINE_USER_ID = '00000000-0000-0000-0000-000000000001'
+
+/** Functions that answer without a fixture */
+const DEFAULT_FUNCTIONS: Record<string, unknown> = {
+  WhoAmI: {
+    UserId: OFFLINE_USER_ID,
+    BusinessUnitId: '00000000-0000-0000-0000-000000000002',
+    OrganizationId: '00000000-0000-0000-0000-000000000003',
+  },
+}
+
+const API_PATH = /^\/api\/data\/(v9\.\d)\/(.*)$/
+const CAST_PREFIX = 'Microsoft.Dynamics.CRM.'
+
+function errorResponse(status: number, message: string, code?: string): OfflineResponse {
+  return { status, body: { error: { code: code ?? '', message } } }
+}
+
+function normalizeId(id: unknown): string {
+  return String(id ?? '')
+    .replace(/^'|'$/g, '')
+    .replace(/[{}]/g, '')
+    .toLowerCase()
+}
+
+function parseSegment(segment: string): PathSegment {
+  const open = segment.indexOf('(')
+  if (open === -1 || !segment.endsWith(')')) {
+    return { name: segment }
+  }
+  return { name: segment.slice(0, open), key: segment.slice(open + 1, -1) }
+}
+
+function parseLiteral(value: string): unknown {
+  if (value.startsWith("'")) {
+    return value.slice(1, -1).replace(/''/g, "'")
+  }
+  if (value === 'true' || value === 'false') {
+    return value === 'true'
+  }
+  return /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : value
+}
+
+/**
+ * Match a key like LogicalName='account' or name='x',code=1 against a record
+ */
+function matchesAlternateKey(record: ODataRecord, key: string): boolean {
+  return splitTopLevel(key, ',').every(pair => {
+    const index = pair.indexOf('=')
+    const value = parseLiteral(pair.slice(index + 1).trim())
+    return compareValues(getAttributeValue(record, pair.slice(0, index).trim()), value) === 0
+  })
+}
+
+/**
+ * Attribute metadata and relationship casts, e.g. Attributes/Microsoft.Dynamics.CRM.PicklistAttributeMetadata
+ */
+function matchesCast(item: ODataRecord, cast: string): boolean {
+  if (item['@odata.type']) {
+    return item['@odata.type'] === `#${CAST_PREFIX}${cast}`
+  }
+  if (item.AttributeTypeName?.Value === 'MultiSelectPicklistType') {
+    return cast === 'MultiSelectPicklistAttributeMetadata'
+  }
+  if (item.AttributeType) {
+    return `${item.AttributeType}AttributeMetadata` === cast
+  }
+  if (item.RelationshipType) {
+    return `${item.RelationshipType}Metadata` === cast
+  }
+  return true
+}
+
+/**
+ * In-memory copy of the fixtures, writes change it until the fixtures are reloaded
+ */
+class FixtureStore {
+  readonly collections = new Map<string, ODataRecord[]>()
+  readonly functions = new Map<string, unknown>()
+  private readonly recordSets = new WeakMap<ODataRecord, string>()
+
+  load(files: Array<{ name: string; content: unknown }>): void {
+    this.collections.clear()
+    this.functions.clear()
+    for (const { name, content } of files) {
+      const records = Array.isArray(content) ? content : (content as ODataRecord)?.value
+      if (Array.isArray(records)) {
+        this.collections.set(name, records)
+        for (const record of records) {
+          this.recordSets.set(record, name)
+        }
+      } else {
+        this.functions.set(name, content)
+      }
+    }
+  }
+
+  private get entityDefinitions(): ODataRecord[] {
+    return this.collections.get('EntityDefinitions') || []
+  }
+
+  getEntityBySet(entitySet: string): ODataRecord | undefined {
+    return this.entityDefinitions.find(
+      entity => entity.EntitySetName === entitySet || entity.LogicalCollectionName === entitySet
+    )
+  }
+
+  getEntitySetName(logicalName: string): string {
+    const entity = this.entityDefinitions.find(candidate => candidate.LogicalName === logicalName)
+    if (entity) {
+      return entity.EntitySetName || entity.LogicalCollectionName
+    }
+    const system = Object.entries(SYSTEM_TABLES).find(
+      ([, table]) => table.logicalName === logicalName
+    )
+    if (system) {
+      return system[0]
+    }
+    if (logicalName.endsWith('y')) {
+      return `${logicalName.slice(0, -1)}ies`
+    }
+    return logicalName.endsWith('s') ? `${logicalName}es` : `${logicalName}s`
+  }
+
+  getLogicalName(entitySet: string): string {
+    return (
+      this.getEntityBySet(entitySet)?.LogicalName ||
+      SYSTEM_TABLES[entitySet]?.logicalName ||
+      entitySet.replace(/ies$/, 'y').replace(/s$/, '')
+    )
+  }
+
+  getPrimaryIdAttribute(entitySet: string): string {
+    return (
+      this.getEntityBySet(entitySet)?.PrimaryIdAttribute ||
+      SYSTEM_TABLES[entitySet]?.primaryId ||
+      `${this.getLogicalName(entitySet)}id`
+    )
+  }
+
+  getRecords(entitySet: string): ODataRecord[] {
+    return this.collections.get(entitySet) || []
+  }
+
+  findRecord(entitySet: string, key: string): ODataRecord | undefined {
+    const records = this.getRecords(entitySet)
+    if (key.includes('=')) {
+      // Alternate key, e.g. EntityDefinitions(LogicalName='account')
+      return records.find(record => matchesAlternateKey(record, key))
+    }
+    const primaryId = this.getPrimaryIdAttribute(entitySet)
+    return records.find(record => normalizeId(record[primaryId]) === normalizeId(key))
+  }
+
+  addRecord(entitySet: string, record: ODataRecord): void {
+    const records = this.collections.get(entitySet) || []
+    records.push(record)
+    this.collections.set(entitySet, records)
+    this.recordSets.set(record, entitySet)
+  }
+
+  removeRecord(entitySet: string, record: ODataRecord): void {
+    const records = this.getRecords(entitySet)
+    records.splice(records.indexOf(record), 1)
+  }
+
+  /**
+   * Navigation properties: embedded in the fixture, or resolved through the relationship metadata
+   */
+  resolveNavigation: NavigationResolver = (record, navigationProperty) => {
+    if (navigationProperty in record) {
+      return record[navigationProperty]
+    }
+    const entitySet = this.recordSets.get(record)
+    const entity = entitySet ? this.getEntityBySet(entitySet) : undefined
+
+    const manyToOne = (entity?.ManyToOneRelationships || []).find(
+      (relationship: ODataRecord) =>
+        relationship.ReferencingEntityNavigationPropertyName === navigationProperty
+    )
+    if (manyToOne) {
+      const id = record[`_${manyToOne.ReferencingAttribute}_value`]
+      const targetSet = this.getEntitySetName(manyToOne.ReferencedEntity)
+      return id ? (this.findRecord(targetSet, id) ?? null) : null
+    }
+
+    const oneToMany = (entity?.OneToManyRelationships || []).find(
+      (relationship: ODataRecord) =>
+        relationship.ReferencedEntityNavigationPropertyName === navigationProperty
+    )
+    if (oneToMany && entitySet) {
+      const id = normalizeId(record[this.getPrimaryIdAttribute(entitySet)])
+      return this.getRecords(this.getEntitySetName(oneToMany.ReferencingEntity)).filter(
+        related => normalizeId(related[`_${oneToMany.ReferencingAttribute}_value`]) === id
+      )
+    }
+
+    // Lookups whose navigation property has the column name, e.g. primarycontactid
+    const lookupId = record[`_${navigationProperty}_value`]
+    const lookupEntity =
+      record[`_${navigationProperty}_value@Microsoft.Dynamics.CRM.lookuplogicalname`]
+    if (lookupId && lookupEntity) {
+      return this.findRecord(this.getEntitySetName(lookupEntity), lookupId) ?? null
+    }
+    return lookupId === undefined ? undefined : null
+  }
+
+  /**
+   * Turn "nav@odata.bind": "/accounts(id)" into the _column_value lookup columns
+   */
+  bindLookups(entitySet: string, data: ODataRecord): ODataRecord {
+    const entity = this.getEntityBySet(entitySet)
+    const result: ODataRecord = {}
+    for (const [key, value] of Object.entries(data)) {
+      const bind = /^(.+)@odata\.bind$/.exec(key)
+      if (!bind) {
+        result[key] = value
+        continue
+      }
+      const navigationProperty = bind[1] as string
+      const relationship = (entity?.ManyToOneRelationships || []).find(
+        (candidate: ODataRecord) =>
+          candidate.ReferencingEntityNavigationPropertyName === navigationProperty
+      )
+      const column = relationship?.ReferencingAttribute || navigationProperty
+      const target = value === null ? null : /([^/(]+)\(([^)]+)\)$/.exec(String(value))
+      result[`_${column}_value`] = target ? normalizeId(target[2]) : null
+      if (target) {
+        result[`_${column}_value@Microsoft.Dynamics.CRM.lookuplogicalname`] = this.getLogicalName(
+          target[1] as string
+        )
+      }
+    }
+    return result
+  }
+}
+
+function runViewQuery(
+  store: FixtureStore,
+  entitySet: string,
+  params: URLSearchParams
+): FetchXmlResult | null {
+  const viewId = params.get('savedQuery') || params.get('userQuery')
+  let fetchXml = params.get('fetchXml')
+  if (viewId) {
+    const viewSet = params.has('savedQuery') ? 'savedqueries' : 'userqueries'
+    fetchXml = store.findRecord(viewSet, viewId)?.fetchxml
+    if (!fetchXml) {
+      throw new ODataQueryError(`No ${viewSet} fixture with id ${viewId}`)
+    }
+  }
+  if (!fetchXml) {
+    return null
+  }
+  return runFetchXml(fetchXml, {
+    getRecords: logicalName =>
+      logicalName === store.getLogicalName(entitySet)
+        ? store.getRecords(entitySet)
+        : store.getRecords(store.getEntitySetName(logicalName)),
+    getPrimaryIdAttribute: logicalName =>
+      store.getPrimaryIdAttribute(store.getEntitySetName(logicalName)),
+  })
+}
+
+function queryCollection(
+  store: FixtureStore,
+  entitySet: string,
+  records: ODataRecord[],
+  url: URL,
+  context: string,
+  maxPageSize?: number
+): OfflineResponse {
+  const viewResult = runViewQuery(store, entitySet, url.searchParams)
+  if (viewResult) {
+    const body: ODataRecord = { '@odata.context': context, value: viewResult.records }
+    if (viewResult.pageSize !== undefined) {
+      body['@Microsoft.Dynamics.CRM.totalrecordcount'] = viewResult.totalCount
+      body['@Microsoft.Dynamics.CRM.morerecords'] =
+        viewResult.page * viewResult.pageSize < viewResult.totalCount
+    }
+    return { status: 200, body }
+  }
+
+  const options = parseQueryOptions(url.search.slice(1))
+  const value = queryRecords(records, { ...options, top: undefined }, store.resolveNavigation, [
+    store.getPrimaryIdAttribute(entitySet),
+  ])
+  const body: ODataRecord = { '@odata.context': context }
+  if (options.count) {
+    body['@odata.count'] = value.length
+  }
+  const limited = options.top === undefined ? value : value.slice(0, options.top)
+  if (!maxPageSize) {
+    body.value = limited
+    return { status: 200, body }
+  }
+
+  // Pages continue through a nextLink whose $skiptoken is the offset of the next page
+  const skip = Number(url.searchParams.get('$skiptoken')) || 0
+  body.value = limited.slice(skip, skip + maxPageSize)
+  if (skip + maxPageSize < limited.length) {
+    const query = url.search
+      .slice(1)
+      .split('&')
+      .filter(part => part && !/^(\$|%24)skiptoken=/i.test(part))
+    query.push(`$skiptoken=${skip + maxPageSize}`)
+    body['@odata.nextLink'] = `${url.origin}${url.pathname}?${query.join('&')}`
+  }
+  return { status: 200, body }
+}
+
+function countCollection(
+  store: FixtureStore,
+  entitySet: string,
+  records: ODataRecord[],
+  url: URL
+): OfflineResponse {
+  const viewResult = runViewQuery(store, entitySet, url.searchParams)
+  const count = viewResult
+    ? viewResult.totalCount
+    : queryRecords(records, parseQueryOptions(url.search.slice(1)), store.resolveNavigation).length
+  return { status: 200, body: String(count), headers: { 'Content-Type': 'text/plain' } }
+}
+
+/**
+ * Answer one Web API request from the fixtures, createId gives the id of created records
+ */
+function handleRequest(
+  store: FixtureStore,
+  request: OfflineRequest,
+  createId: () => string
+): OfflineResponse {
+  const { method, url, body } = request
+  const [, version, path = ''] = API_PATH.exec(url.pathname) || []
+  const baseUrl = `${url.origin}/api/data/${version}`
+  const segments = splitTopLevel(decodeURIComponent(path), '/').map(parseSegment)
+  const [first, ...rest] = segments
+  if (!first || first.name === '$batch' || first.name === '$metadata') {
+    return errorResponse(501, `${first?.name || 'The service document'} is not supported offline`)
+  }
+
+  // Bound functions answer from their fixture, e.g. systemusers(id)/Microsoft.Dynamics.CRM.RetrieveUserPrivileges()
+  const last = segments[segments.length - 1] as PathSegment
+  const boundFunction = last.name.slice(CAST_PREFIX.length)
+  if (last.name.startsWith(CAST_PREFIX) && last.key !== undefined) {
+    const result = store.functions.get(boundFunction)
+    return result === undefined
+      ? errorResponse(404, `No fixture for the function ${boundFunction}`, '0x80060888')
+      : { status: 200, body: result }
+  }
+
+  const entitySet = first.name
+  const records = store.collections.get(entitySet)
+  if (!records) {
+    const result = store.functions.get(entitySet) ?? DEFAULT_FUNCTIONS[entitySet]
+    return result === undefined
+      ? errorResponse(404, `Resource not found for the segment '${entitySet}'.`, '0x80060888')
+      : { status: 200, body: result }
+  }
+  const context = `${baseUrl}/$metadata#${entitySet}`
+  const primaryId = store.getPrimaryIdAttribute(entitySet)
+
+  if (first.key === undefined) {
+    const [next] = rest
+    if (next?.name === '$count') {
+      return countCollection(store, entitySet, records, url)
+    }
+    if (next?.name.startsWith(CAST_PREFIX)) {
+      const cast = next.name.slice(CAST_PREFIX.length)
+      const casted = records.filter(record => matchesCast(record, cast))
+      return queryCollection(store, entitySet, casted, url, context, request.maxPageSize)
+    }
+    if (method === 'POST') {
+      const id = normalizeId(body?.[primaryId]) || createId()
+      const record = { ...store.bindLookups(entitySet, body || {}), [primaryId]: id }
+      store.addRecord(entitySet, record)
+      console.log(`📴 Offline Dataverse created ${entitySet}(${id})`)
+      const entityId = `${baseUrl}/${entitySet}(${id})`
+      if (!request.returnRepresentation) {
+        return { status: 204, headers: { 'OData-EntityId': entityId } }
+      }
+      const options = parseQueryOptions(url.search.slice(1))
+      return {
+        status: 201,
+        body: queryRecord(record, options, store.resolveNavigation, [primaryId]),
+        headers: { 'OData-EntityId': entityId },
+      }
+    }
+    return queryCollection(store, entitySet, records, url, context, request.maxPageSize)
+  }
+
+  const record = store.findRecord(entitySet, first.key)
+  if (rest.length === 0) {
+    if (method === 'PATCH') {
+      const changes = store.bindLookups(entitySet, body || {})
+      if (record) {
+        Object.assign(record, changes)
+      } else {
+        // PATCH without an existing record is an upsert
+        store.addRecord(entitySet, { ...changes, [primaryId]: normalizeId(first.key) })
+      }
+      console.log(`📴 Offline Dataverse updated ${entitySet}(${first.key})`)
+      const updated = store.findRecord(entitySet, first.key)
+      if (!request.returnRepresentation || !updated) {
+        return { status: 204 }
+      }
+      const options = parseQueryOptions(url.search.slice(1))
+      return {
+        status: 200,
+        body: queryRecord(updated, options, store.resolveNavigation, [primaryId]),
+      }
+    }
+    if (!record) {
+      return errorResponse(
+        404,
+        `${store.getLogicalName(entitySet)} With Id = ${first.key} Does Not Exist`,
+        '0x80040217'
+      )
+    }
+    if (method === 'DELETE') {
+      store.removeRecord(entitySet, record)
+      console.log(`📴 Offline Dataverse deleted ${entitySet}(${first.key})`)
+      return { status: 204 }
+    }
+    const options = parseQueryOptions(url.search.slice(1))
+    return {
+      status: 200,
+      body: {
+        '@odata.context': `${context}/$entity`,
+        ...queryRecord(record, options, store.resolveNavigation, [primaryId]),
+      },
+    }
+  }
+
+  if (!record) {
+    return errorResponse(
+      404,
+      `${store.getLogicalName(entitySet)} With Id = ${first.key} Does Not Exist`,
+      '0x80040217'
+    )
+  }
+  if (method !== 'GET') {
+    return errorResponse(501, `${method} on ${path} is not supported offline`)
+  }
+
+  // Walk navigation properties, casts and bound functions
+  let current: ODataRecord | ODataRecord[] | null | undefined = record
+  for (const segment of rest) {
+    if (segment.name.startsWith(CAST_PREFIX)) {
+      const cast = segment.name.slice(CAST_PREFIX.length)
+      current = Array.isArray(current) ? current.filter(item => matchesCast(item, cast)) : undefined
+    } else if (current && !Array.isArray(current)) {
+      current = store.resolveNavigation(current, segment.name)
+      if (Array.isArray(current) && segment.key !== undefined) {
+        const key = segment.key
+        current = current.find(item => matchesAlternateKey(item, key))
+      }
+    } else {
+      current = undefined
+    }
+    if (current === undefined) {
+      return errorResponse(
+        404,
+        `Resource not found for the segment '${segment.name}'.`,
+        '0x80060888'
+      )
+    }
+  }
+
+  const options = parseQueryOptions(url.search.slice(1))
+  if (Array.isArray(current)) {
+    return {
+      status: 200,
+      body: { value: queryRecords(current, options, store.resolveNavigation) },
+    }
+  }
+  return {
+    status: 200,
+    body: current === null ? null : queryRecord(current, options, store.resolveNavigation),
+  }
+}
+
+/**
+ * Vite plugin serving /api/data/v9.x from fixtures, reloaded when a fixture file changes
+ */
+export function createOfflineDataversePlugin(options: OfflineDataverseOptions): Plugin {
+  const store = new FixtureStore()
+
+  return {
+    name: 'pcf-offline-dataverse',
+    async configureServer(server) {
+      const fs = await import('node:fs')
+      const path = await import('node:path')
+      const { randomUUID } = await import('node:crypto')
+      const fixturesDir = path.resolve(options.fixturesDir)
+
+      const loadFixtures = () => {
+        if (!fs.existsSync(fixturesDir)) {
+          console.warn(`⚠️ Offline Dataverse: fixtures directory ${fixturesDir} does not exist`)
+          store.load([])
+          return
+        }
+        const files = fs
+          .readdirSync(fixturesDir)
+          .filter(file => file.endsWith('.json'))
+          .flatMap(file => {
+            try {
+              const content = JSON.parse(fs.readFileSync(path.join(fixturesDir, file), 'utf-8'))
+              return [{ name: path.basename(file, '.json'), content }]
+            } catch (error) {
+              console.error(`❌ Offline Dataverse: could not read fixture ${file}:`, error)
+              return []
+            }
+          })
+        store.load(files)
+        console.log(`📴 Offline Dataverse: loaded ${files.length} fixtures from ${fixturesDir}`)
+      }
+
+      loadFixtures()
+      server.watcher.add(fixturesDir)
+      server.watcher.on('all', (_event: string, file: string) => {
+        if (file.startsWith(fixturesDir) && file.endsWith('.json')) {
+          loadFixtures()
+        }
+      })
+
+      server.middlewares.use((req, res, next) => {
+        const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`)
+        if (!API_PATH.test(url.pathname)) {
+          next()
+          return
+        }
+
+        const chunks: Buffer[] = []
+        req.on('data', (chunk: Buffer) => chunks.push(chunk))
+        req.on('end', () => {
+          let response: OfflineResponse
+          try {
+            const text = Buffer.concat(chunks).toString('utf-8')
+            const prefer = String(req.headers.prefer || '')
+            const request: OfflineRequest = {
+              method: req.method || 'GET',
+              url,
+              body: text ? JSON.parse(text) : undefined,
+              returnRepresentation: /return=representation/.test(prefer),
+              maxPageSize: Number(/odata\.maxpagesize=(\d+)/.exec(prefer)?.[1]) || undefined,
+            }
+            response = handleRequest(store, request, randomUUID)
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error)
+            response = errorResponse(error instanceof ODataQueryError ? 400 : 500, message)
+          }
+          if (response.status >= 400) {
+            console.warn(`⚠️ Offline Dataverse ${response.status} for ${req.method} ${req.url}`)
+          }
+
+          res.statusCode = response.status
+          res.setHeader('OData-Version', '4.0')
+          for (const [name, value] of Object.entries(response.headers || {})) {
+            res.setHeader(name, value)
+          }
+          if (response.body === undefined) {
+            res.end()
+          } else if (typeof response.body === 'string') {
+            res.end(response.body)
+          } else {
+            res.setHeader('Content-Type', 'application/json; odata.metadata=minimal')
+            res.end(JSON.stringify(response.body))
+          }
+        })
+      })
+    },
+  }
+}
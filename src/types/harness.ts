@@ -4,6 +4,7 @@
  */
 
 import type { UserConfig } from 'vite'
+import type { CassetteMode, DataverseCassetteOptions } from '../dataverseCassette'
 
 /**
  * Options for PCF Vite configuration
@@ -14,6 +15,38 @@ export interface PCFViteOptions {
    */
   dataverseUrl?: string
   
+  /**
+   * Serve /api/data from local JSON fixtures instead of Dataverse, no org or token needed
+   * @default VITE_PCF_OFFLINE === 'true'
+   */
+  offline?: boolean
+  
+  /**
+   * Fixtures directory for offline mode, relative to the project root
+   * @default VITE_PCF_FIXTURES_DIR or 'dev/fixtures'
+   */
+  fixturesDir?: string
+  
+  /**
+   * Record the Dataverse traffic to a cassette, or replay it without network or token
+   * @default VITE_PCF_CASSETTE
+   */
+  cassette?: CassetteMode
+  
+  /**
+   * Cassette file, relative to the project root
+   * @default VITE_PCF_CASSETTE_PATH or 'dev/cassettes/dataverse.json'
+   */
+  cassettePath?: string
+  
+  /**
+   * Request matching and header scrubbing for the cassette
+   */
+  cassetteOptions?: Pick<
+    DataverseCassetteOptions,
+    'ignoreQueryParameters' | 'volatilePatterns' | 'scrubHeaders'
+  >
+  
   /**
    * Development server port
    * @default 3000
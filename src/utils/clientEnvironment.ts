@@ -0,0 +1,92 @@
+/**
+ * Client Environment
+ * context.client and device support driven by a switchable form factor, client and network state
+ */
+
+import type { ViewportPreset } from './containerResize'
+import { requestContextUpdate } from './contextUpdates'
+
+export type ClientName = 'Web' | 'Outlook' | 'Mobile'
+
+export interface ClientEnvironment {
+  /** 0 Unknown, 1 Desktop, 2 Tablet, 3 Phone */
+  formFactor: 0 | 1 | 2 | 3
+  client: ClientName
+  isOffline: boolean
+  isNetworkAvailable: boolean
+}
+
+export const FORM_FACTORS: Array<{ value: ClientEnvironment['formFactor']; label: string }> = [
+  { value: 0, label: 'Unknown' },
+  { value: 1, label: 'Desktop' },
+  { value: 2, label: 'Tablet' },
+  { value: 3, label: 'Phone' },
+]
+
+export const CLIENT_NAMES: ClientName[] = ['Web', 'Outlook', 'Mobile']
+
+/** Viewport the container switches to with each form factor */
+export const FORM_FACTOR_VIEWPORTS: Record<ClientEnvironment['formFactor'], ViewportPreset> = {
+  0: 'fullScreen',
+  1: 'fullScreen',
+  2: 'tablet',
+  3: 'phone',
+}
+
+const DEFAULT_ENVIRONMENT: ClientEnvironment = {
+  formFactor: 1,
+  client: 'Web',
+  isOffline: false,
+  isNetworkAvailable: true,
+}
+
+type MockClient = ComponentFramework.Client & { _environment: ClientEnvironment }
+type ClientEnvironmentListener = (environment: ClientEnvironment) => void
+
+const listeners = new Set<ClientEnvironmentListener>()
+
+/**
+ * Subscribe to client environment changes, returns an unsubscribe function
+ */
+export function onClientEnvironmentChanged(listener: ClientEnvironmentListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Create context.client, reading the environment on every call
+ */
+export function createMockClient(initial: Partial<ClientEnvironment> = {}): MockClient {
+  const client: MockClient = {
+    _environment: { ...DEFAULT_ENVIRONMENT, ...initial },
+    disableScroll: false,
+    getClient: () => client._environment.client,
+    getFormFactor: () => client._environment.formFactor,
+    isOffline: () => client._environment.isOffline,
+    isNetworkAvailable: () => client._environment.isNetworkAvailable,
+  }
+  return client
+}
+
+export function getClientEnvironment(context: ComponentFramework.Context<any>): ClientEnvironment {
+  return (context.client as MockClient)._environment || DEFAULT_ENVIRONMENT
+}
+
+/**
+ * Switch form factor, client or network state at runtime and run updateView
+ */
+export function setClientEnvironment(
+  context: ComponentFramework.Context<any>,
+  changes: Partial<ClientEnvironment>
+): void {
+  const client = context.client as MockClient
+  client._environment = { ...getClientEnvironment(context), ...changes }
+  console.log('📱 Client environment changed', client._environment)
+
+  for (const listener of listeners) {
+    listener(client._environment)
+  }
+  requestContextUpdate(context, [])
+}
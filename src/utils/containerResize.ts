@@ -0,0 +1,120 @@
+/**
+ * Container Resize
+ * mode.trackContainerResize and mode.allocatedWidth/allocatedHeight driven by a ResizeObserver
+ */
+
+import { requestContextUpdate } from './contextUpdates'
+
+export type ViewportPreset =
+  | 'fullScreen'
+  | 'formColumn'
+  | 'subgrid'
+  | 'dashboardTile'
+  | 'tablet'
+  | 'phone'
+
+/**
+ * Sizes of the places a control is typically hosted in, null means fill the available space
+ */
+export const VIEWPORT_PRESETS: Record<
+  ViewportPreset,
+  { label: string; width: number | null; height: number | null }
+> = {
+  fullScreen: { label: 'Full screen', width: null, height: null },
+  formColumn: { label: 'Form column', width: 520, height: 240 },
+  subgrid: { label: 'Subgrid', width: 960, height: 420 },
+  dashboardTile: { label: 'Dashboard tile', width: 420, height: 320 },
+  tablet: { label: 'Tablet', width: 1024, height: 768 },
+  phone: { label: 'Phone', width: 390, height: 844 },
+}
+
+type ContainerMode = ComponentFramework.Mode & {
+  _trackContainerResize?: boolean
+  _containerSize?: { width: number; height: number }
+}
+
+type ContainerResizeListener = (mode: ComponentFramework.Mode) => void
+
+const listeners = new Set<ContainerResizeListener>()
+
+/**
+ * Subscribe to container size and tracking changes, returns an unsubscribe function
+ */
+export function onContainerResize(listener: ContainerResizeListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+function notifyListeners(context: ComponentFramework.Context<any>): void {
+  for (const listener of listeners) {
+    listener(context.mode)
+  }
+}
+
+/**
+ * Copy the observed container size into allocatedWidth/allocatedHeight
+ * Returns true when the allocated size changed. Untracked controls get -1, like on the platform.
+ */
+function applyAllocatedSize(context: ComponentFramework.Context<any>): boolean {
+  const mode = context.mode as ContainerMode
+  const size = mode._trackContainerResize ? mode._containerSize : undefined
+  const width = size ? Math.round(size.width) : -1
+  const height = size ? Math.round(size.height) : -1
+
+  if (mode.allocatedWidth === width && mode.allocatedHeight === height) {
+    return false
+  }
+  mode.allocatedWidth = width
+  mode.allocatedHeight = height
+  return true
+}
+
+/**
+ * Mock for context.mode.trackContainerResize
+ * The size is applied right away so an updateView following init already sees it.
+ */
+export function setContainerResizeTracking(
+  context: ComponentFramework.Context<any>,
+  enabled: boolean
+): void {
+  const mode = context.mode as ContainerMode
+  mode._trackContainerResize = enabled
+  applyAllocatedSize(context)
+  notifyListeners(context)
+  console.log(`📐 Container resize tracking ${enabled ? 'enabled' : 'disabled'}`)
+}
+
+export function isContainerResizeTracked(context: ComponentFramework.Context<any>): boolean {
+  return !!(context.mode as ContainerMode)._trackContainerResize
+}
+
+/**
+ * Watch the element the control is rendered in
+ * While the control tracks resizes, size changes call updateView with 'layout'. Returns a disconnect function.
+ */
+export function observeContainerResize(
+  context: ComponentFramework.Context<any>,
+  container: HTMLElement
+): () => void {
+  // Seed the size so a control that opts in during init gets it before the first observation
+  const mode = context.mode as ContainerMode
+  mode._containerSize = { width: container.clientWidth, height: container.clientHeight }
+
+  const observer = new ResizeObserver(entries => {
+    const entry = entries[entries.length - 1]
+    if (!entry) {
+      return
+    }
+
+    mode._containerSize = { width: entry.contentRect.width, height: entry.contentRect.height }
+    if (isContainerResizeTracked(context) && applyAllocatedSize(context)) {
+      requestContextUpdate(context, ['layout'])
+    }
+    notifyListeners(context)
+  })
+
+  observer.observe(container)
+  return () => observer.disconnect()
+}
@@ -0,0 +1,57 @@
+/**
+ * Context Updates
+ * Lets mocks inside the context (datasets, dialogs, ...) ask the harness for an updateView
+ */
+
+type ContextUpdateHandler = (updatedProperties: string[]) => void
+
+const handlers = new WeakMap<object, ContextUpdateHandler>()
+
+/**
+ * Register the function that pushes context changes to the control, returns an unregister function
+ */
+export function registerContextUpdateHandler(
+  context: ComponentFramework.Context<any>,
+  handler: ContextUpdateHandler
+): () => void {
+  handlers.set(context, handler)
+  return () => {
+    if (handlers.get(context) === handler) {
+      handlers.delete(context)
+    }
+  }
+}
+
+/**
+ * Ask the harness to call updateView with the given updatedProperties
+ */
+export function requestContextUpdate(
+  context: ComponentFramework.Context<any>,
+  updatedProperties: string[]
+): void {
+  const handler = handlers.get(context)
+  if (!handler) {
+    console.warn('No control registered for context updates, skipping updateView', {
+      updatedProperties,
+    })
+    return
+  }
+  handler(updatedProperties)
+}
+
+const pendingRenders = new WeakSet<object>()
+
+/**
+ * Mock for context.factory.requestRender
+ * Calls in the same frame are batched into a single updateView.
+ */
+export function scheduleContextUpdate(context: ComponentFramework.Context<any>): void {
+  if (pendingRenders.has(context)) {
+    return
+  }
+  pendingRenders.add(context)
+  requestAnimationFrame(() => {
+    pendingRenders.delete(context)
+    requestContextUpdate(context, [])
+  })
+}
@@ -0,0 +1,121 @@
+/**
+ * Control Access
+ * mode.isControlDisabled, form read-only mode and per-property field security
+ */
+
+import { requestContextUpdate } from './contextUpdates'
+
+export type PropertySecurity = ComponentFramework.PropertyHelper.SecurityValues
+
+export interface ControlAccessState {
+  /** Disabled by the harness toggle, like a field set to read-only on the form */
+  controlDisabled: boolean
+  /** The whole form is read-only, e.g. an inactive record or no write privilege */
+  formReadOnly: boolean
+}
+
+/** What the platform shows for a field the user cannot read */
+export const MASKED_VALUE = '********'
+
+type AccessMode = ComponentFramework.Mode & { _access?: ControlAccessState }
+type MaskedProperty = ComponentFramework.PropertyTypes.Property & {
+  _unmasked?: { raw: unknown; formatted?: string }
+}
+type ControlAccessListener = () => void
+
+const listeners = new Set<ControlAccessListener>()
+
+/**
+ * Subscribe to disabled, read-only and field security changes, returns an unsubscribe function
+ */
+export function onControlAccessChanged(listener: ControlAccessListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+function notifyListeners(): void {
+  for (const listener of listeners) {
+    listener()
+  }
+}
+
+function getParameters(context: ComponentFramework.Context<any>) {
+  return context.parameters as Record<string, ComponentFramework.PropertyTypes.Property>
+}
+
+export function getControlAccess(context: ComponentFramework.Context<any>): ControlAccessState {
+  return (context.mode as AccessMode)._access || { controlDisabled: false, formReadOnly: false }
+}
+
+/**
+ * Switch the control or the whole form to read-only and run updateView
+ * A read-only form disables the control regardless of the control toggle.
+ */
+export function setControlAccess(
+  context: ComponentFramework.Context<any>,
+  changes: Partial<ControlAccessState>
+): void {
+  const mode = context.mode as AccessMode
+  mode._access = { ...getControlAccess(context), ...changes }
+  mode.isControlDisabled = mode._access.controlDisabled || mode._access.formReadOnly
+  console.log(`🔒 Control ${mode.isControlDisabled ? 'disabled' : 'enabled'}`, mode._access)
+
+  notifyListeners()
+  requestContextUpdate(context, [])
+}
+
+/**
+ * Names of the properties that carry field security (every property except enums)
+ */
+export function getSecurableProperties(context: ComponentFramework.Context<any>): string[] {
+  return Object.entries(getParameters(context))
+    .filter(([, property]) => property && 'security' in property && property.security)
+    .map(([name]) => name)
+}
+
+/**
+ * Hide the value of an unreadable property, or bring it back once it is readable
+ * Called again whenever the property mock is replaced, so edits to a masked field stay masked.
+ */
+export function applySecurityMask(property: ComponentFramework.PropertyTypes.Property): void {
+  const masked = property as MaskedProperty
+  const readable = property.security?.readable ?? true
+
+  if (!readable && !masked._unmasked) {
+    masked._unmasked = { raw: property.raw, formatted: property.formatted }
+    property.raw = property.type === 'Lookup.Simple' ? [] : null
+    property.formatted = MASKED_VALUE
+  } else if (readable && masked._unmasked) {
+    property.raw = masked._unmasked.raw
+    property.formatted = masked._unmasked.formatted
+    masked._unmasked = undefined
+  }
+}
+
+/**
+ * Change the field security of a property and run updateView with its name
+ * security.secured is mirrored to attributes.IsSecured, an unreadable value is masked.
+ */
+export function setPropertySecurity(
+  context: ComponentFramework.Context<any>,
+  propertyName: string,
+  changes: Partial<PropertySecurity>
+): void {
+  const property = getParameters(context)[propertyName]
+  if (!property?.security) {
+    console.warn(`⚠️ Property "${propertyName}" has no field security`)
+    return
+  }
+
+  property.security = { ...property.security, ...changes }
+  if (property.attributes) {
+    property.attributes.IsSecured = property.security.secured
+  }
+  applySecurityMask(property)
+  console.log(`🔒 Field security for "${propertyName}"`, property.security)
+
+  notifyListeners()
+  requestContextUpdate(context, [propertyName])
+}
@@ -0,0 +1,142 @@
+/**
+ * Control Events
+ * context.events from the manifest `<event>` nodes, delivered to mock form script handlers
+ */
+
+import { logHarnessEvent } from './eventLog'
+import type { ManifestEventInfo } from './manifestExtractor'
+
+export type ControlEventHandler = (params?: unknown) => void
+
+/** The part of formContext.getControl() that form scripts use to listen to control events */
+export interface MockFormControl {
+  addEventHandler: (eventName: string, handler: ControlEventHandler) => void
+  removeEventHandler: (eventName: string, handler: ControlEventHandler) => void
+}
+
+export interface MockExecutionContext {
+  getEventSource: () => MockFormControl
+  getFormContext: () => { getControl: (name?: string) => MockFormControl }
+}
+
+/** A form script OnLoad handler, e.g. the one registered on the real form */
+export type FormScript = (executionContext: MockExecutionContext) => void
+
+const handlers = new Map<string, Set<ControlEventHandler>>()
+const listeners = new Set<() => void>()
+
+function notifyListeners(): void {
+  for (const listener of listeners) {
+    listener()
+  }
+}
+
+/**
+ * Subscribe to handler registrations, returns an unsubscribe function
+ */
+export function onFormScriptHandlersChanged(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Listen to a control event like a form script would, returns a function that removes the handler
+ */
+export function addFormScriptEventHandler(
+  eventName: string,
+  handler: ControlEventHandler
+): () => void {
+  const eventHandlers = handlers.get(eventName) || new Set()
+  eventHandlers.add(handler)
+  handlers.set(eventName, eventHandlers)
+  notifyListeners()
+  return () => removeFormScriptEventHandler(eventName, handler)
+}
+
+export function removeFormScriptEventHandler(
+  eventName: string,
+  handler: ControlEventHandler
+): void {
+  if (handlers.get(eventName)?.delete(handler)) {
+    notifyListeners()
+  }
+}
+
+export function getFormScriptHandlerCount(eventName: string): number {
+  return handlers.get(eventName)?.size ?? 0
+}
+
+/**
+ * Run a form script OnLoad handler against the harness control
+ * Every control name resolves to the control under development.
+ */
+export function registerFormScript(formScript: FormScript): void {
+  const control: MockFormControl = {
+    addEventHandler: (eventName, handler) => {
+      addFormScriptEventHandler(eventName, handler)
+    },
+    removeEventHandler: removeFormScriptEventHandler,
+  }
+  formScript({
+    getEventSource: () => control,
+    getFormContext: () => ({ getControl: () => control }),
+  })
+  console.log('📜 Form script registered')
+}
+
+/**
+ * Deliver a control event to the form script handlers
+ */
+export function raiseControlEvent(eventName: string, params?: unknown): void {
+  const eventHandlers = Array.from(handlers.get(eventName) || [])
+  logHarnessEvent(`events.${eventName}`, { params, handlers: eventHandlers.length })
+
+  for (const handler of eventHandlers) {
+    try {
+      handler(params)
+    } catch (error) {
+      console.error(`❌ Form script handler for ${eventName} failed:`, error)
+    }
+  }
+}
+
+/**
+ * Create context.events with one function per manifest event
+ */
+export function createMockEvents(
+  events: ManifestEventInfo[] = []
+): Record<string, ControlEventHandler> {
+  return Object.fromEntries(
+    events.map(event => [event.name, (params?: unknown) => raiseControlEvent(event.name, params)])
+  )
+}
+
+let alertFormScript: Array<() => void> | null = null
+
+export function isAlertFormScriptEnabled(): boolean {
+  return alertFormScript !== null
+}
+
+/**
+ * Built-in form script that answers every control event with an alert dialog
+ */
+export function setAlertFormScriptEnabled(
+  context: ComponentFramework.Context<any>,
+  eventNames: string[],
+  enabled: boolean
+): void {
+  for (const remove of alertFormScript || []) {
+    remove()
+  }
+  alertFormScript = enabled
+    ? eventNames.map(eventName =>
+        addFormScriptEventHandler(eventName, params => {
+          context.navigation.openAlertDialog({
+            text: `Form script received ${eventName}${params === undefined ? '' : `\n${JSON.stringify(params, null, 2)}`}`,
+          })
+        })
+      )
+    : null
+}
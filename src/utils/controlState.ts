@@ -0,0 +1,48 @@
+/**
+ * Control State
+ * Session storage backing for context.mode.setControlState and the init `state` argument
+ */
+
+const STORAGE_PREFIX = 'pcf-harness:control-state:'
+
+function getStorageKey(controlId: string): string {
+  return `${STORAGE_PREFIX}${controlId}`
+}
+
+/**
+ * Read the control id the harness put on the mock context
+ */
+export function getControlId(context: ComponentFramework.Context<any>): string {
+  return (context as any).accessibility?._customControlProperties?.descriptor?.DomId || 'default'
+}
+
+/**
+ * Load the state dictionary stored for a control, empty when nothing is stored
+ */
+export function loadControlState(controlId: string): ComponentFramework.Dictionary {
+  try {
+    const stored = sessionStorage.getItem(getStorageKey(controlId))
+    return stored ? JSON.parse(stored) : {}
+  } catch (error) {
+    console.warn(`⚠️ Could not read control state for ${controlId}:`, error)
+    return {}
+  }
+}
+
+/**
+ * Store the state dictionary for a control for the rest of the browser session
+ */
+export function saveControlState(controlId: string, state: ComponentFramework.Dictionary): boolean {
+  try {
+    sessionStorage.setItem(getStorageKey(controlId), JSON.stringify(state ?? {}))
+    console.log(`💾 Control state stored for ${controlId}`, state)
+    return true
+  } catch (error) {
+    console.warn(`⚠️ Could not store control state for ${controlId}:`, error)
+    return false
+  }
+}
+
+export function clearControlState(controlId: string): void {
+  sessionStorage.removeItem(getStorageKey(controlId))
+}
@@ -0,0 +1,389 @@
+/**
+ * Dataset Query
+ * Paging, sorting, filtering and refresh for the mock DataSet, backed by the view FetchXML
+ */
+
+import { requestContextUpdate } from './contextUpdates'
+import { convertEntitiesToDatasetRecords } from './datasetRecordConverter'
+import { executeFetchXml } from './recordRetrieval'
+import { getDefaultViewForEntity, getViewById, type ViewInfo } from './viewDiscovery'
+
+type DataSet = ComponentFramework.PropertyTypes.DataSet
+type FilterExpression = ComponentFramework.PropertyHelper.DataSetApi.FilterExpression
+type ConditionExpression = ComponentFramework.PropertyHelper.DataSetApi.ConditionExpression
+
+const DEFAULT_PAGE_SIZE = 25
+
+interface DatasetQueryState {
+  context: ComponentFramework.Context<any>
+  datasetName: string
+  baseFetchXml?: string
+  filter: FilterExpression | null
+  /** Paging cookie to request a page with, keyed by page number */
+  pagingCookies: Record<number, string>
+  /** Increments per query so results of superseded queries are dropped */
+  requestId: number
+}
+
+/** A mock DataSet carrying its query state */
+type QueryableDataset = DataSet & { _query?: DatasetQueryState }
+
+/**
+ * FetchXML operators for the ConditionOperator values the dataset API supports
+ */
+const FETCH_OPERATORS: Record<number, string> = {
+  0: 'eq',
+  1: 'ne',
+  2: 'gt',
+  3: 'lt',
+  4: 'ge',
+  5: 'le',
+  6: 'like',
+  8: 'in',
+  12: 'null',
+  13: 'not-null',
+  14: 'yesterday',
+  15: 'today',
+  16: 'tomorrow',
+  17: 'last-seven-days',
+  18: 'next-seven-days',
+  19: 'last-week',
+  20: 'this-week',
+  22: 'last-month',
+  23: 'this-month',
+  25: 'on',
+  26: 'on-or-before',
+  27: 'on-or-after',
+  28: 'last-year',
+  29: 'this-year',
+  33: 'last-x-days',
+  34: 'next-x-days',
+  37: 'last-x-months',
+  38: 'next-x-months',
+  49: 'like',
+  70: 'in-fiscal-period-and-year',
+  75: 'under',
+  76: 'not-under',
+  77: 'eq-or-under',
+  78: 'above',
+  79: 'eq-or-above',
+  87: 'contain-values',
+}
+
+function getQueryState(dataset: QueryableDataset): DatasetQueryState | undefined {
+  return dataset._query
+}
+
+export function hasDatasetQuery(dataset: DataSet): boolean {
+  return !!getQueryState(dataset)
+}
+
+function appendCondition(doc: Document, parent: Element, condition: ConditionExpression): void {
+  const operator = FETCH_OPERATORS[condition.conditionOperator]
+  if (!operator) {
+    console.warn(`⚠️ Unsupported condition operator ${condition.conditionOperator}, skipped`)
+    return
+  }
+
+  const conditionElement = doc.createElement('condition')
+  conditionElement.setAttribute('attribute', condition.attributeName)
+  conditionElement.setAttribute('operator', operator)
+  if (condition.entityAliasName) {
+    conditionElement.setAttribute('entityname', condition.entityAliasName)
+  }
+
+  if (Array.isArray(condition.value)) {
+    for (const value of condition.value) {
+      const valueElement = doc.createElement('value')
+      valueElement.textContent = value
+      conditionElement.appendChild(valueElement)
+    }
+  } else if (condition.value !== undefined && condition.value !== null && condition.value !== '') {
+    // Contains (49) is sent as a like with wildcards on both sides
+    const value =
+      condition.conditionOperator === 49 ? `%${condition.value}%` : String(condition.value)
+    conditionElement.setAttribute('value', value)
+  }
+
+  parent.appendChild(conditionElement)
+}
+
+function appendFilter(doc: Document, parent: Element, filter: FilterExpression): void {
+  const filterElement = doc.createElement('filter')
+  filterElement.setAttribute('type', filter.filterOperator === 1 ? 'or' : 'and')
+
+  for (const condition of filter.conditions || []) {
+    appendCondition(doc, filterElement, condition)
+  }
+  for (const childFilter of filter.filters || []) {
+    appendFilter(doc, filterElement, childFilter)
+  }
+
+  parent.appendChild(filterElement)
+}
+
+/**
+ * Apply the dataset sorting, filter and the subgrid parent record to a view FetchXML
+ */
+export function buildDatasetFetchXml(
+  fetchXml: string,
+  query: {
+    sorting?: ComponentFramework.PropertyHelper.DataSetApi.SortStatus[]
+    filter?: FilterExpression | null
+  }
+): string {
+  const doc = new DOMParser().parseFromString(fetchXml, 'text/xml')
+  const entityElement = doc.querySelector('entity')
+  if (!entityElement) {
+    return fetchXml
+  }
+
+  // Sorting replaces the view order, like a column header click in a grid
+  const sorting = (query.sorting || []).filter(sort => sort.sortDirection !== -1)
+  if (sorting.length > 0) {
+    for (const order of Array.from(entityElement.children).filter(e => e.tagName === 'order')) {
+      entityElement.removeChild(order)
+    }
+    for (const sort of sorting) {
+      const orderElement = doc.createElement('order')
+      const [alias, attribute] = sort.name.includes('.') ? sort.name.split('.') : [null, sort.name]
+      orderElement.setAttribute('attribute', attribute as string)
+      if (alias) {
+        orderElement.setAttribute('entityname', alias)
+      }
+      orderElement.setAttribute('descending', sort.sortDirection === 1 ? 'true' : 'false')
+      entityElement.appendChild(orderElement)
+    }
+  }
+
+  if (query.filter && (query.filter.conditions?.length || query.filter.filters?.length)) {
+    appendFilter(doc, entityElement, query.filter)
+  }
+
+  // Subgrids only show the records related to the form record
+  const parentRecordId = import.meta.env.VITE_PCF_PAGE_RECORD_ID as string | undefined
+  const relationshipAttribute =
+    (import.meta.env.VITE_PCF_RELATIONSHIP_ATTRIBUTE as string | undefined) ||
+    (import.meta.env.VITE_PCF_PAGE_TABLE as string | undefined)
+  if (parentRecordId && relationshipAttribute) {
+    appendFilter(doc, entityElement, {
+      filterOperator: 0,
+      conditions: [
+        { attributeName: relationshipAttribute, conditionOperator: 0, value: parentRecordId },
+      ],
+    })
+  }
+
+  return new XMLSerializer().serializeToString(doc)
+}
+
+/**
+ * Get the FetchXML of the dataset view, falling back to the default view of the target table
+ */
+async function getBaseFetchXml(dataset: DataSet, state: DatasetQueryState): Promise<string | null> {
+  if (state.baseFetchXml) {
+    return state.baseFetchXml
+  }
+
+  const entityName = dataset.getTargetEntityType()
+  const viewId = dataset.getViewId()
+  let view: ViewInfo | null = null
+  try {
+    view =
+      (viewId ? await getViewById(viewId) : null) ||
+      (entityName && entityName !== 'unknown' ? await getDefaultViewForEntity(entityName) : null)
+  } catch (error) {
+    console.error(`❌ Failed to load the view for dataset "${state.datasetName}":`, error)
+  }
+
+  if (!view?.fetchXml) {
+    console.warn(`⚠️ No view FetchXML found for dataset "${state.datasetName}"`)
+    return null
+  }
+
+  console.log(`📋 Dataset "${state.datasetName}" uses view "${view.name}"`)
+  state.baseFetchXml = view.fetchXml
+  return view.fetchXml
+}
+
+/**
+ * Query one page through the view FetchXML and put the records in the dataset
+ * With append the page is added to the loaded page range instead of replacing it.
+ */
+async function loadDatasetPage(
+  dataset: DataSet,
+  pageNumber: number,
+  options: { append?: 'before' | 'after'; notify?: boolean } = {}
+): Promise<boolean> {
+  const state = getQueryState(dataset)
+  if (!state) {
+    return false
+  }
+
+  const requestId = ++state.requestId
+  const { notify = true } = options
+  const paging = dataset.paging
+  dataset.loading = true
+
+  try {
+    const baseFetchXml = await getBaseFetchXml(dataset, state)
+    if (!baseFetchXml) {
+      return false
+    }
+
+    const entityName = dataset.getTargetEntityType()
+    const fetchXml = buildDatasetFetchXml(baseFetchXml, {
+      sorting: dataset.sorting,
+      filter: state.filter,
+    })
+
+    console.log(`🔄 Loading page ${pageNumber} of dataset "${state.datasetName}"`, {
+      pageSize: paging.pageSize,
+      sorting: dataset.sorting,
+      filter: state.filter,
+    })
+
+    const result = await executeFetchXml(fetchXml, entityName, {
+      maxPageSize: paging.pageSize,
+      pageNumber,
+      pagingCookie: state.pagingCookies[pageNumber],
+    })
+
+    if (requestId !== state.requestId) {
+      console.log(`⏭️ Dropping superseded result for page ${pageNumber}`)
+      return false
+    }
+    if (!result.success) {
+      console.error(`❌ Dataset query failed for "${state.datasetName}":`, result.error)
+      dataset.error = true
+      dataset.errorMessage = result.error ?? ''
+      return false
+    }
+
+    if (result.pagingCookie) {
+      state.pagingCookies[pageNumber + 1] = result.pagingCookie
+    }
+
+    const records = await convertEntitiesToDatasetRecords(
+      result.entities,
+      entityName,
+      state.context.webAPI
+    )
+    const pageIds = Object.keys(records)
+    const currentIds = options.append ? dataset.sortedRecordIds || [] : []
+
+    if (!options.append) {
+      for (const id of Object.keys(dataset.records)) {
+        delete dataset.records[id]
+      }
+    }
+    Object.assign(dataset.records, records)
+    dataset.sortedRecordIds =
+      options.append === 'before' ? [...pageIds, ...currentIds] : [...currentIds, ...pageIds]
+
+    if (options.append === 'before') {
+      paging.firstPageNumber = pageNumber
+    } else if (options.append === 'after') {
+      paging.lastPageNumber = pageNumber
+    } else {
+      paging.firstPageNumber = pageNumber
+      paging.lastPageNumber = pageNumber
+    }
+    paging.totalResultCount = result.totalCount ?? paging.totalResultCount
+    paging.hasNextPage = Boolean(result.moreRecords)
+    paging.hasPreviousPage = paging.firstPageNumber > 1
+    dataset.error = false
+    dataset.errorMessage = ''
+
+    console.log(
+      `✅ Loaded ${pageIds.length} records into "${state.datasetName}" (pages ${paging.firstPageNumber}-${paging.lastPageNumber})`
+    )
+    return true
+  } finally {
+    if (requestId === state.requestId) {
+      dataset.loading = false
+      if (notify) {
+        requestContextUpdate(state.context, [state.datasetName])
+      }
+    }
+  }
+}
+
+/**
+ * Re-query the dataset from page 1 with the current sorting and filter
+ */
+export function refreshDataset(
+  dataset: DataSet,
+  options: { notify?: boolean } = {}
+): Promise<boolean> {
+  const state = getQueryState(dataset)
+  if (state) {
+    state.pagingCookies = {}
+  }
+  return loadDatasetPage(dataset, 1, options)
+}
+
+/**
+ * Install the paging, sorting, filtering and refresh API on a mock dataset
+ */
+export function attachDatasetQuery(
+  dataset: QueryableDataset,
+  context: ComponentFramework.Context<any>,
+  datasetName: string
+): void {
+  const state: DatasetQueryState = {
+    context,
+    datasetName,
+    filter: null,
+    pagingCookies: {},
+    requestId: 0,
+  }
+  dataset._query = state
+
+  const paging = dataset.paging
+  paging.pageSize = paging.pageSize || DEFAULT_PAGE_SIZE
+  paging.firstPageNumber = 1
+  paging.lastPageNumber = 1
+
+  paging.loadNextPage = (loadOnlyNewPage?: boolean) => {
+    loadDatasetPage(dataset, paging.lastPageNumber + 1, {
+      append: loadOnlyNewPage ? undefined : 'after',
+    }).catch(console.error)
+  }
+  paging.loadPreviousPage = (loadOnlyNewPage?: boolean) => {
+    if (paging.firstPageNumber <= 1) {
+      return
+    }
+    loadDatasetPage(dataset, paging.firstPageNumber - 1, {
+      append: loadOnlyNewPage ? undefined : 'before',
+    }).catch(console.error)
+  }
+  paging.loadExactPage = (pageNumber: number) => {
+    loadDatasetPage(dataset, pageNumber).catch(console.error)
+  }
+  paging.setPageSize = (pageSize: number) => {
+    paging.pageSize = pageSize
+    state.pagingCookies = {}
+  }
+  paging.reset = () => {
+    refreshDataset(dataset).catch(console.error)
+  }
+
+  if (!Array.isArray(dataset.sorting)) {
+    dataset.sorting = []
+  }
+
+  dataset.filtering = {
+    getFilter: () => state.filter as FilterExpression,
+    setFilter: (expression: FilterExpression) => {
+      state.filter = expression
+    },
+    clearFilter: () => {
+      state.filter = null
+    },
+  }
+
+  dataset.refresh = () => {
+    refreshDataset(dataset).catch(console.error)
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Dataset Selection
+ * Record selection state for the mock DataSet that survives updateView
+ */
+
+import { requestContextUpdate } from './contextUpdates'
+
+type DataSet = ComponentFramework.PropertyTypes.DataSet
+
+export type SelectionListener = (datasetName: string, selectedRecordIds: string[]) => void
+
+const listeners = new Set<SelectionListener>()
+
+/**
+ * Subscribe to selection changes of any dataset, returns an unsubscribe function
+ */
+export function onSelectionChanged(listener: SelectionListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function hasDatasetSelection(value: unknown): value is DataSet {
+  return !!value && typeof value === 'object' && '_selectedRecordIds' in value
+}
+
+/**
+ * Install getSelectedRecordIds/setSelectedRecordIds/clearSelectedRecordIds on a mock dataset
+ * A change notifies the listeners and calls updateView with the dataset name, like the platform.
+ */
+export function attachDatasetSelection(
+  dataset: DataSet,
+  context: ComponentFramework.Context<any>,
+  datasetName: string
+): void {
+  const selection = dataset as DataSet & { _selectedRecordIds: string[] }
+  selection._selectedRecordIds = []
+
+  const setSelection = (ids: string[]) => {
+    const selectedRecordIds = Array.from(new Set(ids))
+    const current = selection._selectedRecordIds
+    if (
+      selectedRecordIds.length === current.length &&
+      selectedRecordIds.every((id, index) => id === current[index])
+    ) {
+      return
+    }
+
+    selection._selectedRecordIds = selectedRecordIds
+    console.log(`☑️ Selection changed in "${datasetName}"`, selectedRecordIds)
+    for (const listener of listeners) {
+      listener(datasetName, [...selectedRecordIds])
+    }
+    requestContextUpdate(context, [datasetName])
+  }
+
+  dataset.getSelectedRecordIds = () => [...selection._selectedRecordIds]
+  dataset.setSelectedRecordIds = (ids: string[]) => setSelection(ids || [])
+  dataset.clearSelectedRecordIds = () => setSelection([])
+}
@@ -0,0 +1,197 @@
+/**
+ * Device Mocks
+ * context.device backed by the browser file picker and configurable capture fixtures
+ */
+
+import { logHarnessEvent } from './eventLog'
+
+/** A ready FileObject, or a URL (e.g. a Vite `?url` import) fetched when the API is called */
+export type DeviceFileFixture = ComponentFramework.FileObject | string
+
+export interface DeviceFixtures {
+  /** Returned by captureImage, defaults to a placeholder SVG */
+  image?: DeviceFileFixture
+  /** Returned by captureAudio, the call rejects when not set */
+  audio?: DeviceFileFixture
+  /** Returned by captureVideo, the call rejects when not set */
+  video?: DeviceFileFixture
+  /** Returned by getBarcodeValue */
+  barcode?: string
+  /** Returned by getCurrentPosition, missing coordinates default to 0 */
+  position?: Partial<ComponentFramework.DeviceApi.Position['coords']>
+}
+
+const PLACEHOLDER_IMAGE = `<svg xmlns="http://www.w3.org/2000/svg" width="320" height="240" viewBox="0 0 320 240"><rect width="320" height="240" fill="#edebe9"/><circle cx="160" cy="120" r="48" fill="none" stroke="#605e5c" stroke-width="8"/><text x="160" y="220" font-family="Segoe UI, sans-serif" font-size="16" text-anchor="middle" fill="#605e5c">PCF harness capture</text></svg>`
+
+const DEFAULT_FIXTURES: DeviceFixtures = {
+  image: {
+    fileContent: btoa(PLACEHOLDER_IMAGE),
+    fileName: 'capture.svg',
+    fileSize: PLACEHOLDER_IMAGE.length,
+    mimeType: 'image/svg+xml',
+  },
+  barcode: '5901234123457',
+  position: { latitude: 47.6397, longitude: -122.13, accuracy: 10 },
+}
+
+/** pickFile accept values and the file input filters they map to */
+const ACCEPT_FILTERS: Record<string, string> = {
+  image: 'image/*',
+  audio: 'audio/*',
+  video: 'video/*',
+}
+
+type FixtureListener = (fixtures: DeviceFixtures) => void
+
+let fixtures: DeviceFixtures = { ...DEFAULT_FIXTURES }
+const listeners = new Set<FixtureListener>()
+
+export function getDeviceFixtures(): DeviceFixtures {
+  return fixtures
+}
+
+/**
+ * Replace some of the capture fixtures, the rest keep their current value
+ */
+export function setDeviceFixtures(changes: DeviceFixtures): void {
+  fixtures = { ...fixtures, ...changes }
+  for (const listener of listeners) {
+    listener(fixtures)
+  }
+}
+
+/**
+ * Subscribe to fixture changes, returns an unsubscribe function
+ */
+export function onDeviceFixturesChanged(listener: FixtureListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Read a Blob into a FileObject with base64 content, like the platform returns
+ */
+export function readFileObject(
+  file: Blob,
+  fileName: string
+): Promise<ComponentFramework.FileObject> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => {
+      const dataUrl = String(reader.result)
+      resolve({
+        fileContent: dataUrl.slice(dataUrl.indexOf(',') + 1),
+        fileName,
+        fileSize: file.size,
+        mimeType: file.type || 'application/octet-stream',
+      })
+    }
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+}
+
+async function resolveFileFixture(
+  api: string,
+  fixture: DeviceFileFixture | undefined
+): Promise<ComponentFramework.FileObject> {
+  if (!fixture) {
+    throw new Error(`No ${api} fixture configured, set one with setDeviceFixtures`)
+  }
+  if (typeof fixture !== 'string') {
+    return fixture
+  }
+
+  const response = await fetch(fixture)
+  if (!response.ok) {
+    throw new Error(`Failed to load ${api} fixture from ${fixture}: ${response.status}`)
+  }
+  const fileName = new URL(fixture, window.location.href).pathname.split('/').pop() || api
+  return readFileObject(await response.blob(), fileName)
+}
+
+/**
+ * Mock for context.device.pickFile
+ * Opens the browser file picker and resolves with the chosen files, or an empty array when cancelled.
+ * Rejects when a file is larger than maximumAllowedFileSize.
+ */
+export function simulatePickFile(
+  options?: ComponentFramework.DeviceApi.PickFileOptions
+): Promise<ComponentFramework.FileObject[]> {
+  logHarnessEvent('device.pickFile', { options })
+
+  return new Promise((resolve, reject) => {
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.multiple = !!options?.allowMultipleFiles
+    if (options?.accept) {
+      input.accept = ACCEPT_FILTERS[options.accept] ?? options.accept
+    }
+
+    input.addEventListener('cancel', () => resolve([]))
+    input.addEventListener('change', () => {
+      const files = Array.from(input.files || [])
+      const maximumSize = options?.maximumAllowedFileSize
+      const tooLarge = maximumSize ? files.find(file => file.size > maximumSize) : undefined
+      if (tooLarge) {
+        reject(
+          new Error(
+            `${tooLarge.name} is ${tooLarge.size} bytes, larger than the maximum allowed ${maximumSize} bytes`
+          )
+        )
+        return
+      }
+      Promise.all(files.map(file => readFileObject(file, file.name))).then(resolve, reject)
+    })
+
+    input.click()
+  })
+}
+
+/**
+ * Mock for context.device.captureImage, resolves with the image fixture
+ */
+export function simulateCaptureImage(
+  options?: ComponentFramework.DeviceApi.CaptureImageOptions
+): Promise<ComponentFramework.FileObject> {
+  logHarnessEvent('device.captureImage', { options })
+  return resolveFileFixture('captureImage', fixtures.image)
+}
+
+export function simulateCaptureAudio(): Promise<ComponentFramework.FileObject> {
+  logHarnessEvent('device.captureAudio', {})
+  return resolveFileFixture('captureAudio', fixtures.audio)
+}
+
+export function simulateCaptureVideo(): Promise<ComponentFramework.FileObject> {
+  logHarnessEvent('device.captureVideo', {})
+  return resolveFileFixture('captureVideo', fixtures.video)
+}
+
+export function simulateGetBarcodeValue(): Promise<string> {
+  logHarnessEvent('device.getBarcodeValue', { barcode: fixtures.barcode })
+  return Promise.resolve(fixtures.barcode ?? '')
+}
+
+/**
+ * Mock for context.device.getCurrentPosition, resolves with the position fixture
+ */
+export function simulateGetCurrentPosition(): Promise<ComponentFramework.DeviceApi.Position> {
+  const position: ComponentFramework.DeviceApi.Position = {
+    coords: {
+      latitude: 0,
+      longitude: 0,
+      accuracy: 0,
+      altitude: 0,
+      heading: 0,
+      speed: 0,
+      altitudeAccuracy: 0,
+      ...fixtures.position,
+    },
+    timestamp: new Date(),
+  }
+  logHarnessEvent('device.getCurrentPosition', position.coords)
+  return Promise.resolve(position)
+}
@@ -0,0 +1,249 @@
+/**
+ * Entity Metadata
+ * context.utils.getEntityMetadata built on the proxied EntityDefinitions endpoint
+ */
+
+const ATTRIBUTE_TYPE_CODES: Record<string, number> = {
+  Boolean: 0,
+  Customer: 1,
+  DateTime: 2,
+  Decimal: 3,
+  Double: 4,
+  Integer: 5,
+  Lookup: 6,
+  Memo: 7,
+  Money: 8,
+  Owner: 9,
+  PartyList: 10,
+  Picklist: 11,
+  State: 12,
+  Status: 13,
+  String: 14,
+  Uniqueidentifier: 15,
+  CalendarRules: 16,
+  Virtual: 17,
+  BigInt: 18,
+  ManagedProperty: 19,
+  EntityName: 20,
+}
+
+const REQUIRED_LEVEL_CODES: Record<string, number> = {
+  None: 0,
+  SystemRequired: 1,
+  ApplicationRequired: 2,
+  Recommended: 3,
+}
+
+/** Attribute metadata casts that carry option sets, keyed by AttributeType */
+const OPTION_SET_CASTS: Record<string, string> = {
+  Picklist: 'PicklistAttributeMetadata',
+  State: 'StateAttributeMetadata',
+  Status: 'StatusAttributeMetadata',
+  Boolean: 'BooleanAttributeMetadata',
+  Virtual: 'MultiSelectPicklistAttributeMetadata',
+}
+
+const ATTRIBUTE_SELECT = [
+  'LogicalName',
+  'SchemaName',
+  'DisplayName',
+  'Description',
+  'AttributeType',
+  'AttributeTypeName',
+  'AttributeOf',
+  'RequiredLevel',
+  'IsPrimaryId',
+  'IsPrimaryName',
+  'IsSecured',
+  'IsValidForCreate',
+  'IsValidForRead',
+  'IsValidForUpdate',
+].join(',')
+
+const ENTITY_SELECT = [
+  'LogicalName',
+  'SchemaName',
+  'DisplayName',
+  'DisplayCollectionName',
+  'Description',
+  'EntitySetName',
+  'LogicalCollectionName',
+  'ObjectTypeCode',
+  'PrimaryIdAttribute',
+  'PrimaryNameAttribute',
+  'PrimaryImageAttribute',
+  'IsActivity',
+  'IsCustomEntity',
+  'OwnershipType',
+].join(',')
+
+const metadataCache = new Map<string, Promise<ComponentFramework.PropertyHelper.EntityMetadata>>()
+
+const getLabel = (label: any): string => label?.UserLocalizedLabel?.Label ?? ''
+
+async function fetchJson(url: string): Promise<any> {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Failed to get metadata from ${url}: ${response.status}`)
+  }
+  return response.json()
+}
+
+/**
+ * Options of an option set attribute as PropertyHelper.OptionMetadata
+ */
+function toOptions(attribute: any): ComponentFramework.PropertyHelper.OptionMetadata[] {
+  const optionSet = attribute.OptionSet || attribute.GlobalOptionSet
+  if (!optionSet) {
+    return []
+  }
+
+  const options = optionSet.Options || [optionSet.FalseOption, optionSet.TrueOption].filter(Boolean)
+  return options.map((option: any) => ({
+    Label: getLabel(option.Label),
+    Value: option.Value,
+    Color: option.Color || '',
+    ...(option.State !== undefined && { State: option.State }),
+    ...(option.DefaultStatus !== undefined && { DefaultStatus: option.DefaultStatus }),
+  }))
+}
+
+/**
+ * Convert a Web API attribute definition into the shape the platform hands to controls
+ * The raw definition stays available as attributeDescriptor.
+ */
+function toAttributeMetadata(
+  attribute: any,
+  options?: ComponentFramework.PropertyHelper.OptionMetadata[]
+) {
+  const requiredLevel = REQUIRED_LEVEL_CODES[attribute.RequiredLevel?.Value] ?? -1
+  const descriptor = {
+    ...attribute,
+    DisplayName: getLabel(attribute.DisplayName),
+    Description: getLabel(attribute.Description),
+    AttributeType: ATTRIBUTE_TYPE_CODES[attribute.AttributeType] ?? -1,
+    Type: attribute.AttributeType,
+    RequiredLevel: requiredLevel,
+    ...(options && { OptionSet: options }),
+  }
+
+  return {
+    LogicalName: attribute.LogicalName,
+    DisplayName: descriptor.DisplayName,
+    Description: descriptor.Description,
+    AttributeType: descriptor.AttributeType,
+    AttributeTypeName: attribute.AttributeTypeName?.Value?.replace(/Type$/, '').toLowerCase(),
+    RequiredLevel: requiredLevel,
+    IsPrimaryId: !!attribute.IsPrimaryId,
+    IsPrimaryName: !!attribute.IsPrimaryName,
+    IsSecured: !!attribute.IsSecured,
+    // Keyed by option value like the platform, e.g. OptionSet[1].text
+    ...(options && {
+      OptionSet: Object.fromEntries(
+        options.map(option => [
+          option.Value,
+          { text: option.Label, value: option.Value, color: option.Color },
+        ])
+      ),
+    }),
+    attributeDescriptor: descriptor,
+  }
+}
+
+/**
+ * Attribute collection with the platform's get/getByName/getAll accessors
+ */
+function createAttributeCollection(attributes: ReturnType<typeof toAttributeMetadata>[]) {
+  const collection = Object.fromEntries(
+    attributes.map(attribute => [attribute.LogicalName, attribute])
+  )
+
+  return {
+    _collection: collection,
+    get: (logicalName: string) => collection[logicalName],
+    getByName: (logicalName: string) => collection[logicalName],
+    getAll: () => attributes,
+    getNames: () => Object.keys(collection),
+  }
+}
+
+async function loadEntityMetadata(
+  entityName: string,
+  attributes: string[]
+): Promise<ComponentFramework.PropertyHelper.EntityMetadata> {
+  const baseUrl = `/api/data/v9.2/EntityDefinitions(LogicalName='${entityName}')`
+  const attributeFilter =
+    attributes.length > 0
+      ? `;$filter=${attributes.map(name => `LogicalName eq '${name}'`).join(' or ')}`
+      : ''
+  const entity = await fetchJson(
+    `${baseUrl}?$select=${ENTITY_SELECT}&$expand=Attributes($select=${ATTRIBUTE_SELECT}${attributeFilter})`
+  )
+
+  // Option sets are only reachable through the typed attribute casts
+  const attributeTypes = new Set<string>(
+    (entity.Attributes || []).map((attribute: any) => attribute.AttributeType)
+  )
+  const optionsByAttribute = new Map<string, ComponentFramework.PropertyHelper.OptionMetadata[]>()
+  const castFilter =
+    attributes.length > 0
+      ? `&$filter=${attributes.map(name => `LogicalName eq '${name}'`).join(' or ')}`
+      : ''
+  await Promise.all(
+    Object.entries(OPTION_SET_CASTS)
+      .filter(([attributeType]) => attributeTypes.has(attributeType))
+      .map(async ([attributeType, cast]) => {
+        const expand =
+          attributeType === 'Picklist' || attributeType === 'Virtual'
+            ? 'OptionSet,GlobalOptionSet'
+            : 'OptionSet'
+        try {
+          const result = await fetchJson(
+            `${baseUrl}/Attributes/Microsoft.Dynamics.CRM.${cast}?$select=LogicalName&$expand=${expand}${castFilter}`
+          )
+          for (const attribute of result.value || []) {
+            optionsByAttribute.set(attribute.LogicalName, toOptions(attribute))
+          }
+        } catch (error) {
+          console.warn(`⚠️ Could not load ${cast} option sets for ${entityName}:`, error)
+        }
+      })
+  )
+
+  const attributeMetadata = (entity.Attributes || []).map((attribute: any) =>
+    toAttributeMetadata(attribute, optionsByAttribute.get(attribute.LogicalName))
+  )
+
+  return {
+    ...entity,
+    DisplayName: getLabel(entity.DisplayName),
+    DisplayCollectionName: getLabel(entity.DisplayCollectionName),
+    Description: getLabel(entity.Description),
+    OwnershipType: entity.OwnershipType,
+    Attributes: createAttributeCollection(attributeMetadata),
+  }
+}
+
+/**
+ * Mock for context.utils.getEntityMetadata
+ * Results are cached per entity and attribute list, like the platform does.
+ */
+export function getEntityMetadata(
+  entityName: string,
+  attributes: string[] = []
+): Promise<ComponentFramework.PropertyHelper.EntityMetadata> {
+  const key = `${entityName}|${[...attributes].sort().join(',')}`
+  let metadata = metadataCache.get(key)
+  if (!metadata) {
+    console.log(`🔍 Loading entity metadata for ${entityName}`, attributes)
+    metadata = loadEntityMetadata(entityName, attributes)
+    // Do not keep failures, a later call should retry
+    metadata.catch(() => metadataCache.delete(key))
+    metadataCache.set(key, metadata)
+  }
+  return metadata
+}
+
+export function clearEntityMetadataCache(): void {
+  metadataCache.clear()
+}
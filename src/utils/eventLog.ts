@@ -0,0 +1,60 @@
+/**
+ * Event Log
+ * Records calls a control makes into the platform (navigation, dataset items, ...)
+ */
+
+const MAX_EVENT_LOG_ENTRIES = 200
+let eventSequence = 0
+
+export interface HarnessEvent {
+  id: number
+  timestamp: Date
+  /** API that was called, e.g. 'navigation.openForm' */
+  type: string
+  /** Arguments the control passed */
+  details: unknown
+}
+
+type EventLogListener = (events: HarnessEvent[]) => void
+
+let events: HarnessEvent[] = []
+const listeners = new Set<EventLogListener>()
+
+function notifyListeners(): void {
+  for (const listener of listeners) {
+    listener(events)
+  }
+}
+
+/**
+ * Add an entry to the event log
+ */
+export function logHarnessEvent(type: string, details: unknown): HarnessEvent {
+  const event: HarnessEvent = { id: ++eventSequence, timestamp: new Date(), type, details }
+  events = [event, ...events].slice(0, MAX_EVENT_LOG_ENTRIES)
+  console.log(`📝 ${type}`, details)
+  notifyListeners()
+  return event
+}
+
+/**
+ * Logged events, newest first
+ */
+export function getHarnessEvents(): HarnessEvent[] {
+  return events
+}
+
+export function clearHarnessEvents(): void {
+  events = []
+  notifyListeners()
+}
+
+/**
+ * Subscribe to event log changes, returns an unsubscribe function
+ */
+export function onHarnessEvent(listener: EventLogListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
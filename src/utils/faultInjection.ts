@@ -0,0 +1,229 @@
+/**
+ * Fault Injection
+ * Fail context.webAPI and dataset requests on purpose to exercise the control's error and retry paths
+ */
+
+import { logHarnessEvent } from './eventLog'
+import type { WebApiMethod } from './webApiLog'
+
+export type FaultType =
+  | 'unauthorized'
+  | 'forbidden'
+  | 'notFound'
+  | 'throttled'
+  | 'serverError'
+  | 'latency'
+  | 'dropConnection'
+
+/** A webAPI method, or loadDataset for the dataset page queries */
+export type FaultMethod = WebApiMethod | 'loadDataset'
+
+export interface FaultRule {
+  id: number
+  enabled: boolean
+  fault: FaultType
+  /** Entity logical name, '*' for every entity */
+  entity: string
+  /** Method the fault applies to, '*' for every method */
+  method: FaultMethod | '*'
+  /** Delay before the response, defaults to 2000 ms for latency faults */
+  latencyMs?: number
+  /** Retry-After header of throttled responses, in seconds */
+  retryAfterSeconds?: number
+  /** Replaces the error.code of the Dataverse error payload */
+  errorCode?: string
+  /** Replaces the error.message of the Dataverse error payload */
+  message?: string
+  /** Fail this many matching requests and then let them through, unset fails every request */
+  remaining?: number
+}
+
+/** The request a fault rule is matched against */
+export interface FaultTarget {
+  method: FaultMethod
+  entity: string
+  recordId?: string
+}
+
+interface FaultResponse {
+  status: number
+  /** Dataverse error.code, undefined for responses without an error payload */
+  code?: string
+  message: (target: FaultTarget) => string
+}
+
+const PRIVILEGE_NAMES: Record<FaultMethod, string> = {
+  retrieveMultipleRecords: 'Read',
+  retrieveRecord: 'Read',
+  loadDataset: 'Read',
+  createRecord: 'Create',
+  updateRecord: 'Write',
+  deleteRecord: 'Delete',
+  execute: 'Write',
+}
+
+/** Status, error code and message Dataverse returns for each failure */
+const FAULT_RESPONSES: Partial<Record<FaultType, FaultResponse>> = {
+  unauthorized: {
+    status: 401,
+    message: () => 'The access token is missing, expired or invalid',
+  },
+  forbidden: {
+    status: 403,
+    code: '0x80040220',
+    message: ({ method, entity }) =>
+      `Principal user is missing prv${PRIVILEGE_NAMES[method]}${entity} privilege on entity '${entity}'`,
+  },
+  notFound: {
+    status: 404,
+    code: '0x80040217',
+    message: ({ entity, recordId }) =>
+      recordId ? `${entity} With Id = ${recordId} Does Not Exist` : `${entity} Does Not Exist`,
+  },
+  throttled: {
+    status: 429,
+    code: '0x80072322',
+    message: () => 'Number of requests exceeded the limit of 6000 over time window of 300 seconds.',
+  },
+  serverError: {
+    status: 500,
+    code: '0x80040216',
+    message: () => 'An unexpected error occurred.',
+  },
+}
+
+export const FAULT_TYPES: Array<{ value: FaultType; label: string }> = [
+  { value: 'unauthorized', label: '401 Unauthorized' },
+  { value: 'forbidden', label: '403 Missing privilege' },
+  { value: 'notFound', label: '404 Record not found' },
+  { value: 'throttled', label: '429 Throttled' },
+  { value: 'serverError', label: '500 Server error' },
+  { value: 'latency', label: 'Latency' },
+  { value: 'dropConnection', label: 'Dropped connection' },
+]
+
+const DEFAULT_LATENCY_MS = 2000
+const DEFAULT_RETRY_AFTER_SECONDS = 5
+
+type FaultRulesListener = (rules: FaultRule[]) => void
+
+let rules: FaultRule[] = []
+let ruleSequence = 0
+const listeners = new Set<FaultRulesListener>()
+
+function notifyListeners(): void {
+  for (const listener of listeners) {
+    listener(rules)
+  }
+}
+
+export function getFaultRules(): FaultRule[] {
+  return rules
+}
+
+/**
+ * Add a fault rule, enabled unless the rule says otherwise
+ */
+export function addFaultRule(
+  rule: Omit<FaultRule, 'id' | 'enabled'> & { enabled?: boolean }
+): FaultRule {
+  const added: FaultRule = { enabled: true, ...rule, id: ++ruleSequence }
+  rules = [...rules, added]
+  notifyListeners()
+  return added
+}
+
+export function updateFaultRule(id: number, changes: Partial<Omit<FaultRule, 'id'>>): void {
+  rules = rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule))
+  notifyListeners()
+}
+
+export function removeFaultRule(id: number): void {
+  rules = rules.filter(rule => rule.id !== id)
+  notifyListeners()
+}
+
+export function clearFaultRules(): void {
+  rules = []
+  notifyListeners()
+}
+
+/**
+ * Subscribe to fault rule changes, returns an unsubscribe function
+ */
+export function onFaultRulesChanged(listener: FaultRulesListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * The first enabled rule for a request, rules with no remaining failures are skipped
+ */
+export function findFaultRule(target: FaultTarget): FaultRule | undefined {
+  return rules.find(
+    rule =>
+      rule.enabled &&
+      (rule.remaining === undefined || rule.remaining > 0) &&
+      (rule.entity === '*' || rule.entity.toLowerCase() === target.entity.toLowerCase()) &&
+      (rule.method === '*' || rule.method === target.method)
+  )
+}
+
+/**
+ * The response Dataverse sends for a fault, with its error payload and headers
+ */
+export function createFaultResponse(rule: FaultRule, target: FaultTarget): Response | undefined {
+  const fault = FAULT_RESPONSES[rule.fault]
+  if (!fault) {
+    return undefined
+  }
+
+  const code = rule.errorCode ?? fault.code
+  const message = rule.message || fault.message(target)
+  const headers: Record<string, string> = {}
+  if (code !== undefined) {
+    headers['Content-Type'] = 'application/json; charset=utf-8'
+  }
+  if (rule.fault === 'unauthorized') {
+    headers['WWW-Authenticate'] = 'Bearer'
+  }
+  if (rule.fault === 'throttled') {
+    headers['Retry-After'] = String(rule.retryAfterSeconds ?? DEFAULT_RETRY_AFTER_SECONDS)
+  }
+
+  const body = code === undefined ? null : JSON.stringify({ error: { code, message } })
+  return new Response(body, { status: fault.status, statusText: message, headers })
+}
+
+/**
+ * fetch that applies the first matching fault rule to the request
+ */
+export async function fetchWithFaults(
+  target: FaultTarget,
+  url: string,
+  init?: RequestInit
+): Promise<Response> {
+  const rule = findFaultRule(target)
+  if (!rule) {
+    return fetch(url, init)
+  }
+
+  if (rule.remaining !== undefined) {
+    updateFaultRule(rule.id, { remaining: rule.remaining - 1 })
+  }
+  console.warn(`💥 Injecting ${rule.fault} into ${target.method} ${target.entity}`)
+  logHarnessEvent('webAPI.fault', { fault: rule.fault, ...target, url })
+
+  const latencyMs = rule.latencyMs ?? (rule.fault === 'latency' ? DEFAULT_LATENCY_MS : 0)
+  if (latencyMs > 0) {
+    await new Promise(resolve => setTimeout(resolve, latencyMs))
+  }
+
+  if (rule.fault === 'dropConnection') {
+    // What fetch rejects with when the connection resets
+    throw new TypeError('Failed to fetch')
+  }
+  return createFaultResponse(rule, target) ?? fetch(url, init)
+}
@@ -0,0 +1,299 @@
+/**
+ * FetchXML Query
+ * Runs FetchXML (attributes, filters, orders, link-entities, top) against plain Web API records
+ */
+
+import {
+  compareValues,
+  getAttributeValue,
+  ODataQueryError,
+  type ODataRecord,
+  selectAttributes,
+} from './odataQuery'
+
+interface XmlElement {
+  name: string
+  attributes: Record<string, string>
+  children: XmlElement[]
+  text: string
+}
+
+/** Where FetchXML finds the records and primary key of an entity */
+export interface FetchXmlSource {
+  getRecords: (entityLogicalName: string) => ODataRecord[]
+  getPrimaryIdAttribute: (entityLogicalName: string) => string
+}
+
+export interface FetchXmlResult {
+  entityName: string
+  records: ODataRecord[]
+  /** Records matching the query before top and paging */
+  totalCount: number
+  /** The page size from count, used for @odata.nextLink */
+  pageSize?: number
+  page: number
+}
+
+/** A base record with the records of each linked alias, null for unmatched outer links */
+interface FetchRow {
+  record: ODataRecord
+  links: Map<string, ODataRecord | null>
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'",
+  '&amp;': '&',
+}
+
+function decodeXml(value: string): string {
+  return value.replace(/&(lt|gt|quot|apos|amp);/g, entity => XML_ENTITIES[entity] ?? entity)
+}
+
+/**
+ * Minimal XML reader for FetchXML, the middleware runs in Node without DOMParser
+ */
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' }
+  const stack = [root]
+  const tagPattern =
+    /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<(\/?)([\w:-]+)((?:\s+[\w:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g
+
+  for (const match of xml.matchAll(tagPattern)) {
+    const [token, closing, name, attributeText = '', selfClosing, text] = match
+    const parent = stack[stack.length - 1] as XmlElement
+    if (text !== undefined) {
+      parent.text += decodeXml(text.trim())
+    } else if (!name || token.startsWith('<!--') || token.startsWith('<?')) {
+      // Comments and declarations carry no query
+    } else if (closing) {
+      if (parent.name !== name) {
+        throw new ODataQueryError(`Malformed FetchXML: unexpected </${name}>`)
+      }
+      stack.pop()
+    } else {
+      const element: XmlElement = { name, attributes: {}, children: [], text: '' }
+      for (const [, key, quotedValue] of attributeText.matchAll(
+        /([\w:-]+)\s*=\s*("[^"]*"|'[^']*')/g
+      )) {
+        element.attributes[key as string] = decodeXml((quotedValue as string).slice(1, -1))
+      }
+      parent.children.push(element)
+      if (!selfClosing) {
+        stack.push(element)
+      }
+    }
+  }
+
+  if (stack.length !== 1) {
+    throw new ODataQueryError(
+      `Malformed FetchXML: <${stack[stack.length - 1]?.name}> is not closed`
+    )
+  }
+  return root
+}
+
+function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter(child => child.name === name)
+}
+
+function likeToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('%')
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/_/g, '.'))
+    .join('.*')
+  return new RegExp(`^${source}$`, 'i')
+}
+
+/**
+ * Match one condition, values are compared with the same rules as $filter
+ */
+function matchesCondition(value: unknown, condition: XmlElement): boolean {
+  const operator = condition.attributes.operator || 'eq'
+  const values =
+    condition.children.length > 0
+      ? childElements(condition, 'value').map(child => child.text)
+      : [condition.attributes.value ?? '']
+  const expected = values[0]
+  const isSet = value !== null && value !== undefined && value !== ''
+  const order = compareValues(value, expected)
+
+  switch (operator) {
+    case 'eq':
+      return isSet && order === 0
+    case 'ne':
+    case 'neq':
+      return !isSet || order !== 0
+    case 'gt':
+      return isSet && order > 0
+    case 'ge':
+      return isSet && order >= 0
+    case 'lt':
+      return isSet && order < 0
+    case 'le':
+      return isSet && order <= 0
+    case 'null':
+      return !isSet
+    case 'not-null':
+      return isSet
+    case 'in':
+      return isSet && values.some(candidate => compareValues(value, candidate) === 0)
+    case 'not-in':
+      return !isSet || values.every(candidate => compareValues(value, candidate) !== 0)
+    case 'like':
+      return isSet && likeToRegExp(String(expected)).test(String(value))
+    case 'not-like':
+      return !isSet || !likeToRegExp(String(expected)).test(String(value))
+    case 'begins-with':
+      return isSet && String(value).toLowerCase().startsWith(String(expected).toLowerCase())
+    case 'ends-with':
+      return isSet && String(value).toLowerCase().endsWith(String(expected).toLowerCase())
+    case 'between':
+      return isSet && compareValues(value, values[0]) >= 0 && compareValues(value, values[1]) <= 0
+    default:
+      throw new ODataQueryError(`The FetchXML operator "${operator}" is not supported offline`)
+  }
+}
+
+/**
+ * Evaluate a <filter>, conditions with entityname read from a linked alias
+ */
+function matchesFilter(row: FetchRow, filter: XmlElement, alias?: string): boolean {
+  const results = filter.children
+    .filter(child => child.name === 'condition' || child.name === 'filter')
+    .map(child => {
+      if (child.name === 'filter') {
+        return matchesFilter(row, child, alias)
+      }
+      const entityAlias = child.attributes.entityname || alias
+      const source = entityAlias ? row.links.get(entityAlias) : row.record
+      const value = source ? getAttributeValue(source, child.attributes.attribute || '') : null
+      return matchesCondition(value, child)
+    })
+  return filter.attributes.type === 'or'
+    ? results.length === 0 || results.some(Boolean)
+    : results.every(Boolean)
+}
+
+/**
+ * Join the link-entity records into each row, inner links drop rows without a match
+ */
+function joinLinks(
+  rows: FetchRow[],
+  parent: XmlElement,
+  parentAlias: string | undefined,
+  source: FetchXmlSource
+): FetchRow[] {
+  let result = rows
+  for (const link of childElements(parent, 'link-entity')) {
+    const { name = '', from = '', to = '' } = link.attributes
+    const alias = link.attributes.alias || name
+    const outer = link.attributes['link-type'] === 'outer'
+    const linkedRecords = source.getRecords(name)
+
+    result = result.flatMap(row => {
+      const parentRecord = parentAlias ? row.links.get(parentAlias) : row.record
+      const key = parentRecord ? getAttributeValue(parentRecord, to) : undefined
+      const matches = linkedRecords
+        .filter(linked => key != null && compareValues(getAttributeValue(linked, from), key) === 0)
+        .map(linked => ({ record: row.record, links: new Map(row.links).set(alias, linked) }))
+        .filter(candidate =>
+          childElements(link, 'filter').every(filter => matchesFilter(candidate, filter, alias))
+        )
+      const joined = joinLinks(matches, link, alias, source)
+      if (joined.length === 0 && outer) {
+        return [{ record: row.record, links: new Map(row.links).set(alias, null) }]
+      }
+      return joined
+    })
+  }
+  return result
+}
+
+function selectLinkedAttributes(row: FetchRow, parent: XmlElement, result: ODataRecord): void {
+  for (const link of childElements(parent, 'link-entity')) {
+    const alias = link.attributes.alias || link.attributes.name || ''
+    const linked = row.links.get(alias)
+    const names = childElements(link, 'attribute').map(attribute => attribute.attributes.name || '')
+    if (linked && names.length > 0) {
+      for (const [key, value] of Object.entries(selectAttributes(linked, names))) {
+        if (!key.startsWith('@odata.')) {
+          result[`${alias}.${key}`] = value
+        }
+      }
+    }
+    selectLinkedAttributes(row, link, result)
+  }
+}
+
+/**
+ * Run a FetchXML query, aggregate queries are not supported
+ */
+export function runFetchXml(fetchXml: string, source: FetchXmlSource): FetchXmlResult {
+  const fetch = childElements(parseXml(fetchXml), 'fetch')[0]
+  const entity = fetch && childElements(fetch, 'entity')[0]
+  if (!fetch || !entity) {
+    throw new ODataQueryError('FetchXML needs a <fetch> element with an <entity>')
+  }
+  if (fetch.attributes.aggregate === 'true') {
+    throw new ODataQueryError('Aggregate FetchXML is not supported offline')
+  }
+
+  const entityName = entity.attributes.name || ''
+  const primaryId = source.getPrimaryIdAttribute(entityName)
+  let rows: FetchRow[] = source
+    .getRecords(entityName)
+    .map(record => ({ record, links: new Map<string, ODataRecord | null>() }))
+  rows = joinLinks(rows, entity, undefined, source)
+  rows = rows.filter(row =>
+    childElements(entity, 'filter').every(filter => matchesFilter(row, filter))
+  )
+
+  const orders = childElements(entity, 'order')
+  if (orders.length > 0) {
+    rows = [...rows].sort((left, right) => {
+      for (const order of orders) {
+        const alias = order.attributes.entityname
+        const attribute = order.attributes.attribute || ''
+        const leftSource = alias ? left.links.get(alias) : left.record
+        const rightSource = alias ? right.links.get(alias) : right.record
+        const result = compareValues(
+          leftSource ? getAttributeValue(leftSource, attribute) : null,
+          rightSource ? getAttributeValue(rightSource, attribute) : null
+        )
+        if (result !== 0) {
+          return order.attributes.descending === 'true' ? -result : result
+        }
+      }
+      return 0
+    })
+  }
+
+  const totalCount = rows.length
+  const top = Number.parseInt(fetch.attributes.top || '', 10)
+  const pageSize = Number.parseInt(fetch.attributes.count || '', 10)
+  const page = Number.parseInt(fetch.attributes.page || '1', 10)
+  if (!Number.isNaN(top)) {
+    rows = rows.slice(0, top)
+  } else if (!Number.isNaN(pageSize)) {
+    rows = rows.slice((page - 1) * pageSize, page * pageSize)
+  }
+
+  const allAttributes = childElements(entity, 'all-attributes').length > 0
+  const names = childElements(entity, 'attribute').map(attribute => attribute.attributes.name || '')
+  const records = rows.map(row => {
+    const result = selectAttributes(row.record, allAttributes ? undefined : names, [primaryId])
+    selectLinkedAttributes(row, entity, result)
+    return result
+  })
+
+  return {
+    entityName,
+    records,
+    totalCount,
+    pageSize: Number.isNaN(pageSize) ? undefined : pageSize,
+    page,
+  }
+}
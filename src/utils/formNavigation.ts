@@ -0,0 +1,72 @@
+/**
+ * Form Navigation
+ * Simulates openDatasetItem and navigation.openForm: logs the call and optionally opens a form preview
+ */
+
+import { logHarnessEvent } from './eventLog'
+
+export interface FormPreviewRequest {
+  entityName: string
+  entityId?: string
+  /** Form options the control passed to openForm */
+  options?: ComponentFramework.NavigationApi.EntityFormOptions
+}
+
+type FormPreviewListener = (request: FormPreviewRequest) => void
+
+let formPreviewEnabled = import.meta.env.VITE_PCF_FORM_PREVIEW === 'true'
+const listeners = new Set<FormPreviewListener>()
+
+export function isFormPreviewEnabled(): boolean {
+  return formPreviewEnabled
+}
+
+export function setFormPreviewEnabled(enabled: boolean): void {
+  formPreviewEnabled = enabled
+}
+
+/**
+ * Subscribe to form preview requests, returns an unsubscribe function
+ */
+export function onFormPreviewRequested(listener: FormPreviewListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+function requestFormPreview(request: FormPreviewRequest): void {
+  if (!formPreviewEnabled) {
+    return
+  }
+  for (const listener of listeners) {
+    listener(request)
+  }
+}
+
+/**
+ * Mock for context.navigation.openForm
+ */
+export function simulateOpenForm(
+  options: ComponentFramework.NavigationApi.EntityFormOptions,
+  parameters?: { [key: string]: string }
+): Promise<ComponentFramework.NavigationApi.OpenFormSuccessResponse> {
+  logHarnessEvent('navigation.openForm', { options, parameters })
+  requestFormPreview({ entityName: options.entityName, entityId: options.entityId, options })
+  return Promise.resolve({ savedEntityReference: [] })
+}
+
+/**
+ * Mock for dataset.openDatasetItem
+ */
+export function simulateOpenDatasetItem(
+  datasetName: string,
+  entityTargetType: string,
+  entityReference: ComponentFramework.EntityReference
+): void {
+  logHarnessEvent('dataset.openDatasetItem', { dataset: datasetName, entityReference })
+  requestFormPreview({
+    entityName: entityReference?.etn || entityTargetType,
+    entityId: entityReference?.id?.guid,
+  })
+}
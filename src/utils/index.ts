@@ -2,9 +2,95 @@
  * Utility functions for PCF development
  */
 
+// Form factor, client and network state (context.client)
+export type { ClientEnvironment, ClientName } from './clientEnvironment'
+export {
+  getClientEnvironment,
+  onClientEnvironmentChanged,
+  setClientEnvironment,
+} from './clientEnvironment'
+// Container size (context.mode.trackContainerResize)
+export type { ViewportPreset } from './containerResize'
+export { isContainerResizeTracked, VIEWPORT_PRESETS } from './containerResize'
+// Disabled mode, form read-only mode and field security
+export type { ControlAccessState, PropertySecurity } from './controlAccess'
+export {
+  getControlAccess,
+  onControlAccessChanged,
+  setControlAccess,
+  setPropertySecurity,
+} from './controlAccess'
+// Manifest events (context.events) and mock form scripts
+export type {
+  ControlEventHandler,
+  FormScript,
+  MockExecutionContext,
+  MockFormControl,
+} from './controlEvents'
+export {
+  addFormScriptEventHandler,
+  raiseControlEvent,
+  registerFormScript,
+  removeFormScriptEventHandler,
+} from './controlEvents'
+// Control state (context.mode.setControlState)
+export {
+  clearControlState,
+  getControlId,
+  loadControlState,
+  saveControlState,
+} from './controlState'
+// Dataset paging, sorting and filtering
+export { buildDatasetFetchXml, refreshDataset } from './datasetQuery'
+// Device file picker and capture fixtures (context.device)
+export type { DeviceFileFixture, DeviceFixtures } from './deviceMocks'
+export { getDeviceFixtures, readFileObject, setDeviceFixtures } from './deviceMocks'
+// Entity metadata (context.utils.getEntityMetadata)
+export { clearEntityMetadataCache, getEntityMetadata } from './entityMetadata'
+// Platform call log
+export type { HarnessEvent } from './eventLog'
+export { clearHarnessEvents, getHarnessEvents, logHarnessEvent, onHarnessEvent } from './eventLog'
+// Fault injection for context.webAPI and dataset loads
+export type { FaultMethod, FaultRule, FaultTarget, FaultType } from './faultInjection'
+export {
+  addFaultRule,
+  clearFaultRules,
+  FAULT_TYPES,
+  getFaultRules,
+  onFaultRulesChanged,
+  removeFaultRule,
+  updateFaultRule,
+} from './faultInjection'
+// Form navigation (context.navigation.openForm)
+export type { FormPreviewRequest } from './formNavigation'
+export { isFormPreviewEnabled, setFormPreviewEnabled } from './formNavigation'
+// Locale-aware context.formatting
+export type { LocalePreset, UserLocaleOptions } from './localeFormatting'
+export {
+  createDateFormattingInfo,
+  createMockFormatting,
+  createNumberFormattingInfo,
+  formatDatePattern,
+  LOCALE_PRESETS,
+  setUserLocale,
+} from './localeFormatting'
+// Lookup dialog (context.utils.lookupObjects)
+export type { LookupRequest } from './lookupObjects'
+export { onLookupRequested, simulateLookupObjects } from './lookupObjects'
 // Convenience functions for common tasks
 export * from './manifestExtractor'
 export * from './manifestReader'
+// Alert, confirm and error dialogs (context.navigation)
+export type { DialogKind, DialogRequest } from './navigationDialogs'
+export {
+  clearDialogResponses,
+  getQueuedDialogResponses,
+  isScriptedDialogsEnabled,
+  queueDialogResponses,
+  setScriptedDialogsEnabled,
+} from './navigationDialogs'
+// openUrl, openWebResource and openFile
+export { getWebResourceUrl, isOpenLinksEnabled, setOpenLinksEnabled } from './navigationLinks'
 // PCF Discovery
 export type {
   EntityTypeCode,
@@ -21,14 +107,25 @@ export {
   parseFormXmlForPCF,
   parsePCFManifest,
 } from './pcfDiscovery'
-
+// Popups (context.factory.getPopupService)
+export type { HarnessPopup } from './popupService'
+export { createMockPopupService } from './popupService'
+// Manifest property mocks
+export type { MockPropertyOptions, PropertyAttributes } from './propertyMocks'
+export {
+  createMockProperties,
+  createMockProperty,
+  formatPropertyValue,
+  getPropertyType,
+  parsePropertyValue,
+  reformatMockProperties,
+} from './propertyMocks'
 // Record Retrieval
 export type {
   PaginatedRecordResult,
   RecordRetrievalOptions,
   RecordRetrievalResult,
 } from './recordRetrieval'
-
 export {
   executeFetchXml,
   executeViewQuery,
@@ -39,6 +136,34 @@ export {
   getRecordsForUserView,
   getRecordsForView,
 } from './recordRetrieval'
+// Manifest resources (context.resources)
+export type { ResourceFiles } from './resourceMocks'
+export {
+  createMockResources,
+  getResourceLanguages,
+  getResxLanguage,
+  parseResx,
+} from './resourceMocks'
+
+// User personas (userSettings, locale and roles)
+export type { UserPersona } from './userPersonas'
+export {
+  getActivePersona,
+  getPersonas,
+  loadSignedInUser,
+  SIGNED_IN_PERSONA,
+  setPersonas,
+  switchPersona,
+} from './userPersonas'
+// Current user's roles and privileges
+export type { UserSecurityInfo } from './userPrivileges'
+export {
+  getUserSecurity,
+  hasEntityPrivilege,
+  loadRoleSecurity,
+  loadUserSecurity,
+  whenUserSecurityLoaded,
+} from './userPrivileges'
 
 // View Analysis
 export type {
@@ -74,3 +199,22 @@ export {
   getViewById,
   searchViewsByName,
 } from './viewDiscovery'
+// context.webAPI call log
+export type { WebApiCall, WebApiMethod } from './webApiLog'
+export {
+  clearWebApiCalls,
+  decodeFetchXml,
+  getWebApiCalls,
+  onWebApiCallsChanged,
+  toCurlCommand,
+  toFetchStatement,
+} from './webApiLog'
+// context.webAPI execute and executeMultiple requests
+export type {
+  ExecuteRequest,
+  ExecuteRequestMetadata,
+  ExecuteRequestParameterType,
+  HarnessWebApi,
+  WebApiRequest,
+} from './webApiRequests'
+export { buildExecuteRequests } from './webApiRequests'
@@ -0,0 +1,549 @@
+/**
+ * Locale Formatting
+ * context.formatting implementation driven by userSettings number and date formatting info,
+ * with presets for common LCIDs and a user time zone offset
+ */
+
+type DateFormattingInfo = ComponentFramework.UserSettingApi.DateFormattingInfo
+type NumberFormattingInfo = ComponentFramework.UserSettingApi.NumberFormattingInfo
+type DateTimeFieldBehavior = ComponentFramework.FormattingApi.Types.DateTimeFieldBehavior
+
+export interface LocalePreset {
+  lcid: number
+  /** BCP 47 tag used to generate month and day names */
+  locale: string
+  displayName: string
+  isRTL: boolean
+  number: Partial<NumberFormattingInfo>
+  date: Partial<DateFormattingInfo>
+}
+
+const NARROW_NO_BREAK_SPACE = ' '
+const NO_BREAK_SPACE = ' '
+
+export const LOCALE_PRESETS: Record<number, LocalePreset> = {
+  1033: {
+    lcid: 1033,
+    locale: 'en-US',
+    displayName: 'English (United States)',
+    isRTL: false,
+    number: {
+      currencySymbol: '$',
+      currencyDecimalDigits: 2,
+      currencyPositivePattern: 0,
+      currencyNegativePattern: 0,
+      numberDecimalSeparator: '.',
+      numberGroupSeparator: ',',
+      numberNegativePattern: 1,
+    },
+    date: {
+      shortDatePattern: 'M/d/yyyy',
+      longDatePattern: 'dddd, MMMM d, yyyy',
+      shortTimePattern: 'h:mm tt',
+      longTimePattern: 'h:mm:ss tt',
+      fullDateTimePattern: 'dddd, MMMM d, yyyy h:mm:ss tt',
+      monthDayPattern: 'MMMM d',
+      yearMonthPattern: 'MMMM yyyy',
+      dateSeparator: '/',
+      amDesignator: 'AM',
+      pmDesignator: 'PM',
+      firstDayOfWeek: 0,
+      calendarWeekRule: 0,
+    },
+  },
+  1044: {
+    lcid: 1044,
+    locale: 'nb-NO',
+    displayName: 'Norwegian Bokmål (Norway)',
+    isRTL: false,
+    number: {
+      currencySymbol: 'kr',
+      currencyDecimalDigits: 2,
+      currencyPositivePattern: 3,
+      currencyNegativePattern: 8,
+      numberDecimalSeparator: ',',
+      numberGroupSeparator: NO_BREAK_SPACE,
+      numberNegativePattern: 1,
+    },
+    date: {
+      shortDatePattern: 'dd.MM.yyyy',
+      longDatePattern: 'd. MMMM yyyy',
+      shortTimePattern: 'HH:mm',
+      longTimePattern: 'HH:mm:ss',
+      fullDateTimePattern: 'd. MMMM yyyy HH:mm:ss',
+      monthDayPattern: 'd. MMMM',
+      yearMonthPattern: 'MMMM yyyy',
+      dateSeparator: '.',
+      amDesignator: 'a.m.',
+      pmDesignator: 'p.m.',
+      firstDayOfWeek: 1,
+      calendarWeekRule: 2,
+    },
+  },
+  1031: {
+    lcid: 1031,
+    locale: 'de-DE',
+    displayName: 'German (Germany)',
+    isRTL: false,
+    number: {
+      currencySymbol: '€',
+      currencyDecimalDigits: 2,
+      currencyPositivePattern: 3,
+      currencyNegativePattern: 8,
+      numberDecimalSeparator: ',',
+      numberGroupSeparator: '.',
+      numberNegativePattern: 1,
+    },
+    date: {
+      shortDatePattern: 'dd.MM.yyyy',
+      longDatePattern: 'dddd, d. MMMM yyyy',
+      shortTimePattern: 'HH:mm',
+      longTimePattern: 'HH:mm:ss',
+      fullDateTimePattern: 'dddd, d. MMMM yyyy HH:mm:ss',
+      monthDayPattern: 'd. MMMM',
+      yearMonthPattern: 'MMMM yyyy',
+      dateSeparator: '.',
+      amDesignator: 'AM',
+      pmDesignator: 'PM',
+      firstDayOfWeek: 1,
+      calendarWeekRule: 2,
+    },
+  },
+  1036: {
+    lcid: 1036,
+    locale: 'fr-FR',
+    displayName: 'French (France)',
+    isRTL: false,
+    number: {
+      currencySymbol: '€',
+      currencyDecimalDigits: 2,
+      currencyPositivePattern: 3,
+      currencyNegativePattern: 8,
+      numberDecimalSeparator: ',',
+      numberGroupSeparator: NARROW_NO_BREAK_SPACE,
+      numberNegativePattern: 1,
+    },
+    date: {
+      shortDatePattern: 'dd/MM/yyyy',
+      longDatePattern: 'dddd d MMMM yyyy',
+      shortTimePattern: 'HH:mm',
+      longTimePattern: 'HH:mm:ss',
+      fullDateTimePattern: 'dddd d MMMM yyyy HH:mm:ss',
+      monthDayPattern: 'd MMMM',
+      yearMonthPattern: 'MMMM yyyy',
+      dateSeparator: '/',
+      amDesignator: 'AM',
+      pmDesignator: 'PM',
+      firstDayOfWeek: 1,
+      calendarWeekRule: 2,
+    },
+  },
+  1041: {
+    lcid: 1041,
+    locale: 'ja-JP',
+    displayName: 'Japanese (Japan)',
+    isRTL: false,
+    number: {
+      currencySymbol: '¥',
+      currencyDecimalDigits: 0,
+      currencyPositivePattern: 0,
+      currencyNegativePattern: 1,
+      numberDecimalSeparator: '.',
+      numberGroupSeparator: ',',
+      numberNegativePattern: 1,
+    },
+    date: {
+      shortDatePattern: 'yyyy/MM/dd',
+      longDatePattern: 'yyyy年M月d日',
+      shortTimePattern: 'H:mm',
+      longTimePattern: 'H:mm:ss',
+      fullDateTimePattern: 'yyyy年M月d日 H:mm:ss',
+      monthDayPattern: 'M月d日',
+      yearMonthPattern: 'yyyy年M月',
+      dateSeparator: '/',
+      amDesignator: '午前',
+      pmDesignator: '午後',
+      firstDayOfWeek: 0,
+      calendarWeekRule: 0,
+    },
+  },
+}
+
+export const DEFAULT_LCID = 1033
+
+/**
+ * Month and day names for a locale, in the .NET layout (13 months, Sunday first)
+ */
+function getCalendarNames(locale: string) {
+  const names = (options: Intl.DateTimeFormatOptions, dates: Date[]) => {
+    const formatter = new Intl.DateTimeFormat(locale, { ...options, timeZone: 'UTC' })
+    return dates.map(date => formatter.format(date))
+  }
+  const months = Array.from({ length: 12 }, (_, month) => new Date(Date.UTC(2024, month, 1)))
+  // 7 January 2024 is a Sunday
+  const days = Array.from({ length: 7 }, (_, day) => new Date(Date.UTC(2024, 0, 7 + day)))
+  const monthNames = [...names({ month: 'long' }, months), '']
+  const abbreviatedMonthNames = [...names({ month: 'short' }, months), '']
+  const abbreviatedDayNames = names({ weekday: 'short' }, days)
+
+  return {
+    monthNames,
+    monthGenitiveNames: monthNames,
+    abbreviatedMonthNames,
+    abbreviatedMonthGenitiveNames: abbreviatedMonthNames,
+    dayNames: names({ weekday: 'long' }, days),
+    abbreviatedDayNames,
+    shortestDayNames: abbreviatedDayNames.map(name => name.replace('.', '').slice(0, 2)),
+  }
+}
+
+/**
+ * Build the full userSettings.numberFormattingInfo for an LCID
+ */
+export function createNumberFormattingInfo(lcid: number): NumberFormattingInfo {
+  const preset = LOCALE_PRESETS[lcid] || (LOCALE_PRESETS[DEFAULT_LCID] as LocalePreset)
+  const { numberDecimalSeparator = '.', numberGroupSeparator = ',' } = preset.number
+
+  return {
+    currencyDecimalDigits: 2,
+    currencyDecimalSeparator: numberDecimalSeparator,
+    currencyGroupSeparator: numberGroupSeparator,
+    currencyGroupSizes: [3],
+    currencyNegativePattern: 0,
+    currencyPositivePattern: 0,
+    currencySymbol: '$',
+    nanSymbol: 'NaN',
+    nativeDigits: ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'],
+    negativeInfinitySymbol: '-∞',
+    negativeSign: '-',
+    numberDecimalDigits: 2,
+    numberDecimalSeparator,
+    numberGroupSeparator,
+    numberGroupSizes: [3],
+    numberNegativePattern: 1,
+    perMilleSymbol: '‰',
+    percentDecimalDigits: 2,
+    percentDecimalSeparator: numberDecimalSeparator,
+    percentGroupSeparator: numberGroupSeparator,
+    percentGroupSizes: [3],
+    percentNegativePattern: 0,
+    percentPositivePattern: 0,
+    percentSymbol: '%',
+    positiveInfinitySymbol: '∞',
+    positiveSign: '+',
+    ...preset.number,
+  }
+}
+
+/**
+ * Build the full userSettings.dateFormattingInfo for an LCID
+ */
+export function createDateFormattingInfo(lcid: number): DateFormattingInfo {
+  const preset = LOCALE_PRESETS[lcid] || (LOCALE_PRESETS[DEFAULT_LCID] as LocalePreset)
+
+  return {
+    ...getCalendarNames(preset.locale),
+    amDesignator: 'AM',
+    pmDesignator: 'PM',
+    calendar: {
+      minSupportedDateTime: new Date(Date.UTC(1, 0, 1)),
+      maxSupportedDateTime: new Date(Date.UTC(9999, 11, 31, 23, 59, 59)),
+      algorithmType: 1,
+      calendarType: 1,
+      twoDigitYearMax: 2049,
+    },
+    calendarWeekRule: 0,
+    dateSeparator: '/',
+    firstDayOfWeek: 0,
+    fullDateTimePattern: '',
+    longDatePattern: '',
+    longTimePattern: '',
+    monthDayPattern: '',
+    shortDatePattern: '',
+    shortTimePattern: '',
+    sortableDateTimePattern: "yyyy'-'MM'-'dd'T'HH':'mm':'ss",
+    timeSeparator: ':',
+    universalSortableDateTimePattern: "yyyy'-'MM'-'dd HH':'mm':'ss'Z'",
+    yearMonthPattern: '',
+    ...preset.date,
+  } as DateFormattingInfo
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0')
+
+/**
+ * Format a date with a .NET custom date/time pattern
+ */
+export function formatDatePattern(value: Date, pattern: string, info: DateFormattingInfo): string {
+  const tokens =
+    /'[^']*'|"[^"]*"|\\.|yyyy|yy|y|MMMM|MMM|MM|M|dddd|ddd|dd|d|HH|H|hh|h|mm|m|ss|s|tt|t|fff|ff|f|\/|:/g
+  const hours = value.getHours()
+  const designator = hours < 12 ? info.amDesignator : info.pmDesignator
+
+  return pattern.replace(tokens, token => {
+    switch (token) {
+      case 'yyyy':
+        return pad(value.getFullYear(), 4)
+      case 'yy':
+        return pad(value.getFullYear() % 100)
+      case 'y':
+        return String(value.getFullYear() % 100)
+      case 'MMMM':
+        return info.monthNames[value.getMonth()] ?? ''
+      case 'MMM':
+        return info.abbreviatedMonthNames[value.getMonth()] ?? ''
+      case 'MM':
+        return pad(value.getMonth() + 1)
+      case 'M':
+        return String(value.getMonth() + 1)
+      case 'dddd':
+        return info.dayNames[value.getDay()] ?? ''
+      case 'ddd':
+        return info.abbreviatedDayNames[value.getDay()] ?? ''
+      case 'dd':
+        return pad(value.getDate())
+      case 'd':
+        return String(value.getDate())
+      case 'HH':
+        return pad(hours)
+      case 'H':
+        return String(hours)
+      case 'hh':
+        return pad(hours % 12 || 12)
+      case 'h':
+        return String(hours % 12 || 12)
+      case 'mm':
+        return pad(value.getMinutes())
+      case 'm':
+        return String(value.getMinutes())
+      case 'ss':
+        return pad(value.getSeconds())
+      case 's':
+        return String(value.getSeconds())
+      case 'tt':
+        return designator
+      case 't':
+        return designator.charAt(0)
+      case 'fff':
+        return pad(value.getMilliseconds(), 3)
+      case 'ff':
+        return pad(Math.floor(value.getMilliseconds() / 10))
+      case 'f':
+        return String(Math.floor(value.getMilliseconds() / 100))
+      case '/':
+        return info.dateSeparator
+      case ':':
+        return info.timeSeparator
+      default:
+        // Quoted literals and escaped characters
+        return token.startsWith('\\') ? token.slice(1) : token.slice(1, -1)
+    }
+  })
+}
+
+/**
+ * Format the absolute value of a number with grouping and a fixed number of decimals
+ */
+function formatDigits(
+  value: number,
+  decimals: number,
+  decimalSeparator: string,
+  groupSeparator: string,
+  groupSizes: number[]
+): string {
+  const [integerPart = '0', fractionPart] = Math.abs(value).toFixed(decimals).split('.')
+  const groups: string[] = []
+  let remaining = integerPart
+  let sizeIndex = 0
+
+  while (remaining.length > 0) {
+    const size = groupSizes[Math.min(sizeIndex, groupSizes.length - 1)] || 0
+    if (size === 0 || remaining.length <= size) {
+      groups.unshift(remaining)
+      break
+    }
+    groups.unshift(remaining.slice(-size))
+    remaining = remaining.slice(0, -size)
+    sizeIndex++
+  }
+
+  const grouped = groups.join(groupSeparator)
+  return fractionPart ? `${grouped}${decimalSeparator}${fractionPart}` : grouped
+}
+
+const NUMBER_NEGATIVE_PATTERNS = ['(n)', '-n', '- n', 'n-', 'n -']
+const CURRENCY_POSITIVE_PATTERNS = ['$n', 'n$', '$ n', 'n $']
+const CURRENCY_NEGATIVE_PATTERNS = [
+  '($n)',
+  '-$n',
+  '$-n',
+  '$n-',
+  '(n$)',
+  '-n$',
+  'n-$',
+  'n$-',
+  '-n $',
+  '-$ n',
+  'n $-',
+  '$ n-',
+  '$ -n',
+  'n- $',
+  '($ n)',
+  '(n $)',
+]
+
+function applyPattern(pattern: string, digits: string, info: NumberFormattingInfo, symbol = '') {
+  return pattern.replace('-', info.negativeSign).replace('n', digits).replace('$', symbol)
+}
+
+/**
+ * Time zone helpers: the user offset is fixed per preset, there is no daylight saving switch
+ */
+function toUserDate(value: Date, offsetMinutes: number): Date {
+  return new Date(value.getTime() + (offsetMinutes + value.getTimezoneOffset()) * 60000)
+}
+
+function fromUserDate(value: Date, offsetMinutes: number): Date {
+  return new Date(value.getTime() - (offsetMinutes + value.getTimezoneOffset()) * 60000)
+}
+
+/**
+ * ISO 8601 week number
+ */
+function getIsoWeek(value: Date): number {
+  const date = new Date(Date.UTC(value.getFullYear(), value.getMonth(), value.getDate()))
+  const day = date.getUTCDay() || 7
+  date.setUTCDate(date.getUTCDate() + 4 - day)
+  const yearStart = new Date(Date.UTC(date.getUTCFullYear(), 0, 1))
+  return Math.ceil(((date.getTime() - yearStart.getTime()) / 86400000 + 1) / 7)
+}
+
+/**
+ * Create context.formatting, reading the current userSettings on every call
+ * so a runtime locale switch applies immediately.
+ */
+export function createMockFormatting(
+  getUserSettings: () => ComponentFramework.UserSettings
+): ComponentFramework.Formatting & {
+  formatUserDateTimeToUTC: (userDateTime: Date, behavior?: DateTimeFieldBehavior) => string
+  formatUTCDateTimeToUserDate: (utcDateTime: Date, behavior?: DateTimeFieldBehavior) => Date
+} {
+  const numberInfo = () => getUserSettings().numberFormattingInfo
+  const dateInfo = () => getUserSettings().dateFormattingInfo
+  const offset = (date?: Date) => getUserSettings().getTimeZoneOffsetMinutes(date)
+
+  const formatNumber = (value: number, decimals: number) => {
+    const info = numberInfo()
+    const digits = formatDigits(
+      value,
+      decimals,
+      info.numberDecimalSeparator,
+      info.numberGroupSeparator,
+      info.numberGroupSizes
+    )
+    return value < 0
+      ? applyPattern(NUMBER_NEGATIVE_PATTERNS[info.numberNegativePattern] || '-n', digits, info)
+      : digits
+  }
+
+  return {
+    formatCurrency: (value: number, precision?: number, symbol?: string) => {
+      const info = numberInfo()
+      const digits = formatDigits(
+        value,
+        precision ?? info.currencyDecimalDigits,
+        info.currencyDecimalSeparator,
+        info.currencyGroupSeparator,
+        info.currencyGroupSizes
+      )
+      const pattern =
+        value < 0
+          ? CURRENCY_NEGATIVE_PATTERNS[info.currencyNegativePattern] || '-$n'
+          : CURRENCY_POSITIVE_PATTERNS[info.currencyPositivePattern] || '$n'
+      return applyPattern(pattern, digits, info, symbol ?? info.currencySymbol)
+    },
+    formatDecimal: (value: number, precision?: number) =>
+      formatNumber(value, precision ?? numberInfo().numberDecimalDigits),
+    formatInteger: (value: number) => formatNumber(Math.round(value), 0),
+    formatDateAsFilterStringInUTC: (value: Date, includeTime?: boolean) => {
+      const date = `${pad(value.getUTCFullYear(), 4)}-${pad(value.getUTCMonth() + 1)}-${pad(value.getUTCDate())}`
+      return includeTime
+        ? `${date}T${pad(value.getUTCHours())}:${pad(value.getUTCMinutes())}:${pad(value.getUTCSeconds())}Z`
+        : date
+    },
+    formatDateLong: (value: Date) =>
+      formatDatePattern(value, dateInfo().longDatePattern, dateInfo()),
+    formatDateLongAbbreviated: (value: Date) =>
+      formatDatePattern(
+        value,
+        dateInfo().longDatePattern.replace('dddd', 'ddd').replace('MMMM', 'MMM'),
+        dateInfo()
+      ),
+    formatDateShort: (value: Date, includeTime?: boolean) => {
+      const info = dateInfo()
+      const pattern = includeTime
+        ? `${info.shortDatePattern} ${info.shortTimePattern}`
+        : info.shortDatePattern
+      return formatDatePattern(value, pattern, info)
+    },
+    formatDateYearMonth: (value: Date) =>
+      formatDatePattern(value, dateInfo().yearMonthPattern, dateInfo()),
+    formatLanguage: (value: number) => LOCALE_PRESETS[value]?.displayName ?? String(value),
+    formatTime: (value: Date, behavior: DateTimeFieldBehavior) => {
+      // User local values are stored as UTC and shown in the user's time zone
+      const date = behavior === 1 ? toUserDate(value, offset(value)) : value
+      return formatDatePattern(date, dateInfo().shortTimePattern, dateInfo())
+    },
+    getWeekOfYear: (value: Date) => getIsoWeek(value),
+    formatUserDateTimeToUTC: (userDateTime: Date, behavior: DateTimeFieldBehavior = 1) => {
+      if (behavior === 2) {
+        return formatDatePattern(userDateTime, "yyyy'-'MM'-'dd", dateInfo())
+      }
+      if (behavior === 3) {
+        return formatDatePattern(userDateTime, dateInfo().sortableDateTimePattern, dateInfo())
+      }
+      const utc = fromUserDate(userDateTime, offset(userDateTime))
+      return `${utc.toISOString().split('.')[0]}Z`
+    },
+    formatUTCDateTimeToUserDate: (utcDateTime: Date, behavior: DateTimeFieldBehavior = 1) =>
+      behavior === 1 ? toUserDate(utcDateTime, offset(utcDateTime)) : new Date(utcDateTime),
+  }
+}
+
+export interface UserLocaleOptions {
+  languageId?: number
+  /** Offset from UTC in minutes, e.g. 60 for UTC+1 */
+  timeZoneOffsetMinutes?: number
+}
+
+/**
+ * Switch the locale and/or time zone of a context's userSettings at runtime
+ */
+export function setUserLocale(
+  context: ComponentFramework.Context<any>,
+  options: UserLocaleOptions
+): void {
+  const userSettings = context.userSettings as ComponentFramework.UserSettings & {
+    _timeZoneOffsetMinutes?: number
+  }
+
+  if (options.languageId !== undefined) {
+    const preset = LOCALE_PRESETS[options.languageId]
+    if (!preset) {
+      console.warn(`⚠️ No locale preset for LCID ${options.languageId}, using 1033 formatting`)
+    }
+    userSettings.languageId = options.languageId
+    userSettings.isRTL = preset?.isRTL ?? false
+    userSettings.numberFormattingInfo = createNumberFormattingInfo(options.languageId)
+    userSettings.dateFormattingInfo = createDateFormattingInfo(options.languageId)
+  }
+
+  if (options.timeZoneOffsetMinutes !== undefined) {
+    userSettings._timeZoneOffsetMinutes = options.timeZoneOffsetMinutes
+  }
+
+  console.log('🌐 User locale set', {
+    languageId: userSettings.languageId,
+    timeZoneOffsetMinutes: userSettings.getTimeZoneOffsetMinutes(),
+  })
+}
@@ -0,0 +1,53 @@
+/**
+ * Lookup Objects
+ * Simulates context.utils.lookupObjects: the harness lookup dialog picks the records
+ */
+
+import { logHarnessEvent } from './eventLog'
+
+export interface LookupRequest {
+  options: ComponentFramework.UtilityApi.LookupOptions
+  /** Completes the lookupObjects promise, an empty array means cancelled */
+  resolve: (values: ComponentFramework.LookupValue[]) => void
+}
+
+type LookupListener = (request: LookupRequest) => void
+
+const listeners = new Set<LookupListener>()
+
+/**
+ * Subscribe to lookup requests, returns an unsubscribe function
+ */
+export function onLookupRequested(listener: LookupListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Mock for context.utils.lookupObjects
+ */
+export function simulateLookupObjects(
+  options: ComponentFramework.UtilityApi.LookupOptions
+): Promise<ComponentFramework.LookupValue[]> {
+  logHarnessEvent('utils.lookupObjects', { options })
+
+  if (listeners.size === 0) {
+    console.warn('⚠️ No lookup dialog is mounted, lookupObjects resolves with no records')
+    return Promise.resolve([])
+  }
+
+  return new Promise(resolve => {
+    const request: LookupRequest = {
+      options,
+      resolve: values => {
+        console.log(`🔎 lookupObjects selected ${values.length} record(s)`, values)
+        resolve(values)
+      },
+    }
+    for (const listener of listeners) {
+      listener(request)
+    }
+  })
+}
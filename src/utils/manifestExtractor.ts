@@ -28,6 +28,166 @@ export function extractDatasetsFromXml(xmlContent: string): Array<{
   }
 }
 
+/**
+ * Property declared by a `<property>` node in the manifest
+ */
+export interface ManifestPropertyInfo {
+  name: string
+  displayNameKey?: string
+  descriptionKey?: string
+  ofType?: string
+  ofTypeGroup?: string
+  /** Resolved types: the of-type, or every type listed in the of-type-group */
+  types: string[]
+  usage: 'bound' | 'input' | 'output'
+  required: boolean
+  defaultValue?: string
+  /** Values of an Enum property */
+  enumValues?: Array<{ name: string; displayNameKey?: string; value: string }>
+}
+
+/**
+ * Resource file declared in the manifest `<resources>` node
+ */
+export interface ManifestResourceInfo {
+  type: 'code' | 'css' | 'img' | 'resx' | 'html'
+  /** Path relative to the manifest, e.g. strings/MyControl.1033.resx */
+  path: string
+  version?: string
+}
+
+/**
+ * Event declared with an `<event>` node, raised by the control through context.events
+ */
+export interface ManifestEventInfo {
+  name: string
+  displayNameKey?: string
+  descriptionKey?: string
+}
+
+/**
+ * Parse the attributes of a single XML start tag into a name/value map
+ */
+function parseXmlAttributes(tagContent: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  const attributePattern = /([\w-]+)=["']([^"']*)["']/g
+
+  for (const match of tagContent.matchAll(attributePattern)) {
+    attributes[match[1]!] = match[2]!
+  }
+
+  return attributes
+}
+
+/**
+ * Extract property information from manifest XML content
+ */
+export function extractPropertiesFromXml(xmlContent: string): ManifestPropertyInfo[] {
+  try {
+    // Commented-out examples are part of every pac template, so drop comments first
+    const content = xmlContent.replace(/<!--[\s\S]*?-->/g, '')
+
+    const typeGroups: Record<string, string[]> = {}
+    const typeGroupPattern = /<type-group\s+name=["']([^"']+)["']\s*>([\s\S]*?)<\/type-group>/g
+    for (const match of content.matchAll(typeGroupPattern)) {
+      typeGroups[match[1]!] = Array.from(match[2]!.matchAll(/<type>([^<]+)<\/type>/g)).map(
+        typeMatch => typeMatch[1]!.trim()
+      )
+    }
+
+    const properties: ManifestPropertyInfo[] = []
+    const propertyPattern = /<property\s+([^>]*?)\s*(?:\/>|>([\s\S]*?)<\/property>)/g
+
+    for (const match of content.matchAll(propertyPattern)) {
+      const attributes = parseXmlAttributes(match[1]!)
+      if (!attributes.name) {
+        continue
+      }
+
+      const ofType = attributes['of-type']
+      const ofTypeGroup = attributes['of-type-group']
+      const types = ofType ? [ofType] : (ofTypeGroup && typeGroups[ofTypeGroup]) || []
+      const usage = attributes.usage === 'input' || attributes.usage === 'output' ? attributes.usage : 'bound'
+
+      const enumValues = match[2]
+        ? Array.from(match[2].matchAll(/<value\s+([^>]*)>([^<]*)<\/value>/g)).map(valueMatch => {
+            const valueAttributes = parseXmlAttributes(valueMatch[1]!)
+            return {
+              name: valueAttributes.name || valueMatch[2]!.trim(),
+              displayNameKey: valueAttributes['display-name-key'],
+              value: valueMatch[2]!.trim(),
+            }
+          })
+        : []
+
+      properties.push({
+        name: attributes.name,
+        displayNameKey: attributes['display-name-key'],
+        descriptionKey: attributes['description-key'],
+        ofType,
+        ofTypeGroup,
+        types,
+        usage,
+        required: attributes.required === 'true',
+        defaultValue: attributes['default-value'],
+        enumValues: enumValues.length > 0 ? enumValues : undefined,
+      })
+    }
+
+    return properties
+  } catch (error) {
+    console.error('Error parsing properties from manifest XML:', error)
+    return []
+  }
+}
+
+/**
+ * Extract the `<code>`, `<css>`, `<img>`, `<resx>` and `<html>` resource entries
+ */
+export function extractResourcesFromXml(xmlContent: string): ManifestResourceInfo[] {
+  const content = xmlContent.replace(/<!--[\s\S]*?-->/g, '')
+  const resourcesMatch = content.match(/<resources>([\s\S]*?)<\/resources>/)
+  if (!resourcesMatch) {
+    return []
+  }
+
+  const resources: ManifestResourceInfo[] = []
+  const resourcePattern = /<(code|css|img|resx|html)\s+([^>]*?)\/?>/g
+  for (const match of resourcesMatch[1]!.matchAll(resourcePattern)) {
+    const attributes = parseXmlAttributes(match[2]!)
+    if (attributes.path) {
+      resources.push({
+        type: match[1] as ManifestResourceInfo['type'],
+        path: attributes.path,
+        version: attributes.version,
+      })
+    }
+  }
+
+  return resources
+}
+
+/**
+ * Extract the `<event>` declarations of the control
+ */
+export function extractEventsFromXml(xmlContent: string): ManifestEventInfo[] {
+  const content = xmlContent.replace(/<!--[\s\S]*?-->/g, '')
+  const events: ManifestEventInfo[] = []
+
+  for (const match of content.matchAll(/<event\s+([^>]*?)\s*\/?>/g)) {
+    const attributes = parseXmlAttributes(match[1]!)
+    if (attributes.name) {
+      events.push({
+        name: attributes.name,
+        displayNameKey: attributes['display-name-key'],
+        descriptionKey: attributes['description-key'],
+      })
+    }
+  }
+
+  return events
+}
+
 /**
  * Extract manifest information from ControlManifest.Input.xml content
  */
@@ -38,6 +198,10 @@ export function extractManifestFromXml(xmlContent: string): {
   displayName?: string
   description?: string
   datasets?: Array<{ name: string; displayNameKey?: string }>
+  properties?: ManifestPropertyInfo[]
+  controlType?: 'standard' | 'virtual'
+  resources?: ManifestResourceInfo[]
+  events?: ManifestEventInfo[]
 } | null {
   try {
     // Parse basic manifest attributes from XML
@@ -46,13 +210,17 @@ export function extractManifestFromXml(xmlContent: string): {
     const versionMatch = xmlContent.match(/version=["']([^"']+)["']/)
     const displayNameMatch = xmlContent.match(/display-name-key=["']([^"']+)["']/)
     const descriptionMatch = xmlContent.match(/description-key=["']([^"']+)["']/)
+    const controlTypeMatch = xmlContent.match(/control-type=["']([^"']+)["']/)
 
     if (!namespaceMatch || !constructorMatch || !versionMatch) {
       return null
     }
 
-    // Extract datasets
+    // Extract datasets and properties
     const datasets = extractDatasetsFromXml(xmlContent)
+    const properties = extractPropertiesFromXml(xmlContent)
+    const resources = extractResourcesFromXml(xmlContent)
+    const events = extractEventsFromXml(xmlContent)
 
     return {
       namespace: namespaceMatch[1]!,
@@ -61,6 +229,10 @@ export function extractManifestFromXml(xmlContent: string): {
       displayName: displayNameMatch?.[1],
       description: descriptionMatch?.[1],
       datasets: datasets.length > 0 ? datasets : undefined,
+      properties: properties.length > 0 ? properties : undefined,
+      controlType: controlTypeMatch?.[1] === 'virtual' ? 'virtual' : 'standard',
+      resources: resources.length > 0 ? resources : undefined,
+      events: events.length > 0 ? events : undefined,
     }
   } catch (error) {
     console.error('Error parsing manifest XML:', error)
@@ -78,6 +250,10 @@ export function extractManifestFromBuiltXml(xmlContent: string): {
   displayName?: string
   description?: string
   datasets?: Array<{ name: string; displayNameKey?: string }>
+  properties?: ManifestPropertyInfo[]
+  controlType?: 'standard' | 'virtual'
+  resources?: ManifestResourceInfo[]
+  events?: ManifestEventInfo[]
 } | null {
   try {
     // Parse manifest attributes from built XML (slightly different format)
@@ -86,13 +262,17 @@ export function extractManifestFromBuiltXml(xmlContent: string): {
     const versionMatch = xmlContent.match(/version=["']([^"']+)["']/)
     const displayNameMatch = xmlContent.match(/display-name-key=["']([^"']+)["']/)
     const descriptionMatch = xmlContent.match(/description-key=["']([^"']+)["']/)
+    const controlTypeMatch = xmlContent.match(/control-type=["']([^"']+)["']/)
 
     if (!namespaceMatch || !constructorMatch || !versionMatch) {
       return null
     }
 
-    // Extract datasets
+    // Extract datasets and properties
     const datasets = extractDatasetsFromXml(xmlContent)
+    const properties = extractPropertiesFromXml(xmlContent)
+    const resources = extractResourcesFromXml(xmlContent)
+    const events = extractEventsFromXml(xmlContent)
 
     return {
       namespace: namespaceMatch[1]!,
@@ -101,6 +281,10 @@ export function extractManifestFromBuiltXml(xmlContent: string): {
       displayName: displayNameMatch?.[1],
       description: descriptionMatch?.[1],
       datasets: datasets.length > 0 ? datasets : undefined,
+      properties: properties.length > 0 ? properties : undefined,
+      controlType: controlTypeMatch?.[1] === 'virtual' ? 'virtual' : 'standard',
+      resources: resources.length > 0 ? resources : undefined,
+      events: events.length > 0 ? events : undefined,
     }
   } catch (error) {
     console.error('Error parsing built manifest XML:', error)
@@ -3,6 +3,12 @@
  * No runtime fetch needed - reads directly from file system during setup
  */
 
+import type {
+  ManifestEventInfo,
+  ManifestPropertyInfo,
+  ManifestResourceInfo,
+} from './manifestExtractor'
+
 /**
  * Read manifest from file system (Node.js environment only)
  * This is called during initialization when the environment supports file system access
@@ -15,6 +21,10 @@ export function readManifestFromFileSystem(): {
   description?: string
   componentType: 'dataset' | 'field'
   datasets?: Array<{ name: string; displayNameKey?: string }>
+  properties?: ManifestPropertyInfo[]
+  controlType?: 'standard' | 'virtual'
+  resources?: ManifestResourceInfo[]
+  events?: ManifestEventInfo[]
 } | null {
   // This function only works in Node.js environments (build time, server-side)
   if (typeof window !== 'undefined') {
@@ -80,6 +90,10 @@ function parseManifestXml(xmlContent: string): {
   description?: string
   componentType: 'dataset' | 'field'
   datasets?: Array<{ name: string; displayNameKey?: string }>
+  properties?: ManifestPropertyInfo[]
+  controlType?: 'standard' | 'virtual'
+  resources?: ManifestResourceInfo[]
+  events?: ManifestEventInfo[]
 } | null {
   try {
     // Import the manifest extractor
@@ -130,6 +144,10 @@ function parseManifestXml(xmlContent: string): {
       description: manifest.description,
       componentType,
       datasets: manifest.datasets,
+      properties: manifest.properties,
+      controlType: manifest.controlType,
+      resources: manifest.resources,
+      events: manifest.events,
     }
   } catch (error) {
     console.error('Error parsing manifest XML:', error)
@@ -150,6 +168,10 @@ export function detectManifestInfo(
   description?: string
   componentType: 'dataset' | 'field'
   datasets?: Array<{ name: string; displayNameKey?: string }>
+  properties?: ManifestPropertyInfo[]
+  controlType?: 'standard' | 'virtual'
+  resources?: ManifestResourceInfo[]
+  events?: ManifestEventInfo[]
 } {
   // Try file system first (works in Node.js environments)
   const fileSystemManifest = readManifestFromFileSystem()
@@ -0,0 +1,125 @@
+/**
+ * Navigation Dialogs
+ * Simulates openAlertDialog, openConfirmDialog and openErrorDialog with harness dialogs or scripted responses
+ */
+
+import { logHarnessEvent } from './eventLog'
+
+export type DialogKind = 'alert' | 'confirm' | 'error'
+
+export interface DialogRequest {
+  kind: DialogKind
+  /** Strings the control passed, error dialogs carry their options here */
+  strings: Partial<ComponentFramework.NavigationApi.ConfirmDialogStrings> &
+    ComponentFramework.NavigationApi.ErrorDialogOptions
+  options?: ComponentFramework.NavigationApi.ConfirmDialogOptions
+  /** Completes the dialog promise, confirmed is only reported for confirm dialogs */
+  resolve: (confirmed: boolean) => void
+}
+
+type DialogListener = (request: DialogRequest) => void
+
+let scriptedDialogs = import.meta.env.VITE_PCF_SCRIPTED_DIALOGS === 'true'
+let responseQueue: boolean[] = []
+const listeners = new Set<DialogListener>()
+
+export function isScriptedDialogsEnabled(): boolean {
+  return scriptedDialogs
+}
+
+/**
+ * In scripted mode no dialog is shown, confirm dialogs are answered from the queue
+ * An empty queue answers false (cancel) so automated runs never block.
+ */
+export function setScriptedDialogsEnabled(enabled: boolean): void {
+  scriptedDialogs = enabled
+}
+
+/**
+ * Queue answers for the next confirm dialogs, oldest first
+ * Queued answers are used even when scripted mode is off.
+ */
+export function queueDialogResponses(...responses: boolean[]): void {
+  responseQueue = [...responseQueue, ...responses]
+}
+
+export function getQueuedDialogResponses(): boolean[] {
+  return responseQueue
+}
+
+export function clearDialogResponses(): void {
+  responseQueue = []
+}
+
+/**
+ * Subscribe to dialog requests, returns an unsubscribe function
+ */
+export function onDialogRequested(listener: DialogListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+function openDialog(
+  kind: DialogKind,
+  strings: DialogRequest['strings'],
+  options?: DialogRequest['options']
+): Promise<boolean> {
+  logHarnessEvent(`navigation.open${kind.charAt(0).toUpperCase()}${kind.slice(1)}Dialog`, {
+    strings,
+    options,
+  })
+
+  // Alert and error dialogs have no answer, so they never take one from the queue
+  if (kind !== 'confirm' && (scriptedDialogs || listeners.size === 0)) {
+    console.log(`💬 ${kind} dialog closed without being shown`)
+    return Promise.resolve(false)
+  }
+  if (kind === 'confirm' && responseQueue.length > 0) {
+    const [confirmed, ...rest] = responseQueue
+    responseQueue = rest
+    console.log(`💬 ${kind} dialog answered from the queue`, { confirmed })
+    return Promise.resolve(!!confirmed)
+  }
+  if (scriptedDialogs || listeners.size === 0) {
+    console.warn('⚠️ No queued response for the confirm dialog, answering false')
+    return Promise.resolve(false)
+  }
+
+  return new Promise(resolve => {
+    const request: DialogRequest = { kind, strings, options, resolve }
+    for (const listener of listeners) {
+      listener(request)
+    }
+  })
+}
+
+/**
+ * Mock for context.navigation.openAlertDialog
+ */
+export async function simulateAlertDialog(
+  alertStrings: ComponentFramework.NavigationApi.AlertDialogStrings,
+  options?: ComponentFramework.NavigationApi.AlertDialogOptions
+): Promise<void> {
+  await openDialog('alert', alertStrings, options)
+}
+
+/**
+ * Mock for context.navigation.openConfirmDialog
+ */
+export async function simulateConfirmDialog(
+  confirmStrings: ComponentFramework.NavigationApi.ConfirmDialogStrings,
+  options?: ComponentFramework.NavigationApi.ConfirmDialogOptions
+): Promise<ComponentFramework.NavigationApi.ConfirmDialogResponse> {
+  return { confirmed: await openDialog('confirm', confirmStrings, options) }
+}
+
+/**
+ * Mock for context.navigation.openErrorDialog
+ */
+export async function simulateErrorDialog(
+  options: ComponentFramework.NavigationApi.ErrorDialogOptions
+): Promise<void> {
+  await openDialog('error', options)
+}
@@ -0,0 +1,98 @@
+/**
+ * Navigation Links
+ * Simulates openUrl, openWebResource and openFile: logs the call and optionally opens it in the browser
+ */
+
+import { logHarnessEvent } from './eventLog'
+
+let openLinksEnabled = import.meta.env.VITE_PCF_OPEN_LINKS === 'true'
+
+export function isOpenLinksEnabled(): boolean {
+  return openLinksEnabled
+}
+
+/**
+ * When enabled, URLs and web resources open in a new tab and files are opened or downloaded
+ */
+export function setOpenLinksEnabled(enabled: boolean): void {
+  openLinksEnabled = enabled
+}
+
+function getWindowFeatures(options?: { width?: number; height?: number }): string | undefined {
+  if (!options?.width && !options?.height) {
+    return undefined
+  }
+  return [options.width && `width=${options.width}`, options.height && `height=${options.height}`]
+    .filter(Boolean)
+    .join(',')
+}
+
+/**
+ * URL of a web resource in the connected environment
+ */
+export function getWebResourceUrl(name: string, data?: string): string {
+  const baseUrl = String(import.meta.env.VITE_DATAVERSE_URL || '').replace(/\/$/, '')
+  const query = data === undefined ? '' : `?data=${encodeURIComponent(data)}`
+  return `${baseUrl}/WebResources/${name}${query}`
+}
+
+/**
+ * Mock for context.navigation.openUrl
+ */
+export function simulateOpenUrl(
+  url: string,
+  options?: ComponentFramework.NavigationApi.OpenUrlOptions
+): void {
+  logHarnessEvent('navigation.openUrl', { url, options })
+  if (openLinksEnabled) {
+    window.open(url, '_blank', getWindowFeatures(options))
+  }
+}
+
+/**
+ * Mock for context.navigation.openWebResource
+ */
+export function simulateOpenWebResource(
+  name: string,
+  options?: ComponentFramework.NavigationApi.OpenWebResourceOptions,
+  data?: string
+): void {
+  const url = getWebResourceUrl(name, data)
+  logHarnessEvent('navigation.openWebResource', { name, options, data, url })
+  if (openLinksEnabled) {
+    window.open(url, '_blank', getWindowFeatures(options))
+  }
+}
+
+/**
+ * Mock for context.navigation.openFile
+ * openMode 2 (save) downloads the file, openMode 1 (open) shows it in a new tab.
+ */
+export async function simulateOpenFile(
+  file: ComponentFramework.FileObject,
+  options?: ComponentFramework.NavigationApi.OpenFileOptions
+): Promise<void> {
+  logHarnessEvent('navigation.openFile', {
+    fileName: file.fileName,
+    fileSize: file.fileSize,
+    mimeType: file.mimeType,
+    options,
+  })
+  if (!openLinksEnabled) {
+    return
+  }
+
+  const bytes = Uint8Array.from(atob(file.fileContent), character => character.charCodeAt(0))
+  const url = URL.createObjectURL(new Blob([bytes], { type: file.mimeType }))
+
+  if (options?.openMode === 2) {
+    const link = document.createElement('a')
+    link.href = url
+    link.download = file.fileName
+    link.click()
+  } else {
+    window.open(url, '_blank')
+  }
+  // Give the new tab or download time to read the blob
+  setTimeout(() => URL.revokeObjectURL(url), 60_000)
+}
@@ -0,0 +1,505 @@
+/**
+ * OData Query
+ * Evaluates Web API query options ($select, $filter, $orderby, $top, $expand) against plain records
+ */
+
+export type ODataRecord = Record<string, any>
+
+/** Resolves a navigation property of a record, undefined when it cannot be resolved */
+export type NavigationResolver = (
+  record: ODataRecord,
+  navigationProperty: string
+) => ODataRecord | ODataRecord[] | null | undefined
+
+export interface ODataQueryOptions {
+  select?: string[]
+  filter?: string
+  orderBy?: string
+  top?: number
+  expand?: string
+  count?: boolean
+}
+
+type FilterNode =
+  | { type: 'literal'; value: unknown }
+  | { type: 'path'; path: string }
+  | { type: 'call'; name: string; args: FilterNode[] }
+  | { type: 'not'; operand: FilterNode }
+  | { type: 'binary'; operator: string; left: FilterNode; right: FilterNode }
+
+const COMPARISON_OPERATORS = new Set(['eq', 'ne', 'gt', 'ge', 'lt', 'le'])
+const GUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:\d{2})?)?$/
+const QUERY_FUNCTION_PREFIX = 'Microsoft.Dynamics.CRM.'
+
+/**
+ * Query option errors, the middleware answers them with 400 like Dataverse does
+ */
+export class ODataQueryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ODataQueryError'
+  }
+}
+
+/**
+ * Split on a separator outside parentheses and quotes, e.g. the $expand list
+ */
+export function splitTopLevel(value: string, separator: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let quoted = false
+  let current = ''
+  for (const char of value) {
+    if (char === "'") {
+      quoted = !quoted
+    } else if (!quoted && char === '(') {
+      depth++
+    } else if (!quoted && char === ')') {
+      depth--
+    } else if (!quoted && depth === 0 && char === separator) {
+      parts.push(current)
+      current = ''
+      continue
+    }
+    current += char
+  }
+  if (current) {
+    parts.push(current)
+  }
+  return parts.map(part => part.trim()).filter(Boolean)
+}
+
+/**
+ * Read an attribute, lookups are stored as _name_value in Web API records
+ */
+export function getAttributeValue(record: ODataRecord, attribute: string): unknown {
+  if (attribute in record) {
+    return record[attribute]
+  }
+  return record[`_${attribute}_value`]
+}
+
+/**
+ * Compare two values the way Dataverse sorts them: nulls first, strings case-insensitive
+ */
+export function compareValues(left: unknown, right: unknown): number {
+  if (left === null || left === undefined) {
+    return right === null || right === undefined ? 0 : -1
+  }
+  if (right === null || right === undefined) {
+    return 1
+  }
+  if (typeof left === 'number' || typeof right === 'number') {
+    return Number(left) - Number(right)
+  }
+  if (typeof left === 'boolean' || typeof right === 'boolean') {
+    return Number(toBoolean(left)) - Number(toBoolean(right))
+  }
+  const leftText = String(left)
+  const rightText = String(right)
+  if (ISO_DATE_PATTERN.test(leftText) && ISO_DATE_PATTERN.test(rightText)) {
+    return Date.parse(leftText) - Date.parse(rightText)
+  }
+  return leftText.toLowerCase().localeCompare(rightText.toLowerCase())
+}
+
+function toBoolean(value: unknown): boolean {
+  return value === true || value === 1 || value === '1' || value === 'true'
+}
+
+function tokenize(filter: string): string[] {
+  const tokens: string[] = []
+  let index = 0
+  while (index < filter.length) {
+    const char = filter[index] as string
+    if (/\s/.test(char)) {
+      index++
+    } else if (char === "'") {
+      let end = index + 1
+      while (end < filter.length) {
+        if (filter[end] === "'" && filter[end + 1] === "'") {
+          end += 2
+        } else if (filter[end] === "'") {
+          break
+        } else {
+          end++
+        }
+      }
+      if (end >= filter.length) {
+        throw new ODataQueryError(`Unterminated string in $filter: ${filter}`)
+      }
+      tokens.push(filter.slice(index, end + 1))
+      index = end + 1
+    } else if ('(),[]='.includes(char)) {
+      tokens.push(char)
+      index++
+    } else {
+      const match = /^[^\s(),'[\]=]+/.exec(filter.slice(index))
+      const token = match?.[0] ?? char
+      tokens.push(token)
+      index += token.length
+    }
+  }
+  return tokens
+}
+
+/**
+ * Parse a $filter expression into a tree
+ */
+export function parseFilter(filter: string): FilterNode {
+  const tokens = tokenize(filter)
+  let position = 0
+
+  const peek = () => tokens[position]
+  const next = () => {
+    const token = tokens[position++]
+    if (token === undefined) {
+      throw new ODataQueryError(`Unexpected end of $filter: ${filter}`)
+    }
+    return token
+  }
+  const expect = (token: string) => {
+    const actual = next()
+    if (actual !== token) {
+      throw new ODataQueryError(`Expected "${token}" but found "${actual}" in $filter: ${filter}`)
+    }
+  }
+
+  const parseOperand = (): FilterNode => {
+    const token = next()
+    if (token === '(') {
+      const expression = parseOr()
+      expect(')')
+      return expression
+    }
+    if (token.startsWith("'")) {
+      return { type: 'literal', value: token.slice(1, -1).replace(/''/g, "'") }
+    }
+    if (token === 'true' || token === 'false') {
+      return { type: 'literal', value: token === 'true' }
+    }
+    if (token === 'null') {
+      return { type: 'literal', value: null }
+    }
+    if (GUID_PATTERN.test(token) || ISO_DATE_PATTERN.test(token)) {
+      return { type: 'literal', value: token }
+    }
+    if (/^-?\d+(\.\d+)?$/.test(token)) {
+      return { type: 'literal', value: Number(token) }
+    }
+    if (peek() === '(') {
+      next()
+      if (token.startsWith(QUERY_FUNCTION_PREFIX)) {
+        return parseQueryFunction(token.slice(QUERY_FUNCTION_PREFIX.length))
+      }
+      const args: FilterNode[] = []
+      while (peek() !== ')') {
+        args.push(parseOr())
+        if (peek() === ',') {
+          next()
+        }
+      }
+      expect(')')
+      return { type: 'call', name: token.toLowerCase(), args }
+    }
+    return { type: 'path', path: token }
+  }
+
+  /**
+   * Query functions take named parameters, e.g. In(PropertyName='name',PropertyValues=['a','b'])
+   * The call gets the property path followed by the values.
+   */
+  const parseQueryFunction = (name: string): FilterNode => {
+    const parameters: Record<string, FilterNode[]> = {}
+    while (peek() !== ')') {
+      const parameter = next().toLowerCase()
+      expect('=')
+      const values: FilterNode[] = []
+      if (peek() === '[') {
+        next()
+        while (peek() !== ']') {
+          values.push(parseOperand())
+          if (peek() === ',') {
+            next()
+          }
+        }
+        expect(']')
+      } else {
+        values.push(parseOperand())
+      }
+      parameters[parameter] = values
+      if (peek() === ',') {
+        next()
+      }
+    }
+    expect(')')
+
+    const [property] = parameters.propertyname ?? []
+    if (property?.type !== 'literal' || typeof property.value !== 'string') {
+      throw new ODataQueryError(`${name} needs a PropertyName in $filter: ${filter}`)
+    }
+    return {
+      type: 'call',
+      name: name.toLowerCase(),
+      args: [{ type: 'path', path: property.value }, ...(parameters.propertyvalues ?? [])],
+    }
+  }
+
+  const parseComparison = (): FilterNode => {
+    if (peek() === 'not') {
+      next()
+      return { type: 'not', operand: parseComparison() }
+    }
+    const left = parseOperand()
+    const operator = peek()
+    if (operator && COMPARISON_OPERATORS.has(operator)) {
+      next()
+      return { type: 'binary', operator, left, right: parseOperand() }
+    }
+    return left
+  }
+
+  const parseAnd = (): FilterNode => {
+    let left = parseComparison()
+    while (peek() === 'and') {
+      next()
+      left = { type: 'binary', operator: 'and', left, right: parseComparison() }
+    }
+    return left
+  }
+
+  function parseOr(): FilterNode {
+    let left = parseAnd()
+    while (peek() === 'or') {
+      next()
+      left = { type: 'binary', operator: 'or', left, right: parseAnd() }
+    }
+    return left
+  }
+
+  const tree = parseOr()
+  if (position < tokens.length) {
+    throw new ODataQueryError(`Unexpected "${tokens[position]}" in $filter: ${filter}`)
+  }
+  return tree
+}
+
+function evaluate(node: FilterNode, record: ODataRecord): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value
+    case 'path':
+      return node.path
+        .split('/')
+        .reduce<unknown>(
+          (value, segment) =>
+            value && typeof value === 'object'
+              ? getAttributeValue(value as ODataRecord, segment)
+              : undefined,
+          record
+        )
+    case 'not':
+      return !evaluate(node.operand, record)
+    case 'call': {
+      const [first, ...values] = node.args.map(arg => evaluate(arg, record))
+      const text = String(first ?? '').toLowerCase()
+      const search = String(values[0] ?? '').toLowerCase()
+      switch (node.name) {
+        case 'contains':
+          return first !== null && first !== undefined && text.includes(search)
+        case 'startswith':
+          return first !== null && first !== undefined && text.startsWith(search)
+        case 'endswith':
+          return first !== null && first !== undefined && text.endsWith(search)
+        case 'tolower':
+          return first === null || first === undefined ? first : text
+        case 'toupper':
+          return first === null || first === undefined ? first : String(first).toUpperCase()
+        case 'in':
+          return values.some(value => compareValues(first, value) === 0)
+        case 'notin':
+          return (
+            first !== null &&
+            first !== undefined &&
+            !values.some(value => compareValues(first, value) === 0)
+          )
+        default:
+          throw new ODataQueryError(`The $filter function ${node.name} is not supported offline`)
+      }
+    }
+    case 'binary': {
+      if (node.operator === 'and') {
+        return !!evaluate(node.left, record) && !!evaluate(node.right, record)
+      }
+      if (node.operator === 'or') {
+        return !!evaluate(node.left, record) || !!evaluate(node.right, record)
+      }
+      const left = evaluate(node.left, record)
+      const right = evaluate(node.right, record)
+      const bothSet = left !== null && left !== undefined && right !== null && right !== undefined
+      const order = compareValues(left, right)
+      switch (node.operator) {
+        case 'eq':
+          return order === 0
+        case 'ne':
+          return order !== 0
+        case 'gt':
+          return bothSet && order > 0
+        case 'ge':
+          return bothSet && order >= 0
+        case 'lt':
+          return bothSet && order < 0
+        default:
+          return bothSet && order <= 0
+      }
+    }
+  }
+}
+
+/**
+ * Keep the selected columns with their annotations, lookups match their _name_value column
+ */
+export function selectAttributes(
+  record: ODataRecord,
+  select: string[] | undefined,
+  keep: string[] = []
+): ODataRecord {
+  if (!select || select.length === 0) {
+    return { ...record }
+  }
+  const names = new Set([...select, ...keep].map(name => name.toLowerCase()))
+  return Object.fromEntries(
+    Object.entries(record).filter(([key]) => {
+      const column = (key.split('@')[0] as string).toLowerCase()
+      const lookup = /^_(.+)_value$/.exec(column)?.[1]
+      return (
+        key.startsWith('@odata.') ||
+        names.has(column) ||
+        (lookup !== undefined && names.has(lookup))
+      )
+    })
+  )
+}
+
+/**
+ * Sort by a $orderby list such as "name asc,createdon desc"
+ */
+export function orderRecords(records: ODataRecord[], orderBy: string): ODataRecord[] {
+  const orders = splitTopLevel(orderBy, ',').map(order => {
+    const [attribute = '', direction = 'asc'] = order.split(/\s+/)
+    return { attribute, descending: direction.toLowerCase() === 'desc' }
+  })
+  return [...records].sort((left, right) => {
+    for (const { attribute, descending } of orders) {
+      const order = compareValues(
+        getAttributeValue(left, attribute),
+        getAttributeValue(right, attribute)
+      )
+      if (order !== 0) {
+        return descending ? -order : order
+      }
+    }
+    return 0
+  })
+}
+
+/**
+ * Read $select, $filter, $orderby, $top, $expand and $count from a query string
+ * Nested $expand options use ';' between options, pass separator ';' for those.
+ */
+export function parseQueryOptions(query: string, separator = '&'): ODataQueryOptions {
+  const options: ODataQueryOptions = {}
+  // Top level options are URL encoded and only split on '&'
+  const parts =
+    separator === '&'
+      ? query.split('&').map(part => decodeURIComponent(part))
+      : splitTopLevel(query, separator)
+  for (const part of parts) {
+    const index = part.indexOf('=')
+    const name = part.slice(0, index).trim().toLowerCase()
+    const value = part.slice(index + 1).trim()
+    switch (name) {
+      case '$select':
+        options.select = value.split(',').map(column => column.trim())
+        break
+      case '$filter':
+        options.filter = value
+        break
+      case '$orderby':
+        options.orderBy = value
+        break
+      case '$top':
+        options.top = Number.parseInt(value, 10)
+        break
+      case '$expand':
+        options.expand = value
+        break
+      case '$count':
+        options.count = value === 'true'
+        break
+    }
+  }
+  return options
+}
+
+function expandRecord(
+  source: ODataRecord,
+  target: ODataRecord,
+  expand: string,
+  resolveNavigation: NavigationResolver
+): void {
+  for (const item of splitTopLevel(expand, ',')) {
+    const open = item.indexOf('(')
+    const property = open === -1 ? item : item.slice(0, open).trim()
+    const nested = open === -1 ? {} : parseQueryOptions(item.slice(open + 1, -1), ';')
+    const related = resolveNavigation(source, property)
+    if (Array.isArray(related)) {
+      target[property] = queryRecords(related, nested, resolveNavigation)
+    } else if (related) {
+      target[property] = queryRecord(related, nested, resolveNavigation)
+    } else {
+      target[property] = related ?? null
+    }
+  }
+}
+
+/**
+ * Apply $select and $expand to a single record
+ */
+export function queryRecord(
+  record: ODataRecord,
+  options: ODataQueryOptions,
+  resolveNavigation: NavigationResolver,
+  keep: string[] = []
+): ODataRecord {
+  const result = selectAttributes(record, options.select, keep)
+  if (options.expand) {
+    expandRecord(record, result, options.expand, resolveNavigation)
+  }
+  return result
+}
+
+/**
+ * Apply $filter, $orderby, $top, $select and $expand to a collection
+ * keep lists columns returned even when $select leaves them out, e.g. the primary id.
+ */
+export function queryRecords(
+  records: ODataRecord[],
+  options: ODataQueryOptions,
+  resolveNavigation: NavigationResolver,
+  keep: string[] = []
+): ODataRecord[] {
+  let result = records
+  if (options.filter) {
+    const tree = parseFilter(options.filter)
+    result = result.filter(record => !!evaluate(tree, record))
+  }
+  if (options.orderBy) {
+    result = orderRecords(result, options.orderBy)
+  }
+  if (options.top !== undefined && !Number.isNaN(options.top)) {
+    result = result.slice(0, options.top)
+  }
+  return result.map(record => queryRecord(record, options, resolveNavigation, keep))
+}
@@ -3,23 +3,57 @@
  * Function-based approach without classes
  */
 
+import { isValidElement, type ReactElement } from 'react'
+import { createRoot, type Root } from 'react-dom/client'
+import { getControlId, loadControlState } from './controlState'
+import type { ManifestPropertyInfo } from './manifestExtractor'
+import { setMockPropertyValue } from './propertyMocks'
+import { whenUserSecurityLoaded } from './userPrivileges'
+
+const MAX_OUTPUT_LOG_ENTRIES = 100
+/** How long init waits for the user's roles before it goes ahead without them */
+const USER_SECURITY_WAIT_MS = 1000
+let outputSequence = 0
+
+export interface OutputLogEntry {
+  id: number
+  timestamp: Date
+  /** Values returned by getOutputs() */
+  outputs: Record<string, unknown>
+  /** Bound properties whose value changed and were passed to updateView */
+  updatedProperties: string[]
+}
+
 export interface PCFInstanceManager {
   instance: ComponentFramework.StandardControl<any, any> | null
   container: HTMLDivElement
   context: ComponentFramework.Context<any>
   pcfClass: new () => ComponentFramework.StandardControl<any, any>
+  /** 'virtual' controls return a React element from updateView instead of using the container */
+  controlType: 'standard' | 'virtual'
+  /** React root the elements of a virtual control are rendered into */
+  reactRoot: Root | null
+  properties: ManifestPropertyInfo[]
+  outputLog: OutputLogEntry[]
+  onOutputs?: (entry: OutputLogEntry) => void
 }
 
 export function createPCFManager(
   pcfClass: new () => ComponentFramework.StandardControl<any, any>,
   context: ComponentFramework.Context<any>,
-  container: HTMLDivElement
+  container: HTMLDivElement,
+  properties: ManifestPropertyInfo[] = [],
+  controlType: 'standard' | 'virtual' = 'standard'
 ): PCFInstanceManager {
   return {
     instance: null,
     container,
     context,
-    pcfClass
+    pcfClass,
+    controlType,
+    reactRoot: null,
+    properties,
+    outputLog: [],
   }
 }
 
@@ -38,38 +72,69 @@ export async function initPCF(manager: PCFInstanceManager): Promise<void> {
     }
 
     // Clear container
+    unmountReactRoot(manager)
     manager.container.innerHTML = ''
 
+    // hasEntityPrivilege answers from the user's roles, which load asynchronously
+    let securityTimer: ReturnType<typeof setTimeout> | undefined
+    const securityLoaded = await Promise.race([
+      whenUserSecurityLoaded().then(() => true),
+      new Promise<boolean>(resolve => {
+        securityTimer = setTimeout(() => resolve(false), USER_SECURITY_WAIT_MS)
+      }),
+    ]).finally(() => clearTimeout(securityTimer))
+
     // Create new PCF component instance
     console.log('🔄 Initializing PCF component')
     manager.instance = new manager.pcfClass()
 
-    // Initialize the component
-    await manager.instance.init(
-      manager.context,
-      () => console.log('PCF notifyOutputChanged called'),
-      {},
-      manager.container
-    )
+    // Initialize the component with the state stored through setControlState
+    // Virtual controls do not get a container, the platform renders their elements
+    const state = loadControlState(getControlId(manager.context))
+    const notifyOutputChanged = () => {
+      handleOutputChanged(manager).catch(console.error)
+    }
+    if (manager.controlType === 'virtual') {
+      await (manager.instance as ComponentFramework.ReactControl<any, any>).init(
+        manager.context,
+        notifyOutputChanged,
+        state
+      )
+    } else {
+      await manager.instance.init(manager.context, notifyOutputChanged, state, manager.container)
+    }
 
     // Update view
-    await manager.instance.updateView(manager.context)
+    renderControlElement(manager, await manager.instance.updateView(manager.context))
     console.log('✅ PCF Component initialized successfully')
+
+    if (!securityLoaded) {
+      // Let the control re-check its privileges once the roles arrive
+      const instance = manager.instance
+      console.log('⏳ Security roles still loading, updateView follows once they arrive')
+      whenUserSecurityLoaded()
+        .then(() => (manager.instance === instance ? updatePCFView(manager) : undefined))
+        .catch(console.error)
+    }
   } catch (error) {
     console.error('❌ PCF Init failed:', error)
     throw error
   }
 }
 
-export async function updatePCFView(manager: PCFInstanceManager): Promise<void> {
+export async function updatePCFView(
+  manager: PCFInstanceManager,
+  updatedProperties: string[] = []
+): Promise<void> {
   if (!manager.instance) {
     console.warn('No PCF component instance available for updateView')
     return
   }
 
   try {
-    console.log('🔁 Calling PCF updateView')
-    await manager.instance.updateView(manager.context)
+    console.log('🔁 Calling PCF updateView', { updatedProperties })
+    manager.context.updatedProperties = updatedProperties
+    renderControlElement(manager, await manager.instance.updateView(manager.context))
     console.log('✅ PCF updateView completed')
   } catch (error) {
     console.error('❌ PCF updateView failed:', error)
@@ -77,6 +142,88 @@ export async function updatePCFView(manager: PCFInstanceManager): Promise<void>
   }
 }
 
+/**
+ * Render the element a virtual control returned from updateView
+ * Standard controls return nothing and render into the container themselves.
+ */
+function renderControlElement(manager: PCFInstanceManager, element: unknown): void {
+  if (manager.controlType !== 'virtual' && !isValidElement(element)) {
+    return
+  }
+
+  if (!manager.reactRoot) {
+    manager.reactRoot = createRoot(manager.container)
+  }
+  manager.reactRoot.render((element as ReactElement) ?? null)
+}
+
+function unmountReactRoot(manager: PCFInstanceManager): void {
+  if (manager.reactRoot) {
+    manager.reactRoot.unmount()
+    manager.reactRoot = null
+  }
+}
+
+function isSameValue(current: unknown, next: unknown): boolean {
+  if (current instanceof Date && next instanceof Date) {
+    return current.getTime() === next.getTime()
+  }
+  return JSON.stringify(current) === JSON.stringify(next)
+}
+
+/**
+ * Platform behaviour for notifyOutputChanged: read getOutputs(), write the values back
+ * into the bound property mocks and call updateView with the properties that changed
+ */
+export async function handleOutputChanged(manager: PCFInstanceManager): Promise<void> {
+  if (!manager.instance) {
+    console.warn('No PCF component instance available for getOutputs')
+    return
+  }
+
+  const outputs = (manager.instance.getOutputs?.() || {}) as Record<string, unknown>
+  const parameters = manager.context.parameters as Record<
+    string,
+    ComponentFramework.PropertyTypes.Property
+  >
+  const updatedProperties: string[] = []
+
+  for (const [name, value] of Object.entries(outputs)) {
+    // undefined means the control has no new value for the property
+    if (value === undefined || !parameters[name]) {
+      continue
+    }
+
+    // Fall back to the current mock type when the manifest properties are not known
+    const property = manager.properties.find(p => p.name === name) || {
+      name,
+      types: [parameters[name].type],
+      usage: 'bound' as const,
+      required: false,
+    }
+    if (property.usage !== 'bound' || isSameValue(parameters[name].raw, value)) {
+      continue
+    }
+
+    setMockPropertyValue(manager.context, property, value)
+    updatedProperties.push(name)
+  }
+
+  const entry: OutputLogEntry = {
+    id: ++outputSequence,
+    timestamp: new Date(),
+    outputs,
+    updatedProperties,
+  }
+  manager.outputLog = [entry, ...manager.outputLog].slice(0, MAX_OUTPUT_LOG_ENTRIES)
+  console.log('📤 PCF notifyOutputChanged', entry)
+  manager.onOutputs?.(entry)
+
+  if (updatedProperties.length > 0) {
+    await updatePCFView(manager, updatedProperties)
+  }
+}
+
 export async function destroyPCF(manager: PCFInstanceManager): Promise<void> {
   if (!manager.instance) {
     console.warn('No PCF component instance available for destroy')
@@ -89,6 +236,7 @@ export async function destroyPCF(manager: PCFInstanceManager): Promise<void> {
     manager.instance = null
 
     // Clear container
+    unmountReactRoot(manager)
     manager.container.innerHTML = ''
 
     console.log('✅ PCF Component destroyed')
@@ -98,6 +246,23 @@ export async function destroyPCF(manager: PCFInstanceManager): Promise<void> {
   }
 }
 
+/**
+ * Replace the component class of a running control (HMR)
+ * The old instance is destroyed and the new one is initialized with the same context,
+ * so dataset records, property values and stored control state are kept.
+ */
+export async function swapPCFClass(
+  manager: PCFInstanceManager,
+  pcfClass: new () => ComponentFramework.StandardControl<any, any>
+): Promise<void> {
+  console.log('♻️ Swapping PCF component class')
+  if (manager.instance) {
+    await destroyPCF(manager)
+  }
+  manager.pcfClass = pcfClass
+  await initPCF(manager)
+}
+
 export function isPCFInitialized(manager: PCFInstanceManager): boolean {
   return !!manager.instance
 }
\ No newline at end of file
@@ -0,0 +1,166 @@
+/**
+ * Popup Service
+ * context.factory.getPopupService: mounts popup content in overlay layers above the harness
+ */
+
+type PopupStyle = Partial<CSSStyleDeclaration>
+
+/** Popup props as controls pass them, the platform also reads these undocumented style objects */
+export type HarnessPopup = ComponentFramework.FactoryApi.Popup.Popup & {
+  /** Styles of the element wrapping content, e.g. size and position */
+  popupStyle?: PopupStyle
+  /** Styles of the layer behind the popup, e.g. a translucent background */
+  shadowStyle?: PopupStyle
+}
+
+const DEFAULT_POPUPS_ID = 'pcf-harness-popups'
+const POPUP_Z_INDEX = 1000
+
+/** Centered on the page unless popupStyle positions it */
+const DEFAULT_POPUP_STYLE: PopupStyle = {
+  position: 'absolute',
+  inset: '0',
+  margin: 'auto',
+  width: 'fit-content',
+  height: 'fit-content',
+}
+
+const DEFAULT_SHADOW_STYLE: PopupStyle = {
+  position: 'absolute',
+  inset: '0',
+}
+
+/**
+ * Popup service with root and nested popups
+ * Open popups are stacked in opening order, each in its own layer with the shadow below the content.
+ */
+export function createMockPopupService(): ComponentFramework.FactoryApi.Popup.PopupService {
+  const popups = new Map<string, HarnessPopup>()
+  let openPopups: string[] = []
+  let popupsId = DEFAULT_POPUPS_ID
+  let host: HTMLDivElement | null = null
+
+  const getHost = (): HTMLDivElement => {
+    if (!host) {
+      host = document.createElement('div')
+      Object.assign(host.style, {
+        position: 'fixed',
+        inset: '0',
+        zIndex: String(POPUP_Z_INDEX),
+        pointerEvents: 'none',
+      })
+      document.body.appendChild(host)
+    }
+    host.id = popupsId
+    return host
+  }
+
+  const render = () => {
+    const layers = openPopups.flatMap(name => {
+      const popup = popups.get(name)
+      if (!popup) {
+        return []
+      }
+
+      const layer = document.createElement('div')
+      layer.dataset.popup = name
+      Object.assign(layer.style, { position: 'absolute', inset: '0', pointerEvents: 'auto' })
+
+      const shadow = document.createElement('div')
+      Object.assign(shadow.style, DEFAULT_SHADOW_STYLE, popup.shadowStyle)
+      shadow.addEventListener('click', () => {
+        if (popup.closeOnOutsideClick !== false) {
+          closePopup(name)
+        }
+      })
+
+      const wrapper = document.createElement('div')
+      if (popup.id) {
+        wrapper.id = popup.id
+      }
+      Object.assign(wrapper.style, DEFAULT_POPUP_STYLE, popup.popupStyle)
+      wrapper.appendChild(popup.content)
+
+      layer.append(shadow, wrapper)
+      return [layer]
+    })
+
+    if (layers.length > 0 || host) {
+      getHost().replaceChildren(...layers)
+    }
+  }
+
+  /**
+   * Close a popup and every popup opened after it, nested popups go with their parent
+   */
+  const closePopup = (name: string) => {
+    const index = openPopups.indexOf(name)
+    if (index === -1) {
+      return
+    }
+    // A root popup closes its whole set, not only the ones above it
+    const remaining = popups.get(name)?.type === 1 ? [] : openPopups.slice(0, index)
+    console.log(
+      `🪟 Closed popup ${openPopups.filter(open => !remaining.includes(open)).join(', ')}`
+    )
+    openPopups = remaining
+    render()
+  }
+
+  const openPopup = (name: string) => {
+    if (!popups.has(name) || openPopups.includes(name)) {
+      return
+    }
+    openPopups = [...openPopups, name]
+    console.log(`🪟 Opened popup ${name}`)
+    render()
+  }
+
+  /**
+   * popupToOpen on a root popup: "root.nested" opens the path, an empty string closes everything
+   */
+  const applyPopupToOpen = (popup: HarnessPopup) => {
+    if (popup.type !== 1 || popup.popupToOpen === undefined) {
+      return
+    }
+    const path = popup.popupToOpen.split('.').filter(Boolean)
+    openPopups = path.filter(name => popups.has(name))
+    render()
+  }
+
+  return {
+    createPopup: (props: HarnessPopup) => {
+      popups.set(props.name, props)
+      applyPopupToOpen(props)
+    },
+    openPopup,
+    closePopup,
+    updatePopup: (name: string, newProps: HarnessPopup) => {
+      const popup = popups.get(name)
+      if (!popup) {
+        return
+      }
+      const updated = { ...popup, ...newProps, name }
+      popups.set(name, updated)
+      if (updated.type === 1 && newProps.popupToOpen !== undefined) {
+        applyPopupToOpen(updated)
+      } else if (openPopups.includes(name)) {
+        render()
+      }
+    },
+    deletePopup: (name: string) => {
+      if (!popups.has(name)) {
+        return
+      }
+      closePopup(name)
+      popups.delete(name)
+    },
+    setPopupsId: (id: string) => {
+      popupsId = id
+      if (host) {
+        host.id = id
+      }
+    },
+    getPopupsId: () => popupsId,
+  }
+}
@@ -0,0 +1,398 @@
+/**
+ * Property Mocks
+ * Builds typed ComponentFramework.PropertyTypes objects for manifest properties
+ */
+
+import { applySecurityMask, type PropertySecurity } from './controlAccess'
+import type { ManifestPropertyInfo } from './manifestExtractor'
+
+export type PropertyAttributes =
+  Partial<ComponentFramework.PropertyHelper.FieldPropertyMetadata.Metadata> &
+    Record<string, unknown>
+
+export interface MockPropertyOptions {
+  /** Start values keyed by property name (take precedence over env vars) */
+  values?: Record<string, unknown>
+  /** Attribute metadata overrides keyed by property name, e.g. option set Options */
+  attributes?: Record<string, PropertyAttributes>
+  /** Field security keyed by property name, e.g. { secured: true, readable: false } */
+  security?: Record<string, Partial<PropertySecurity>>
+}
+
+const ENV_PREFIX = 'VITE_PCF_PROPERTY_'
+
+const STRING_FORMATS: Record<string, string> = {
+  'SingleLine.Text': 'Text',
+  'SingleLine.Email': 'Email',
+  'SingleLine.Phone': 'Phone',
+  'SingleLine.URL': 'Url',
+  'SingleLine.Ticker': 'TickerSymbol',
+  'SingleLine.TextArea': 'TextArea',
+  Multiple: 'TextArea',
+}
+
+/**
+ * Get the type the harness binds a property to (first type of an of-type-group)
+ */
+export function getPropertyType(property: ManifestPropertyInfo): string {
+  return property.types[0] || property.ofType || 'SingleLine.Text'
+}
+
+/**
+ * Read a property start value from `VITE_PCF_PROPERTY_<name>`
+ */
+export function getPropertyEnvValue(propertyName: string): string | undefined {
+  const value = import.meta.env[`${ENV_PREFIX}${propertyName}`]
+  return typeof value === 'string' ? value : undefined
+}
+
+/**
+ * Convert a value (usually a string from env vars) to the raw type of a manifest type
+ */
+export function parsePropertyValue(type: string, value: unknown): unknown {
+  if (value === undefined || value === null || value === '') {
+    return getEmptyPropertyValue(type)
+  }
+
+  switch (type) {
+    case 'Whole.None':
+    case 'Decimal':
+    case 'FP':
+    case 'Currency':
+    case 'OptionSet': {
+      const numberValue = typeof value === 'number' ? value : Number(value)
+      return Number.isNaN(numberValue) ? null : numberValue
+    }
+    case 'TwoOptions':
+      return value === true || value === 'true' || value === '1' || value === 1
+    case 'DateAndTime.DateOnly':
+    case 'DateAndTime.DateAndTime': {
+      const dateValue = value instanceof Date ? value : new Date(String(value))
+      return Number.isNaN(dateValue.getTime()) ? null : dateValue
+    }
+    case 'MultiSelectOptionSet': {
+      if (Array.isArray(value)) {
+        return value.map(Number)
+      }
+      return String(value)
+        .replace(/[[\]]/g, '')
+        .split(',')
+        .map(item => Number(item.trim()))
+        .filter(item => !Number.isNaN(item))
+    }
+    case 'Lookup.Simple': {
+      let lookup = value
+      if (typeof value === 'string') {
+        try {
+          lookup = JSON.parse(value)
+        } catch {
+          console.warn(`⚠️ Lookup value is not JSON, expected [{ id, name, entityType }]: ${value}`)
+          return []
+        }
+      }
+      return (Array.isArray(lookup) ? lookup : [lookup]) as ComponentFramework.LookupValue[]
+    }
+    case 'Object':
+      return value
+    default:
+      return String(value)
+  }
+}
+
+/**
+ * Raw value for a property that has no value
+ */
+function getEmptyPropertyValue(type: string): unknown {
+  switch (type) {
+    case 'TwoOptions':
+      return false
+    case 'Lookup.Simple':
+      return []
+    default:
+      return null
+  }
+}
+
+/**
+ * Build the attribute metadata the platform attaches to a property of the given type
+ */
+export function createPropertyAttributes(
+  property: ManifestPropertyInfo,
+  type: string,
+  overrides: PropertyAttributes = {}
+): PropertyAttributes {
+  const base = {
+    DisplayName: property.displayNameKey || property.name,
+    LogicalName: property.name,
+    RequiredLevel: (property.required
+      ? 2
+      : 0) as ComponentFramework.PropertyHelper.Types.RequiredLevel,
+    IsSecured: false,
+    SourceType: 0,
+    Description: property.descriptionKey || '',
+  }
+
+  let typeMetadata: Record<string, unknown> = {}
+  switch (type) {
+    case 'Whole.None':
+      typeMetadata = { MinValue: -2147483648, MaxValue: 2147483647, ImeMode: 0, Format: 'None' }
+      break
+    case 'Decimal':
+    case 'FP':
+      typeMetadata = { MinValue: -100000000000, MaxValue: 100000000000, ImeMode: 0, Precision: 2 }
+      break
+    case 'Currency':
+      typeMetadata = {
+        MinValue: -922337203685477,
+        MaxValue: 922337203685477,
+        ImeMode: 0,
+        Precision: 2,
+      }
+      break
+    case 'DateAndTime.DateOnly':
+    case 'DateAndTime.DateAndTime':
+      typeMetadata = { Behavior: 1, Format: type.split('.')[1], ImeMode: 0 }
+      break
+    case 'TwoOptions':
+      typeMetadata = {
+        Options: [
+          { Label: 'No', Value: 0, Color: '' },
+          { Label: 'Yes', Value: 1, Color: '' },
+        ],
+        DefaultValue: false,
+      }
+      break
+    case 'OptionSet':
+    case 'MultiSelectOptionSet':
+      typeMetadata = { Options: [], DefaultValue: -1 }
+      break
+    case 'Lookup.Simple':
+      typeMetadata = { Targets: [] }
+      break
+    default:
+      if (type in STRING_FORMATS) {
+        typeMetadata = {
+          MaxLength: type === 'Multiple' ? 2000 : 100,
+          ImeMode: 0,
+          Format: STRING_FORMATS[type],
+        }
+      }
+  }
+
+  return { ...base, ...typeMetadata, ...overrides }
+}
+
+/**
+ * Format a raw value the way the platform fills `formatted`
+ * Numbers and dates go through context.formatting when given, otherwise en-US is used.
+ */
+export function formatPropertyValue(
+  type: string,
+  raw: unknown,
+  attributes: PropertyAttributes = {},
+  formatting?: ComponentFramework.Formatting
+): string {
+  if (raw === null || raw === undefined) {
+    return ''
+  }
+
+  const options = (attributes.Options || []) as ComponentFramework.PropertyHelper.OptionMetadata[]
+
+  if (formatting) {
+    switch (type) {
+      case 'Whole.None':
+        return formatting.formatInteger(raw as number)
+      case 'Decimal':
+      case 'FP':
+        return formatting.formatDecimal(raw as number, (attributes.Precision as number) ?? 2)
+      case 'Currency':
+        return formatting.formatCurrency(raw as number)
+      case 'DateAndTime.DateOnly':
+        return formatting.formatDateShort(raw as Date)
+      case 'DateAndTime.DateAndTime':
+        return formatting.formatDateShort(raw as Date, true)
+    }
+  }
+
+  switch (type) {
+    case 'Whole.None':
+      return (raw as number).toLocaleString('en-US', { maximumFractionDigits: 0 })
+    case 'Decimal':
+    case 'FP': {
+      const precision = (attributes.Precision as number) ?? 2
+      return (raw as number).toLocaleString('en-US', {
+        minimumFractionDigits: precision,
+        maximumFractionDigits: precision,
+      })
+    }
+    case 'Currency':
+      return `$${(raw as number).toLocaleString('en-US', {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+      })}`
+    case 'DateAndTime.DateOnly':
+      return (raw as Date).toLocaleDateString('en-US')
+    case 'DateAndTime.DateAndTime':
+      return (raw as Date).toLocaleString('en-US')
+    case 'TwoOptions':
+      return options[raw ? 1 : 0]?.Label ?? (raw ? 'Yes' : 'No')
+    case 'OptionSet':
+      return options.find(option => option.Value === raw)?.Label ?? String(raw)
+    case 'MultiSelectOptionSet':
+      return (raw as number[])
+        .map(value => options.find(option => option.Value === value)?.Label ?? String(value))
+        .join('; ')
+    case 'Lookup.Simple':
+      return (raw as ComponentFramework.LookupValue[])[0]?.name ?? ''
+    case 'Object':
+      return typeof raw === 'string' ? raw : JSON.stringify(raw)
+    default:
+      return String(raw)
+  }
+}
+
+/**
+ * Create a single typed property mock
+ */
+export function createMockProperty(
+  property: ManifestPropertyInfo,
+  value?: unknown,
+  attributeOverrides?: PropertyAttributes,
+  formatting?: ComponentFramework.Formatting
+): ComponentFramework.PropertyTypes.Property {
+  const type = getPropertyType(property)
+  const raw = parsePropertyValue(type, value)
+
+  if (type === 'Enum') {
+    return { type, raw } as ComponentFramework.PropertyTypes.Property
+  }
+
+  const attributes = createPropertyAttributes(property, type, attributeOverrides)
+  const mockProperty: ComponentFramework.PropertyTypes.Property = {
+    type,
+    raw,
+    formatted: formatPropertyValue(type, raw, attributes, formatting),
+    error: false,
+    errorMessage: '',
+    security: {
+      readable: true,
+      editable: true,
+      secured: false,
+    },
+    attributes: attributes as ComponentFramework.PropertyHelper.FieldPropertyMetadata.Metadata,
+  }
+
+  if (type === 'Lookup.Simple') {
+    const lookupProperty = mockProperty as ComponentFramework.PropertyTypes.LookupProperty
+    lookupProperty.getTargetEntityType = () =>
+      lookupProperty.raw[0]?.entityType || ((attributes.Targets as string[]) || [])[0] || ''
+    lookupProperty.getViewId = () => ''
+  }
+
+  return mockProperty
+}
+
+/**
+ * Replace a property mock in context.parameters with one holding the new value
+ * Attributes, security and error state of the existing mock are carried over, unreadable values stay masked.
+ */
+export function setMockPropertyValue(
+  context: ComponentFramework.Context<any>,
+  property: ManifestPropertyInfo,
+  value: unknown
+): ComponentFramework.PropertyTypes.Property {
+  const parameters = context.parameters as Record<string, ComponentFramework.PropertyTypes.Property>
+  const existing = parameters[property.name]
+  const updated = createMockProperty(
+    property,
+    value,
+    existing?.attributes as PropertyAttributes | undefined,
+    context.formatting
+  )
+
+  if (existing && 'security' in existing) {
+    updated.security = existing.security
+    updated.error = existing.error
+    updated.errorMessage = existing.errorMessage
+    applySecurityMask(updated)
+  }
+
+  parameters[property.name] = updated
+  return updated
+}
+
+/**
+ * Create mocks for every bound and input manifest property
+ * Output-only properties are left out, the platform never passes them in context.parameters.
+ * Start values come from options, then VITE_PCF_PROPERTY_<name>, then the manifest default-value
+ */
+export function createMockProperties(
+  properties: ManifestPropertyInfo[],
+  options: MockPropertyOptions = {}
+): Record<string, ComponentFramework.PropertyTypes.Property> {
+  const parameters: Record<string, ComponentFramework.PropertyTypes.Property> = {}
+
+  for (const property of properties) {
+    if (property.usage === 'output') {
+      continue
+    }
+
+    const envValue = getPropertyEnvValue(property.name)
+    const value =
+      options.values && property.name in options.values
+        ? options.values[property.name]
+        : (envValue ?? property.defaultValue ?? property.enumValues?.[0]?.value)
+
+    if (envValue !== undefined) {
+      console.log(`📋 Using ${ENV_PREFIX}${property.name} environment variable: ${envValue}`)
+    }
+
+    const mockProperty = createMockProperty(property, value, options.attributes?.[property.name])
+    const security = options.security?.[property.name]
+    if (security && mockProperty.security) {
+      mockProperty.security = { ...mockProperty.security, ...security }
+      if (mockProperty.attributes) {
+        mockProperty.attributes.IsSecured = mockProperty.security.secured
+      }
+      applySecurityMask(mockProperty)
+    }
+
+    parameters[property.name] = mockProperty
+  }
+
+  return parameters
+}
+
+/**
+ * Refresh `formatted` on every property mock after the user locale changed
+ * Returns the names of the properties whose formatted value changed.
+ */
+export function reformatMockProperties(context: ComponentFramework.Context<any>): string[] {
+  const parameters = context.parameters as Record<string, ComponentFramework.PropertyTypes.Property>
+  const changed: string[] = []
+
+  for (const [name, property] of Object.entries(parameters)) {
+    // Masked values keep showing the mask
+    if (
+      !property ||
+      !('formatted' in property) ||
+      !('attributes' in property) ||
+      property.security?.readable === false
+    ) {
+      continue
+    }
+
+    const formatted = formatPropertyValue(
+      property.type,
+      property.raw,
+      property.attributes as PropertyAttributes,
+      context.formatting
+    )
+    if (formatted !== property.formatted) {
+      property.formatted = formatted
+      changed.push(name)
+    }
+  }
+
+  return changed
+}
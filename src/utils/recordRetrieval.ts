@@ -2,6 +2,7 @@
  * Record Retrieval - Get records using Dataverse views and FetchXML
  */
 
+import { fetchWithFaults } from './faultInjection'
 import type { ViewInfo } from './viewDiscovery'
 import { getViewById } from './viewDiscovery'
 
@@ -11,6 +12,8 @@ export interface RecordRetrievalOptions {
   includeCount?: boolean
   additionalFilters?: string
   orderBy?: string
+  /** Paging cookie returned with the previous page (FetchXML only) */
+  pagingCookie?: string
 }
 
 export interface RecordRetrievalResult {
@@ -22,6 +25,9 @@ export interface RecordRetrievalResult {
   error?: string
   fetchXml?: string
   viewInfo?: ViewInfo
+  /** Paging cookie to request the next page with (FetchXML only) */
+  pagingCookie?: string
+  moreRecords?: boolean
 }
 
 export interface PaginatedRecordResult {
@@ -195,24 +201,38 @@ export async function executeFetchXml(
       modifiedFetchXml = addPaginationToFetchXml(fetchXml, {
         pageSize: options.maxPageSize || 5000,
         pageNumber: options.pageNumber || 1,
+        pagingCookie: options.pagingCookie,
       })
     }
 
     const url = `/api/data/v9.2/${collectionName}?fetchXml=${encodeURIComponent(modifiedFetchXml)}`
 
-    const response = await fetch(url)
+    // Annotations carry the paging cookie, more records flag and total record count
+    const response = await fetchWithFaults(
+      { method: 'loadDataset', entity: entityLogicalName },
+      url,
+      {
+        headers: { Prefer: 'odata.include-annotations="*"' },
+      }
+    )
     if (!response.ok) {
       throw new Error(`HTTP ${response.status}: ${response.statusText}`)
     }
 
     const data = await response.json()
+    const totalRecordCount = data['@Microsoft.Dynamics.CRM.totalrecordcount']
 
     return {
       entities: data.value || [],
-      totalCount: data['@odata.count'],
+      totalCount:
+        typeof totalRecordCount === 'number' && totalRecordCount >= 0
+          ? totalRecordCount
+          : data['@odata.count'],
       nextLink: data['@odata.nextLink'],
       success: true,
       fetchXml: modifiedFetchXml,
+      pagingCookie: extractPagingCookie(data['@Microsoft.Dynamics.CRM.fetchxmlpagingcookie']),
+      moreRecords: Boolean(data['@Microsoft.Dynamics.CRM.morerecords']),
     }
   } catch (error) {
     return {
@@ -332,20 +352,38 @@ async function getCollectionNameForEntity(entityLogicalName: string): Promise<st
  */
 function addPaginationToFetchXml(
   fetchXml: string,
-  pagination: { pageSize: number; pageNumber: number }
+  pagination: { pageSize: number; pageNumber: number; pagingCookie?: string }
 ): string {
   const parser = new DOMParser()
   const doc = parser.parseFromString(fetchXml, 'text/xml')
 
-  const entityElement = doc.querySelector('entity')
-  if (entityElement) {
-    entityElement.setAttribute('page', pagination.pageNumber.toString())
-    entityElement.setAttribute('count', pagination.pageSize.toString())
+  const fetchElement = doc.querySelector('fetch')
+  if (fetchElement) {
+    fetchElement.setAttribute('page', pagination.pageNumber.toString())
+    fetchElement.setAttribute('count', pagination.pageSize.toString())
+    fetchElement.setAttribute('returntotalrecordcount', 'true')
+    if (pagination.pagingCookie) {
+      fetchElement.setAttribute('paging-cookie', pagination.pagingCookie)
+    } else {
+      fetchElement.removeAttribute('paging-cookie')
+    }
   }
 
   return new XMLSerializer().serializeToString(doc)
 }
 
+/**
+ * Helper: Get the paging-cookie value from the fetchxmlpagingcookie annotation
+ * The annotation is a <cookie pagingcookie="..."> element with the cookie URL-encoded twice.
+ */
+function extractPagingCookie(annotation?: string): string | undefined {
+  const match = annotation?.match(/pagingcookie="([^"]+)"/)
+  if (!match?.[1]) {
+    return undefined
+  }
+  return decodeURIComponent(decodeURIComponent(match[1]))
+}
+
 /**
  * Helper: Extract entity name from FetchXML
  */
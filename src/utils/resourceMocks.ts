@@ -0,0 +1,151 @@
+/**
+ * Resource Mocks
+ * context.resources backed by the resx, img and css files declared in the manifest
+ */
+
+import { DEFAULT_LCID } from './localeFormatting'
+import type { ManifestResourceInfo } from './manifestExtractor'
+
+/**
+ * Resource file contents the dev server provides, keyed by file path
+ * Generated main.ts files fill these with import.meta.glob.
+ */
+export interface ResourceFiles {
+  /** Raw resx XML, e.g. import.meta.glob('../MyControl/**\/*.resx', { query: '?raw', ... }) */
+  resx?: Record<string, string>
+  /** Served URLs of image, css and html files, e.g. import.meta.glob(..., { query: '?url', ... }) */
+  urls?: Record<string, string>
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'",
+  '&amp;': '&',
+}
+
+/**
+ * Parse the `<data name="..."><value>...</value></data>` entries of a resx file
+ */
+export function parseResx(xmlContent: string): Record<string, string> {
+  const strings: Record<string, string> = {}
+  const content = xmlContent.replace(/<!--[\s\S]*?-->/g, '')
+  const dataPattern = /<data\s+[^>]*?name=["']([^"']+)["'][^>]*>[\s\S]*?<value>([\s\S]*?)<\/value>/g
+
+  for (const match of content.matchAll(dataPattern)) {
+    strings[match[1]!] = match[2]!.replace(
+      /&(lt|gt|quot|apos|amp);/g,
+      entity => XML_ENTITIES[entity]!
+    )
+  }
+
+  return strings
+}
+
+/**
+ * LCID from a resx file name, e.g. strings/MyControl.1044.resx, defaulting to 1033
+ */
+export function getResxLanguage(path: string): number {
+  const match = path.match(/\.(\d+)\.resx$/i)
+  return match ? Number(match[1]) : DEFAULT_LCID
+}
+
+/**
+ * Whether a file path ends with a manifest resource path
+ */
+function matchesResourcePath(filePath: string, path: string): boolean {
+  const normalized = path.replace(/\\/g, '/').replace(/^\.?\//, '')
+  return filePath === normalized || filePath.endsWith(`/${normalized}`)
+}
+
+/**
+ * Find a file by its manifest path, keys are relative to dev/main.ts
+ */
+function findResourceFile<T>(files: Record<string, T>, path: string): T | undefined {
+  const key = Object.keys(files).find(filePath => matchesResourcePath(filePath, path))
+  return key === undefined ? undefined : files[key]
+}
+
+function toBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '')
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+/**
+ * Create context.resources
+ * getString looks up the current userSettings.languageId and falls back to 1033, then to the key.
+ */
+export function createMockResources(
+  manifestResources: ManifestResourceInfo[],
+  resourceFiles: ResourceFiles,
+  getLanguageId: () => number
+): ComponentFramework.Resources & { _languages: number[] } {
+  const resxFiles = resourceFiles.resx || {}
+  const urls = resourceFiles.urls || {}
+  const declaredResx = manifestResources.filter(resource => resource.type === 'resx')
+  const resxPaths =
+    declaredResx.length > 0 ? declaredResx.map(resource => resource.path) : Object.keys(resxFiles)
+
+  const stringsByLanguage = new Map<number, Record<string, string>>()
+  for (const path of resxPaths) {
+    const content = findResourceFile(resxFiles, path)
+    if (content === undefined) {
+      console.warn(`⚠️ Resx file ${path} from the manifest was not found, regenerate dev/main.ts`)
+      continue
+    }
+    const language = getResxLanguage(path)
+    stringsByLanguage.set(language, { ...stringsByLanguage.get(language), ...parseResx(content) })
+  }
+
+  const languages = Array.from(stringsByLanguage.keys()).sort((a, b) => a - b)
+  if (languages.length > 0) {
+    console.log(`🌐 Loaded resx strings for languages ${languages.join(', ')}`)
+  }
+
+  return {
+    getString: (id: string) =>
+      stringsByLanguage.get(getLanguageId())?.[id] ??
+      stringsByLanguage.get(DEFAULT_LCID)?.[id] ??
+      id,
+    getResource: (id: string, success: (data: string) => void, failure: () => void) => {
+      const declared =
+        manifestResources.length === 0 ||
+        manifestResources.some(
+          resource => resource.type !== 'resx' && matchesResourcePath(resource.path, id)
+        )
+      const url = declared ? findResourceFile(urls, id) : undefined
+      if (!url) {
+        console.warn(`⚠️ Resource ${id} is not declared in the manifest or was not found`)
+        failure()
+        return
+      }
+
+      fetch(url)
+        .then(response => {
+          if (!response.ok) {
+            throw new Error(`Failed to load resource ${id}: ${response.status}`)
+          }
+          return response.blob()
+        })
+        .then(toBase64)
+        .then(success)
+        .catch(error => {
+          console.error(`❌ ${error instanceof Error ? error.message : error}`)
+          failure()
+        })
+    },
+    _languages: languages,
+  }
+}
+
+/**
+ * Languages that have resx strings, for the locale switcher
+ */
+export function getResourceLanguages(context: ComponentFramework.Context<any>): number[] {
+  return (context.resources as any)._languages || []
+}
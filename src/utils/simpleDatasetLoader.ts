@@ -3,6 +3,8 @@
  * Loads dataset data without any devtools dependencies
  */
 
+import { hasDatasetQuery, refreshDataset } from './datasetQuery'
+
 interface DatasetInfo {
   name: string
   entityLogicalName: string
@@ -129,7 +131,13 @@ export async function loadDatasetData(
     // 2. Load data for each dataset
     for (const datasetInfo of analysis.datasets) {
       console.log(`🔄 Loading ${datasetInfo.name} (${datasetInfo.entityLogicalName})`)
-      
+
+      // Load the first page through the view FetchXML, like the platform does
+      const queryDataset = context.parameters[datasetInfo.name] as ComponentFramework.PropertyTypes.DataSet
+      if (hasDatasetQuery(queryDataset) && (await refreshDataset(queryDataset, { notify: false }))) {
+        continue
+      }
+
       const entities = await fetchDataForEntity(context, datasetInfo.entityLogicalName)
       
       if (entities.length > 0) {
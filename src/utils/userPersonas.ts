@@ -0,0 +1,180 @@
+/**
+ * User Personas
+ * Switch userSettings, locale and security roles between the signed-in user and named fake users
+ */
+
+import { requestContextUpdate } from './contextUpdates'
+import { setUserLocale } from './localeFormatting'
+import { reformatMockProperties } from './propertyMocks'
+import { loadRoleSecurity, loadUserSecurity, type UserSecurityInfo } from './userPrivileges'
+
+export interface UserPersona {
+  /** Shown in the persona switcher, e.g. 'Sales rep (nb-NO)' */
+  name: string
+  displayName?: string
+  userName?: string
+  userId?: string
+  languageId?: number
+  /** Offset from UTC in minutes, e.g. 60 for UTC+1 */
+  timeZoneOffsetMinutes?: number
+  /** Security role names, their privileges are loaded from Dataverse */
+  roles?: string[]
+  /** Extra privileges by name and depth, e.g. { prvReadAccount: 'Global' }, work without Dataverse */
+  privileges?: Record<string, 'Basic' | 'Local' | 'Deep' | 'Global'>
+}
+
+/** The platform sets userSettings.displayName, the PCF typings leave it out */
+export type HarnessUserSettings = ComponentFramework.UserSettings & { displayName: string }
+
+/** Name of the built-in persona that loads the real signed-in user */
+export const SIGNED_IN_PERSONA = 'Signed-in user'
+
+type PersonaListener = (persona: string | null) => void
+
+let personas: UserPersona[] = []
+type StartUser = Pick<HarnessUserSettings, 'userName' | 'languageId'> & {
+  timeZoneOffsetMinutes: number
+}
+
+/** WhoAmI function response */
+interface WhoAmIResponse {
+  UserId: string
+}
+
+interface SystemUserRecord {
+  fullname?: string
+  domainname?: string
+}
+
+/** usersettings record, timezonebias is minutes behind UTC */
+interface UserSettingsRecord {
+  uilanguageid?: number
+  timezonebias?: number
+}
+
+const startUsers = new WeakMap<object, StartUser>()
+let activePersona: string | null = null
+const listeners = new Set<PersonaListener>()
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Request to ${url} failed: ${response.status}`)
+  }
+  return response.json()
+}
+
+/**
+ * Subscribe to persona switches, returns an unsubscribe function
+ */
+export function onPersonaChanged(listener: PersonaListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function getPersonas(): UserPersona[] {
+  return personas
+}
+
+export function setPersonas(newPersonas: UserPersona[]): void {
+  personas = newPersonas
+}
+
+/**
+ * Name of the persona in use, null while the harness runs with the default mock user
+ */
+export function getActivePersona(): string | null {
+  return activePersona
+}
+
+/**
+ * The mock user from createMockContext, captured before the first switch
+ */
+function getStartUser(context: ComponentFramework.Context<any>): StartUser {
+  let startUser = startUsers.get(context)
+  if (!startUser) {
+    const { userName, languageId } = context.userSettings
+    startUser = {
+      userName,
+      languageId,
+      timeZoneOffsetMinutes: context.userSettings.getTimeZoneOffsetMinutes(),
+    }
+    startUsers.set(context, startUser)
+  }
+  return startUser
+}
+
+/**
+ * Load the signed-in user's systemuser record and usersettings through the Dataverse proxy
+ * usersettings.timezonebias is minutes behind UTC, daylight saving time is not applied.
+ */
+export async function loadSignedInUser(): Promise<UserPersona> {
+  const { UserId: userId } = await fetchJson<WhoAmIResponse>('/api/data/v9.2/WhoAmI')
+  const [user, settings] = await Promise.all([
+    fetchJson<SystemUserRecord>(
+      `/api/data/v9.2/systemusers(${userId})?$select=fullname,domainname`
+    ),
+    fetchJson<UserSettingsRecord>(
+      `/api/data/v9.2/usersettingscollection(${userId})?$select=uilanguageid,timezonebias`
+    ),
+  ])
+
+  return {
+    name: SIGNED_IN_PERSONA,
+    displayName: user.fullname,
+    userName: user.domainname,
+    userId,
+    languageId: settings.uilanguageid,
+    timeZoneOffsetMinutes: settings.timezonebias === undefined ? undefined : -settings.timezonebias,
+  }
+}
+
+/**
+ * Switch to a persona: userSettings, locale, security roles and hasEntityPrivilege follow it
+ * Settings a persona leaves out come from the mock user the harness started with.
+ * Calls updateView with the properties whose formatted value changed.
+ */
+export async function switchPersona(
+  context: ComponentFramework.Context<any>,
+  name: string
+): Promise<UserSecurityInfo | null> {
+  const persona = personas.find(candidate => candidate.name === name)
+  if (name !== SIGNED_IN_PERSONA && !persona) {
+    throw new Error(`No persona named "${name}"`)
+  }
+
+  // Load the roles alongside the user so hasEntityPrivilege can answer from them sooner
+  const personaUserId = persona?.userId || `persona-${name.toLowerCase().replace(/\W+/g, '-')}`
+  const [user, security] = await Promise.all([
+    persona || loadSignedInUser(),
+    persona
+      ? loadRoleSecurity(personaUserId, persona.roles || [], persona.privileges)
+      : loadUserSecurity(),
+  ])
+
+  const userSettings = context.userSettings as HarnessUserSettings
+  const startUser = getStartUser(context)
+  userSettings.userId = user.userId || personaUserId
+  userSettings.userName = user.userName || startUser.userName
+  userSettings.displayName = user.displayName || user.name
+  userSettings.securityRoles = security?.roles || []
+  setUserLocale(context, {
+    languageId: user.languageId ?? startUser.languageId,
+    timeZoneOffsetMinutes: user.timeZoneOffsetMinutes ?? startUser.timeZoneOffsetMinutes,
+  })
+
+  activePersona = name
+  console.log(`👤 Switched to persona ${name}`, {
+    userId: userSettings.userId,
+    roles: security?.roleNames,
+    languageId: userSettings.languageId,
+  })
+  for (const listener of listeners) {
+    listener(name)
+  }
+
+  requestContextUpdate(context, reformatMockProperties(context))
+  return security
+}
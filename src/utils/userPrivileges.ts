@@ -0,0 +1,245 @@
+/**
+ * User Privileges
+ * Loads the current user's security roles and privileges so hasEntityPrivilege can answer synchronously
+ */
+
+/** Privilege name prefix per PrivilegeType (0 = None) */
+const PRIVILEGE_NAMES = [
+  '',
+  'Create',
+  'Read',
+  'Write',
+  'Delete',
+  'Assign',
+  'Share',
+  'Append',
+  'AppendTo',
+]
+
+const DEPTH_CODES: Record<string, number> = {
+  Basic: 0,
+  Local: 1,
+  Deep: 2,
+  Global: 3,
+}
+
+const GUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export interface UserSecurityInfo {
+  userId: string
+  /** Security role ids, as in userSettings.securityRoles */
+  roles: string[]
+  roleNames: string[]
+  /** Deepest depth per lowercased privilege name, e.g. prvreadaccount */
+  privileges: Map<string, number>
+}
+
+/** WhoAmI function response */
+interface WhoAmIResponse {
+  UserId: string
+  BusinessUnitId: string
+  OrganizationId: string
+}
+
+interface RoleRecord {
+  roleid: string
+  name: string
+}
+
+/** systemuser with its expanded security roles */
+interface SystemUserRolesRecord {
+  fullname?: string
+  systemuserroles_association?: RoleRecord[]
+}
+
+/** Depth is a name like Global from the Web API, or the depth code */
+interface RolePrivilege {
+  PrivilegeName: string
+  Depth: string | number
+}
+
+/** RetrieveUserPrivileges and RetrieveRolePrivilegesRole response */
+interface RolePrivilegesResponse {
+  RolePrivileges?: RolePrivilege[]
+}
+
+let securityInfo: UserSecurityInfo | null = null
+let loading: Promise<UserSecurityInfo | null> = Promise.resolve(null)
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Request to ${url} failed: ${response.status}`)
+  }
+  return response.json()
+}
+
+async function fetchUserSecurity(userId?: string): Promise<UserSecurityInfo> {
+  // The default mock user id is not a real systemuser, ask Dataverse who we are
+  const systemUserId =
+    userId && GUID_PATTERN.test(userId)
+      ? userId
+      : (await fetchJson<WhoAmIResponse>('/api/data/v9.2/WhoAmI')).UserId
+
+  const [user, userPrivileges] = await Promise.all([
+    fetchJson<SystemUserRolesRecord>(
+      `/api/data/v9.2/systemusers(${systemUserId})?$select=fullname&$expand=systemuserroles_association($select=roleid,name)`
+    ),
+    fetchJson<RolePrivilegesResponse>(
+      `/api/data/v9.2/systemusers(${systemUserId})/Microsoft.Dynamics.CRM.RetrieveUserPrivileges()`
+    ),
+  ])
+
+  const privileges = new Map<string, number>()
+  addPrivileges(privileges, userPrivileges.RolePrivileges || [])
+
+  const roles = user.systemuserroles_association || []
+  return {
+    userId: systemUserId,
+    roles: roles.map(role => role.roleid),
+    roleNames: roles.map(role => role.name),
+    privileges,
+  }
+}
+
+/**
+ * Merge RolePrivilege entries into the map, keeping the deepest depth per privilege
+ */
+function addPrivileges(privileges: Map<string, number>, rolePrivileges: RolePrivilege[]): void {
+  for (const privilege of rolePrivileges) {
+    const name = String(privilege.PrivilegeName).toLowerCase()
+    const depth =
+      typeof privilege.Depth === 'number' ? privilege.Depth : (DEPTH_CODES[privilege.Depth] ?? -1)
+    privileges.set(name, Math.max(depth, privileges.get(name) ?? -1))
+  }
+}
+
+async function fetchRoleSecurity(
+  userId: string,
+  roleNames: string[],
+  extraPrivileges: Record<string, string | number>
+): Promise<UserSecurityInfo> {
+  const privileges = new Map<string, number>()
+  const roles: RoleRecord[] = []
+
+  // Without Dataverse the extra privileges still apply
+  if (roleNames.length > 0) {
+    try {
+      const filter = roleNames.map(name => `name eq '${name.replace(/'/g, "''")}'`).join(' or ')
+      const result = await fetchJson<{ value?: RoleRecord[] }>(
+        `/api/data/v9.2/roles?$select=roleid,name&$filter=${filter}`
+      )
+      // Every business unit has a copy of each role, one per name is enough
+      for (const role of result.value || []) {
+        if (!roles.some(existing => existing.name === role.name)) {
+          roles.push(role)
+        }
+      }
+
+      const missing = roleNames.filter(name => !roles.some(role => role.name === name))
+      if (missing.length > 0) {
+        console.warn(`⚠️ Security roles not found: ${missing.join(', ')}`)
+      }
+
+      const rolePrivileges = await Promise.all(
+        roles.map(role =>
+          fetchJson<RolePrivilegesResponse>(
+            `/api/data/v9.2/RetrieveRolePrivilegesRole(RoleId=${role.roleid})`
+          )
+        )
+      )
+      for (const result of rolePrivileges) {
+        addPrivileges(privileges, result.RolePrivileges || [])
+      }
+    } catch (error) {
+      console.warn('⚠️ Could not load the security roles, only the extra privileges apply:', error)
+    }
+  }
+
+  addPrivileges(
+    privileges,
+    Object.entries(extraPrivileges).map(([PrivilegeName, Depth]) => ({ PrivilegeName, Depth }))
+  )
+
+  return {
+    userId,
+    roles: roles.map(role => role.roleid),
+    roleNames: roles.map(role => role.name),
+    privileges,
+  }
+}
+
+function trackUserSecurity(
+  load: Promise<UserSecurityInfo>,
+  failureMessage: string
+): Promise<UserSecurityInfo | null> {
+  loading = load
+    .then(info => {
+      securityInfo = info
+      console.log(
+        `🔐 Loaded ${info.privileges.size} privileges from roles: ${info.roleNames.join(', ') || 'none'}`
+      )
+      return info
+    })
+    .catch(error => {
+      console.warn(failureMessage, error)
+      securityInfo = null
+      return null
+    })
+  return loading
+}
+
+/**
+ * Load roles and privileges for a user (or the signed-in user when the id is not a GUID)
+ * Failures are logged and leave every privilege check false.
+ */
+export function loadUserSecurity(userId?: string): Promise<UserSecurityInfo | null> {
+  return trackUserSecurity(
+    fetchUserSecurity(userId),
+    '⚠️ Could not load user roles, hasEntityPrivilege will return false:'
+  )
+}
+
+/**
+ * Give a fake user the privileges of security roles looked up by name, plus extra privileges
+ * Extra privileges are keyed by name with a depth, e.g. { prvReadAccount: 'Global' }.
+ */
+export function loadRoleSecurity(
+  userId: string,
+  roleNames: string[],
+  extraPrivileges: Record<string, string | number> = {}
+): Promise<UserSecurityInfo | null> {
+  return trackUserSecurity(
+    fetchRoleSecurity(userId, roleNames, extraPrivileges),
+    '⚠️ Could not set up the security roles, hasEntityPrivilege will return false:'
+  )
+}
+
+/**
+ * Resolves once the last loadUserSecurity call settled
+ */
+export function whenUserSecurityLoaded(): Promise<UserSecurityInfo | null> {
+  return loading
+}
+
+export function getUserSecurity(): UserSecurityInfo | null {
+  return securityInfo
+}
+
+/**
+ * Mock for context.utils.hasEntityPrivilege
+ * True when one of the user's roles grants the privilege at the requested depth or deeper.
+ */
+export function hasEntityPrivilege(
+  entityTypeName: string,
+  privilegeType: ComponentFramework.PropertyHelper.Types.PrivilegeType,
+  privilegeDepth: ComponentFramework.PropertyHelper.Types.PrivilegeDepth
+): boolean {
+  const privilegeName = PRIVILEGE_NAMES[privilegeType]
+  if (!securityInfo || !privilegeName) {
+    return false
+  }
+
+  const depth = securityInfo.privileges.get(`prv${privilegeName}${entityTypeName}`.toLowerCase())
+  return depth !== undefined && depth >= privilegeDepth
+}
@@ -0,0 +1,235 @@
+/**
+ * Web API Log
+ * Structured log of context.webAPI calls: request, status, duration, records and the calling code
+ */
+
+import { fetchWithFaults } from './faultInjection'
+
+const MAX_WEB_API_LOG_ENTRIES = 200
+let callSequence = 0
+
+export type WebApiMethod =
+  | 'retrieveMultipleRecords'
+  | 'retrieveRecord'
+  | 'createRecord'
+  | 'updateRecord'
+  | 'deleteRecord'
+  | 'execute'
+
+export interface WebApiCall {
+  id: number
+  timestamp: Date
+  method: WebApiMethod
+  entity: string
+  recordId?: string
+  /** Action, function or CRUD operation of an execute request */
+  operationName?: string
+  /** OData query options as the control passed them */
+  options?: string
+  /** FetchXML from the fetchXml option, decoded */
+  fetchXml?: string
+  /** Data passed to createRecord or updateRecord */
+  data?: unknown
+  httpMethod?: string
+  /** Headers such as Prefer that the request sent */
+  requestHeaders?: Record<string, string>
+  /** Request URL relative to the harness, e.g. /api/data/v9.2/accounts?$top=5 */
+  url?: string
+  /** GET the harness sent before the request to read the record name, for deleteRecord */
+  nameLookupUrl?: string
+  status?: number
+  durationMs?: number
+  recordCount?: number
+  /** Parsed JSON response, or the response text when it is not JSON */
+  response?: unknown
+  error?: string
+  /** Stack frames of the code that called context.webAPI */
+  callStack?: string[]
+  pending: boolean
+}
+
+type WebApiLogListener = (calls: WebApiCall[]) => void
+
+let calls: WebApiCall[] = []
+const listeners = new Set<WebApiLogListener>()
+
+function notifyListeners(): void {
+  for (const listener of listeners) {
+    listener(calls)
+  }
+}
+
+/**
+ * The FetchXML in an options string such as ?fetchXml=%3Cfetch...
+ */
+export function decodeFetchXml(options?: string): string | undefined {
+  const match = options?.match(/[?&]?fetchXml=([^&]+)/)
+  if (!match?.[1]) {
+    return undefined
+  }
+  try {
+    return decodeURIComponent(match[1])
+  } catch {
+    return match[1]
+  }
+}
+
+/**
+ * Frames of the caller, skipping this function, startWebApiCall and the webAPI method
+ */
+function getCallStack(): string[] {
+  const frames = (new Error().stack || '').split('\n').slice(4)
+  return frames
+    .map(frame => frame.trim())
+    .filter(frame => frame && !frame.includes('node_modules/.vite/deps'))
+    .slice(0, 8)
+}
+
+/**
+ * Log the start of a webAPI call, finish it with completeWebApiCall
+ */
+export function startWebApiCall(
+  call: Pick<WebApiCall, 'method' | 'entity' | 'recordId' | 'operationName' | 'options' | 'data'>
+): WebApiCall {
+  const entry: WebApiCall = {
+    ...call,
+    id: ++callSequence,
+    timestamp: new Date(),
+    fetchXml: decodeFetchXml(call.options),
+    callStack: getCallStack(),
+    pending: true,
+  }
+  calls = [entry, ...calls].slice(0, MAX_WEB_API_LOG_ENTRIES)
+  notifyListeners()
+  return entry
+}
+
+/**
+ * fetch for a logged call with fault injection, records the URL, status and response body
+ */
+export async function fetchForWebApiCall(
+  call: WebApiCall,
+  url: string,
+  init?: RequestInit
+): Promise<Response> {
+  call.url = url
+  call.httpMethod = init?.method || 'GET'
+  call.requestHeaders = init?.headers as Record<string, string> | undefined
+  const response = await fetchWithFaults(
+    { method: call.method, entity: call.entity, recordId: call.recordId },
+    url,
+    init
+  )
+  call.status = response.status
+
+  const text = await response.clone().text()
+  try {
+    call.response = text ? JSON.parse(text) : undefined
+  } catch {
+    call.response = text
+  }
+  return response
+}
+
+/**
+ * Log the outcome of a webAPI call
+ */
+export function completeWebApiCall(
+  call: WebApiCall,
+  outcome: { recordCount?: number; error?: unknown } = {}
+): void {
+  call.pending = false
+  call.durationMs = Date.now() - call.timestamp.getTime()
+  call.recordCount = outcome.recordCount
+  if (outcome.error !== undefined) {
+    call.error = outcome.error instanceof Error ? outcome.error.message : String(outcome.error)
+  }
+  calls = [...calls]
+  notifyListeners()
+}
+
+/**
+ * Logged webAPI calls, newest first
+ */
+export function getWebApiCalls(): WebApiCall[] {
+  return calls
+}
+
+export function clearWebApiCalls(): void {
+  calls = []
+  notifyListeners()
+}
+
+/**
+ * Subscribe to webAPI log changes, returns an unsubscribe function
+ */
+export function onWebApiCallsChanged(listener: WebApiLogListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+function getRequestBody(call: WebApiCall): string | undefined {
+  return call.data === undefined ? undefined : JSON.stringify(call.data)
+}
+
+/** Request headers other than the Accept and Content-Type every copied request sets */
+function getExtraHeaders(call: WebApiCall): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(call.requestHeaders || {}).filter(
+      ([name]) => !['accept', 'content-type'].includes(name.toLowerCase())
+    )
+  )
+}
+
+/** Single-quote a value for a POSIX shell */
+function quoteShellArgument(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`
+}
+
+/** Percent-encode the URL the way fetch does, leaving it as is when it does not parse */
+function encodeRequestUrl(url: string): string {
+  try {
+    return new URL(url).href
+  } catch {
+    return url
+  }
+}
+
+/**
+ * The call as a curl command against the Dataverse org, with a token placeholder
+ */
+export function toCurlCommand(call: WebApiCall, dataverseUrl: string): string {
+  const url = encodeRequestUrl(`${dataverseUrl.replace(/\/$/, '')}${call.url || ''}`)
+  const body = getRequestBody(call)
+  return [
+    `curl -X ${call.httpMethod || 'GET'} ${quoteShellArgument(url)}`,
+    `  -H 'Authorization: Bearer <token>'`,
+    `  -H 'Accept: application/json'`,
+    `  -H 'OData-Version: 4.0'`,
+    ...Object.entries(getExtraHeaders(call)).map(
+      ([name, value]) => `  -H ${quoteShellArgument(`${name}: ${value}`)}`
+    ),
+    ...(body
+      ? [`  -H 'Content-Type: application/json'`, `  --data ${quoteShellArgument(body)}`]
+      : []),
+  ].join(' \\\n')
+}
+
+/**
+ * The call as a fetch statement against the harness proxy
+ */
+export function toFetchStatement(call: WebApiCall): string {
+  const body = getRequestBody(call)
+  const init = {
+    method: call.httpMethod || 'GET',
+    headers: {
+      Accept: 'application/json',
+      ...getExtraHeaders(call),
+      ...(body ? { 'Content-Type': 'application/json' } : {}),
+    },
+    ...(body ? { body } : {}),
+  }
+  return `await fetch(${JSON.stringify(call.url || '')}, ${JSON.stringify(init, null, 2)}).then(response => response.json())`
+}
@@ -0,0 +1,260 @@
+/**
+ * Web API Requests
+ * Turns Xrm.WebApi-style execute requests (actions, functions, CRUD, associate and disassociate) into Web API requests
+ */
+
+/** 0 Unknown, 1 PrimitiveType, 2 ComplexType, 3 EnumerationType, 4 Collection, 5 EntityType */
+export type StructuralProperty = 0 | 1 | 2 | 3 | 4 | 5
+
+export interface ExecuteRequestParameterType {
+  /** e.g. Edm.String, mscrm.account or mscrm.RollupType */
+  typeName: string
+  structuralProperty: StructuralProperty
+  enumProperties?: Array<{ name: string; value: number }>
+}
+
+export interface ExecuteRequestMetadata {
+  /** undefined for CRUD requests, null for unbound operations, else the bound parameter, e.g. entity */
+  boundParameter?: string | null
+  parameterTypes?: Record<string, ExecuteRequestParameterType>
+  /** 0 Action, 1 Function, 2 CRUD */
+  operationType?: 0 | 1 | 2
+  /** Action or function name, or Create, Retrieve, Update, Delete, Associate and Disassociate */
+  operationName: string
+}
+
+/** A request for execute, its properties are the operation parameters */
+export interface ExecuteRequest {
+  getMetadata: () => ExecuteRequestMetadata
+  [parameter: string]: unknown
+}
+
+export interface EntityReference {
+  entityType: string
+  id: string
+}
+
+/** Where an entity's records live, from its metadata */
+export interface EntityInfo {
+  collectionName: string
+  primaryIdAttribute: string
+}
+
+export type EntityInfoResolver = (entityLogicalName: string) => Promise<EntityInfo>
+
+export interface WebApiRequest {
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE'
+  /** Path and query below /api/data/v9.2/ */
+  path: string
+  body?: unknown
+}
+
+/** context.webAPI with the Xrm.WebApi.online execute methods */
+export type HarnessWebApi = ComponentFramework.WebApi & {
+  execute: (request: ExecuteRequest) => Promise<Response>
+  /** Items that are arrays are change sets */
+  executeMultiple: (requests: Array<ExecuteRequest | ExecuteRequest[]>) => Promise<Response[]>
+}
+
+/** Parameters of the Create, Retrieve, Update, Delete, Associate and Disassociate requests */
+interface CrudRequest extends ExecuteRequest {
+  etn: string
+  id: string
+  payload?: Record<string, unknown>
+  entityReference: EntityReference
+  columns?: string[]
+  target: EntityReference
+  relationship: string
+  relatedEntities?: EntityReference[]
+  relatedEntityId?: string
+}
+
+const NAMESPACE = 'Microsoft.Dynamics.CRM'
+
+const formatGuid = (id: string) => id.replace(/[{}]/g, '')
+
+function isEntityReference(value: unknown): value is EntityReference {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as EntityReference).entityType === 'string' &&
+    typeof (value as EntityReference).id === 'string'
+  )
+}
+
+/**
+ * The entity a request works on, or the operation name for unbound actions and functions
+ */
+export function getRequestEntity(request: ExecuteRequest): string {
+  const { boundParameter, operationName } = request.getMetadata()
+  const candidates = [
+    boundParameter ? request[boundParameter] : undefined,
+    request.target,
+    request.entityReference,
+  ]
+  const reference = candidates.find(
+    candidate => typeof (candidate as EntityReference | undefined)?.entityType === 'string'
+  ) as EntityReference | undefined
+  return reference?.entityType || (typeof request.etn === 'string' ? request.etn : operationName)
+}
+
+function getParameters(request: ExecuteRequest, boundParameter?: string | null) {
+  return Object.entries(request).filter(
+    ([name, value]) => name !== 'getMetadata' && name !== boundParameter && value !== undefined
+  )
+}
+
+async function toRecordPath(reference: EntityReference, resolve: EntityInfoResolver) {
+  const { collectionName } = await resolve(reference.entityType)
+  return `${collectionName}(${formatGuid(reference.id)})`
+}
+
+/**
+ * Action parameter as JSON, entity references become @odata.type records
+ */
+async function toActionValue(value: unknown, resolve: EntityInfoResolver): Promise<unknown> {
+  if (Array.isArray(value)) {
+    return Promise.all(value.map(item => toActionValue(item, resolve)))
+  }
+  if (isEntityReference(value) && !('@odata.type' in value)) {
+    const { primaryIdAttribute } = await resolve(value.entityType)
+    return {
+      '@odata.type': `${NAMESPACE}.${value.entityType}`,
+      [primaryIdAttribute]: formatGuid(value.id),
+    }
+  }
+  return value
+}
+
+/**
+ * Function parameter as an OData literal for a parameter alias
+ */
+async function toFunctionLiteral(
+  value: unknown,
+  type: ExecuteRequestParameterType | undefined,
+  resolve: EntityInfoResolver
+): Promise<string> {
+  if (isEntityReference(value)) {
+    return JSON.stringify({ '@odata.id': await toRecordPath(value, resolve) })
+  }
+  if (type?.structuralProperty === 3) {
+    return `${NAMESPACE}.${type.typeName.replace(/^mscrm\./, '')}'${value}'`
+  }
+  if (value instanceof Date) {
+    return value.toISOString()
+  }
+  if (typeof value === 'string') {
+    return type?.typeName === 'Edm.Guid' ? value : `'${value.replace(/'/g, "''")}'`
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+async function buildOperationRequest(
+  request: ExecuteRequest,
+  metadata: ExecuteRequestMetadata,
+  resolve: EntityInfoResolver
+): Promise<WebApiRequest> {
+  const { boundParameter, operationName, operationType, parameterTypes = {} } = metadata
+  const bound = boundParameter ? request[boundParameter] : undefined
+  let path = operationName
+  if (boundParameter) {
+    if (!bound || typeof (bound as EntityReference).entityType !== 'string') {
+      throw new Error(`${operationName} needs the bound parameter "${boundParameter}"`)
+    }
+    // Without an id the operation is bound to the entity set
+    path = isEntityReference(bound)
+      ? `${await toRecordPath(bound, resolve)}/${NAMESPACE}.${operationName}`
+      : `${(await resolve((bound as EntityReference).entityType)).collectionName}/${NAMESPACE}.${operationName}`
+  }
+  const parameters = getParameters(request, boundParameter)
+
+  if (operationType === 1) {
+    const aliases: string[] = []
+    const values: string[] = []
+    for (const [index, [name, value]] of parameters.entries()) {
+      const literal = await toFunctionLiteral(value, parameterTypes[name], resolve)
+      aliases.push(`${name}=@p${index + 1}`)
+      values.push(`@p${index + 1}=${encodeURIComponent(literal)}`)
+    }
+    return {
+      method: 'GET',
+      path: `${path}(${aliases.join(',')})${values.length > 0 ? `?${values.join('&')}` : ''}`,
+    }
+  }
+
+  const body: Record<string, unknown> = {}
+  for (const [name, value] of parameters) {
+    body[name] = await toActionValue(value, resolve)
+  }
+  return { method: 'POST', path, body }
+}
+
+/**
+ * The Web API requests for an execute request, Associate sends one per related record
+ */
+export async function buildExecuteRequests(
+  request: ExecuteRequest,
+  resolve: EntityInfoResolver
+): Promise<WebApiRequest[]> {
+  const metadata = request.getMetadata()
+  if (metadata.operationType !== 2) {
+    return [await buildOperationRequest(request, metadata, resolve)]
+  }
+
+  const { etn, id, payload, entityReference, columns, target, relationship } =
+    request as CrudRequest
+  switch (metadata.operationName) {
+    case 'Create':
+      return [{ method: 'POST', path: (await resolve(etn)).collectionName, body: payload }]
+    case 'Retrieve': {
+      const select = columns && columns.length > 0 ? `?$select=${columns.join(',')}` : ''
+      return [{ method: 'GET', path: `${await toRecordPath(entityReference, resolve)}${select}` }]
+    }
+    case 'Update':
+      return [
+        {
+          method: 'PATCH',
+          path: await toRecordPath({ entityType: etn, id }, resolve),
+          body: payload,
+        },
+      ]
+    case 'Delete':
+      return [{ method: 'DELETE', path: await toRecordPath(entityReference, resolve) }]
+    case 'Associate': {
+      const targetPath = await toRecordPath(target, resolve)
+      const { relatedEntities = [] } = request as CrudRequest
+      return Promise.all(
+        relatedEntities.map(async reference => ({
+          method: 'POST' as const,
+          path: `${targetPath}/${relationship}/$ref`,
+          body: { '@odata.id': await toRecordPath(reference, resolve) },
+        }))
+      )
+    }
+    case 'Disassociate': {
+      const targetPath = await toRecordPath(target, resolve)
+      // Single-valued navigation properties have no related id
+      const relatedId = (request as CrudRequest).relatedEntityId
+      return [
+        {
+          method: 'DELETE',
+          path: relatedId
+            ? `${targetPath}/${relationship}(${formatGuid(relatedId)})/$ref`
+            : `${targetPath}/${relationship}/$ref`,
+        },
+      ]
+    }
+    default:
+      throw new Error(`The ${metadata.operationName} request is not supported`)
+  }
+}
+
+/**
+ * The query string of retrieveMultipleRecords options, which may be the previous page's nextLink
+ */
+export function getQueryString(options: string): string {
+  if (/^https?:\/\//i.test(options) || options.startsWith('/api/data/')) {
+    return new URL(options, 'http://localhost').search
+  }
+  return options.startsWith('?') ? options : `?${options}`
+}
@@ -5,7 +5,7 @@ import 'pcf-vite-harness/styles/powerapps.css'
 import { dataset } from '../dataset/index'
 
 // Initialize the PCF harness with auto-detected manifest info
-initializePCFHarness({
+const harness = initializePCFHarness({
   pcfClass: dataset,
   containerId: 'pcf-container',
   // Auto-detected manifest info from dataset/ControlManifest.Input.xml
@@ -20,6 +20,15 @@ initializePCFHarness({
   },
 })
 
+// Swap the component in place when its source changes, keeping context, records and state
+if (import.meta.hot) {
+  import.meta.hot.accept('../dataset/index', newModule => {
+    if (newModule) {
+      harness.updatePCFClass(newModule.dataset)
+    }
+  })
+}
+
 // For additional configuration options:
 /*
 initializePCFHarness({
@@ -5,7 +5,7 @@ import 'pcf-vite-harness/styles/powerapps.css'
 import { field } from '../field/index'
 
 // Initialize the PCF harness with auto-detected manifest info
-initializePCFHarness({
+const harness = initializePCFHarness({
   pcfClass: field,
   containerId: 'pcf-container',
   // Auto-detected manifest info from field/ControlManifest.Input.xml
@@ -15,9 +15,30 @@ initializePCFHarness({
     version: '1.0',
     displayName: 'field',
     description: 'field description',
+    componentType: 'field',
+    properties: [
+      {
+        name: 'sampleProperty',
+        displayNameKey: 'Property_Display_Key',
+        descriptionKey: 'Property_Desc_Key',
+        ofType: 'SingleLine.Text',
+        types: ['SingleLine.Text'],
+        usage: 'bound',
+        required: true,
+      },
+    ],
   },
 })
 
+// Swap the component in place when its source changes, keeping context, records and state
+if (import.meta.hot) {
+  import.meta.hot.accept('../field/index', newModule => {
+    if (newModule) {
+      harness.updatePCFClass(newModule.field)
+    }
+  })
+}
+
 // For additional configuration options:
 /*
 initializePCFHarness({
@@ -0,0 +1,187 @@
+/**
+ * Unit tests for running FetchXML against offline fixtures
+ */
+
+import { describe, expect, it } from 'vitest'
+import { type FetchXmlSource, runFetchXml } from '../../src/utils/fetchXmlQuery'
+import { ODataQueryError, type ODataRecord } from '../../src/utils/odataQuery'
+
+const records: Record<string, ODataRecord[]> = {
+  account: [
+    { accountid: 'a1', name: 'Contoso', revenue: 100, _primarycontactid_value: 'c1' },
+    { accountid: 'a2', name: 'Fabrikam', revenue: 300, _primarycontactid_value: 'c2' },
+    { accountid: 'a3', name: 'Northwind', revenue: 200, _primarycontactid_value: null },
+    { accountid: 'a4', name: 'Contoso East', revenue: null, _primarycontactid_value: 'c1' },
+    { accountid: 'a5', name: 'Adventure Works', revenue: 500, _primarycontactid_value: 'c3' },
+  ],
+  contact: [
+    { contactid: 'c1', fullname: 'Yvonne McKay', jobtitle: 'Buyer' },
+    { contactid: 'c2', fullname: 'Susanna Stubberod', jobtitle: 'Purchasing Manager' },
+    { contactid: 'c3', fullname: 'Nancy Anderson', jobtitle: 'Buyer' },
+  ],
+}
+
+const source: FetchXmlSource = {
+  getRecords: entity => records[entity] ?? [],
+  getPrimaryIdAttribute: entity => `${entity}id`,
+}
+
+const ids = (result: { records: ODataRecord[] }) => result.records.map(record => record.accountid)
+
+describe('runFetchXml', () => {
+  it('selects the attributes with the primary id', () => {
+    const result = runFetchXml(
+      `<fetch>
+        <entity name="account">
+          <attribute name="name" />
+          <filter><condition attribute="accountid" operator="eq" value="a2" /></filter>
+        </entity>
+      </fetch>`,
+      source
+    )
+    expect(result.entityName).toBe('account')
+    expect(result.records).toEqual([{ accountid: 'a2', name: 'Fabrikam' }])
+  })
+
+  it('pages with count and page and reports the total', () => {
+    const fetchXml = (page: number) => `<fetch count="2" page="${page}">
+        <entity name="account">
+          <attribute name="name" />
+          <order attribute="name" />
+        </entity>
+      </fetch>`
+
+    const first = runFetchXml(fetchXml(1), source)
+    expect(ids(first)).toEqual(['a5', 'a1'])
+    expect(first).toMatchObject({ totalCount: 5, pageSize: 2, page: 1 })
+
+    expect(ids(runFetchXml(fetchXml(2), source))).toEqual(['a4', 'a2'])
+    expect(ids(runFetchXml(fetchXml(3), source))).toEqual(['a3'])
+    expect(ids(runFetchXml(fetchXml(4), source))).toEqual([])
+  })
+
+  it('applies top after sorting', () => {
+    const result = runFetchXml(
+      `<fetch top="2">
+        <entity name="account">
+          <attribute name="name" />
+          <order attribute="revenue" descending="true" />
+        </entity>
+      </fetch>`,
+      source
+    )
+    expect(ids(result)).toEqual(['a5', 'a2'])
+    expect(result.totalCount).toBe(5)
+  })
+
+  it('matches in, not-in, like and null conditions', () => {
+    const run = (condition: string) =>
+      ids(
+        runFetchXml(
+          `<fetch><entity name="account"><filter>${condition}</filter></entity></fetch>`,
+          source
+        )
+      )
+
+    expect(
+      run(
+        '<condition attribute="name" operator="in"><value>Contoso</value><value>Northwind</value></condition>'
+      )
+    ).toEqual(['a1', 'a3'])
+    expect(
+      run(
+        '<condition attribute="revenue" operator="not-in"><value>100</value><value>300</value></condition>'
+      )
+    ).toEqual(['a3', 'a4', 'a5'])
+    expect(run('<condition attribute="name" operator="like" value="contoso%" />')).toEqual([
+      'a1',
+      'a4',
+    ])
+    expect(run('<condition attribute="name" operator="like" value="%wor_s" />')).toEqual(['a5'])
+    expect(run('<condition attribute="name" operator="not-like" value="%o%" />')).toEqual(['a2'])
+    expect(run('<condition attribute="revenue" operator="null" />')).toEqual(['a4'])
+  })
+
+  it('combines and and or filters', () => {
+    const result = runFetchXml(
+      `<fetch>
+        <entity name="account">
+          <filter type="and">
+            <condition attribute="revenue" operator="ge" value="200" />
+            <filter type="or">
+              <condition attribute="name" operator="begins-with" value="North" />
+              <condition attribute="name" operator="ends-with" value="works" />
+            </filter>
+          </filter>
+        </entity>
+      </fetch>`,
+      source
+    )
+    expect(ids(result)).toEqual(['a3', 'a5'])
+  })
+
+  it('joins link-entity records with their aliased attributes and filters', () => {
+    const result = runFetchXml(
+      `<fetch>
+        <entity name="account">
+          <attribute name="name" />
+          <order attribute="name" />
+          <link-entity name="contact" from="contactid" to="primarycontactid" alias="pc">
+            <attribute name="fullname" />
+            <filter><condition attribute="jobtitle" operator="eq" value="Buyer" /></filter>
+          </link-entity>
+        </entity>
+      </fetch>`,
+      source
+    )
+    expect(result.records).toEqual([
+      { accountid: 'a5', name: 'Adventure Works', 'pc.fullname': 'Nancy Anderson' },
+      { accountid: 'a1', name: 'Contoso', 'pc.fullname': 'Yvonne McKay' },
+      { accountid: 'a4', name: 'Contoso East', 'pc.fullname': 'Yvonne McKay' },
+    ])
+  })
+
+  it('keeps unmatched rows of outer links and filters and sorts on the alias', () => {
+    const result = runFetchXml(
+      `<fetch>
+        <entity name="account">
+          <attribute name="name" />
+          <link-entity name="contact" from="contactid" to="primarycontactid" alias="pc" link-type="outer">
+            <attribute name="fullname" />
+          </link-entity>
+          <filter>
+            <condition entityname="pc" attribute="fullname" operator="not-null" />
+          </filter>
+          <order entityname="pc" attribute="fullname" descending="true" />
+          <order attribute="name" />
+        </entity>
+      </fetch>`,
+      source
+    )
+    expect(ids(result)).toEqual(['a1', 'a4', 'a2', 'a5'])
+
+    const outer = runFetchXml(
+      `<fetch>
+        <entity name="account">
+          <filter><condition attribute="accountid" operator="eq" value="a3" /></filter>
+          <link-entity name="contact" from="contactid" to="primarycontactid" alias="pc" link-type="outer">
+            <attribute name="fullname" />
+          </link-entity>
+        </entity>
+      </fetch>`,
+      source
+    )
+    expect(ids(outer)).toEqual(['a3'])
+    expect(outer.records[0]).not.toHaveProperty('pc.fullname')
+  })
+
+  it('rejects aggregates and malformed FetchXML', () => {
+    expect(() =>
+      runFetchXml('<fetch aggregate="true"><entity name="account" /></fetch>', source)
+    ).toThrow(ODataQueryError)
+    expect(() => runFetchXml('<fetch><entity name="account"></fetch>', source)).toThrow(
+      ODataQueryError
+    )
+    expect(() => runFetchXml('<entity name="account" />', source)).toThrow(ODataQueryError)
+  })
+})
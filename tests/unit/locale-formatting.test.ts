@@ -0,0 +1,165 @@
+/**
+ * Unit tests for the locale-aware context.formatting
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  createDateFormattingInfo,
+  createMockFormatting,
+  createNumberFormattingInfo,
+  formatDatePattern,
+  setUserLocale,
+} from '../../src/utils/localeFormatting'
+
+const NO_BREAK_SPACE = '\u00a0'
+
+// Tuesday 5 March 2024, 14:07:09 local time
+const date = new Date(2024, 2, 5, 14, 7, 9)
+
+function createUserSettings(languageId: number, timeZoneOffsetMinutes = 0) {
+  return {
+    languageId,
+    isRTL: false,
+    numberFormattingInfo: createNumberFormattingInfo(languageId),
+    dateFormattingInfo: createDateFormattingInfo(languageId),
+    _timeZoneOffsetMinutes: timeZoneOffsetMinutes,
+    getTimeZoneOffsetMinutes(this: { _timeZoneOffsetMinutes: number }) {
+      return this._timeZoneOffsetMinutes
+    },
+  } as unknown as ComponentFramework.UserSettings
+}
+
+function createFormatting(languageId: number, timeZoneOffsetMinutes = 0) {
+  const userSettings = createUserSettings(languageId, timeZoneOffsetMinutes)
+  return createMockFormatting(() => userSettings)
+}
+
+describe('locale presets', () => {
+  it('fills the number formatting info from the preset', () => {
+    const info = createNumberFormattingInfo(1031)
+    expect(info.numberDecimalSeparator).toBe(',')
+    expect(info.numberGroupSeparator).toBe('.')
+    expect(info.currencyDecimalSeparator).toBe(',')
+    expect(info.currencySymbol).toBe('€')
+  })
+
+  it('uses en-US formatting for unknown LCIDs', () => {
+    expect(createNumberFormattingInfo(9999).currencySymbol).toBe('$')
+    expect(createDateFormattingInfo(9999).shortDatePattern).toBe('M/d/yyyy')
+  })
+
+  it('generates month and day names for the locale', () => {
+    const info = createDateFormattingInfo(1031)
+    expect(info.monthNames).toHaveLength(13)
+    expect(info.monthNames[2]).toBe('März')
+    expect(info.dayNames[0]).toBe('Sonntag')
+  })
+})
+
+describe('formatDatePattern', () => {
+  const info = createDateFormattingInfo(1033)
+
+  it('formats .NET custom date and time tokens', () => {
+    expect(formatDatePattern(date, 'dddd, MMMM d, yyyy h:mm:ss tt', info)).toBe(
+      'Tuesday, March 5, 2024 2:07:09 PM'
+    )
+    expect(formatDatePattern(date, 'ddd dd MMM yy HH:mm', info)).toBe('Tue 05 Mar 24 14:07')
+  })
+
+  it('keeps quoted literals and escaped characters', () => {
+    expect(formatDatePattern(date, "yyyy'-'MM'-'dd'T'HH':'mm':'ss", info)).toBe(
+      '2024-03-05T14:07:09'
+    )
+    expect(formatDatePattern(date, '\\d d', info)).toBe('d 5')
+  })
+
+  it('uses the date separator of the locale', () => {
+    expect(formatDatePattern(date, 'dd/MM/yyyy', createDateFormattingInfo(1031))).toBe('05.03.2024')
+  })
+})
+
+describe('createMockFormatting', () => {
+  it('formats numbers with the separators and negative pattern of the locale', () => {
+    const formatting = createFormatting(1031)
+    expect(formatting.formatDecimal(1234567.891, 2)).toBe('1.234.567,89')
+    expect(formatting.formatInteger(-1234.6)).toBe('-1.235')
+    expect(createFormatting(1033).formatDecimal(0.5)).toBe('0.50')
+  })
+
+  it('formats currency with the symbol placement of the locale', () => {
+    expect(createFormatting(1033).formatCurrency(-1234.5)).toBe('($1,234.50)')
+    expect(createFormatting(1044).formatCurrency(1234.5)).toBe(`1${NO_BREAK_SPACE}234,50 kr`)
+    expect(createFormatting(1044).formatCurrency(-1234.5)).toBe(`-1${NO_BREAK_SPACE}234,50 kr`)
+    expect(createFormatting(1041).formatCurrency(1234)).toBe('¥1,234')
+    expect(createFormatting(1033).formatCurrency(5, 0, '€')).toBe('€5')
+  })
+
+  it('formats dates with the patterns of the locale', () => {
+    expect(createFormatting(1033).formatDateShort(date, true)).toBe('3/5/2024 2:07 PM')
+    expect(createFormatting(1031).formatDateShort(date)).toBe('05.03.2024')
+    expect(createFormatting(1031).formatDateLong(date)).toBe('Dienstag, 5. März 2024')
+    expect(createFormatting(1036).formatDateLong(date)).toBe('mardi 5 mars 2024')
+    expect(createFormatting(1041).formatDateLong(date)).toBe('2024年3月5日')
+    expect(createFormatting(1033).formatDateYearMonth(date)).toBe('March 2024')
+  })
+
+  it('formats filter strings in UTC', () => {
+    const utc = new Date(Date.UTC(2024, 2, 5, 14, 7, 9))
+    const formatting = createFormatting(1033)
+    expect(formatting.formatDateAsFilterStringInUTC(utc)).toBe('2024-03-05')
+    expect(formatting.formatDateAsFilterStringInUTC(utc, true)).toBe('2024-03-05T14:07:09Z')
+  })
+
+  it('names languages and numbers ISO weeks', () => {
+    const formatting = createFormatting(1033)
+    expect(formatting.formatLanguage(1031)).toBe('German (Germany)')
+    expect(formatting.formatLanguage(9999)).toBe('9999')
+    expect(formatting.getWeekOfYear(new Date(2024, 0, 1))).toBe(1)
+    expect(formatting.getWeekOfYear(new Date(2021, 0, 1))).toBe(53)
+  })
+
+  it('converts between UTC and the user time zone', () => {
+    const formatting = createFormatting(1033, 60)
+    const utc = new Date(Date.UTC(2024, 2, 5, 14, 7, 9))
+    expect(formatting.formatUTCDateTimeToUserDate(utc).getHours()).toBe(15)
+    expect(formatting.formatTime(utc, 1)).toBe('3:07 PM')
+    expect(formatting.formatUserDateTimeToUTC(new Date(2024, 2, 5, 15, 7, 9))).toBe(
+      '2024-03-05T14:07:09Z'
+    )
+    // Time zone independent values are not converted
+    expect(formatting.formatUserDateTimeToUTC(date, 3)).toBe('2024-03-05T14:07:09')
+    expect(formatting.formatUserDateTimeToUTC(date, 2)).toBe('2024-03-05')
+  })
+})
+
+describe('setUserLocale', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('switches the formatting of a context at runtime', () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined)
+    const context = {
+      userSettings: createUserSettings(1033),
+    } as ComponentFramework.Context<unknown>
+    const formatting = createMockFormatting(() => context.userSettings)
+    expect(formatting.formatDecimal(1234.5)).toBe('1,234.50')
+
+    setUserLocale(context, { languageId: 1031, timeZoneOffsetMinutes: 120 })
+    expect(context.userSettings.languageId).toBe(1031)
+    expect(context.userSettings.getTimeZoneOffsetMinutes()).toBe(120)
+    expect(formatting.formatDecimal(1234.5)).toBe('1.234,50')
+  })
+
+  it('warns and uses en-US formatting for LCIDs without a preset', () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined)
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    const context = {
+      userSettings: createUserSettings(1031),
+    } as ComponentFramework.Context<unknown>
+
+    setUserLocale(context, { languageId: 1049 })
+    expect(warn).toHaveBeenCalledOnce()
+    expect(context.userSettings.numberFormattingInfo.numberDecimalSeparator).toBe('.')
+  })
+})
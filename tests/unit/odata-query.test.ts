@@ -0,0 +1,198 @@
+/**
+ * Unit tests for the offline $filter, $orderby and query option evaluation
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  ODataQueryError,
+  type ODataRecord,
+  parseFilter,
+  parseQueryOptions,
+  queryRecords,
+} from '../../src/utils/odataQuery'
+
+const accounts: ODataRecord[] = [
+  {
+    accountid: 'a1',
+    name: "O'Brien Ltd",
+    revenue: 500,
+    statecode: 0,
+    createdon: '2024-01-15T10:00:00Z',
+    _primarycontactid_value: 'c1',
+  },
+  {
+    accountid: 'a2',
+    name: 'Contoso',
+    revenue: 1500,
+    statecode: 0,
+    createdon: '2023-06-01T08:30:00Z',
+    _primarycontactid_value: null,
+  },
+  {
+    accountid: 'a3',
+    name: 'Fabrikam',
+    revenue: null,
+    statecode: 1,
+    createdon: '2024-03-20T12:00:00Z',
+    _primarycontactid_value: 'c2',
+  },
+  {
+    accountid: 'a4',
+    name: 'contoso east',
+    revenue: 1500,
+    statecode: 1,
+    createdon: '2022-11-30T00:00:00Z',
+    _primarycontactid_value: 'c1',
+  },
+]
+
+const noNavigation = () => undefined
+
+function filterIds(filter: string): string[] {
+  return queryRecords(accounts, { filter }, noNavigation).map(record => record.accountid)
+}
+
+describe('parseFilter', () => {
+  it('parses comparisons with and binding tighter than or', () => {
+    expect(parseFilter("statecode eq 0 or name eq 'a' and revenue gt 1")).toEqual({
+      type: 'binary',
+      operator: 'or',
+      left: {
+        type: 'binary',
+        operator: 'eq',
+        left: { type: 'path', path: 'statecode' },
+        right: { type: 'literal', value: 0 },
+      },
+      right: {
+        type: 'binary',
+        operator: 'and',
+        left: {
+          type: 'binary',
+          operator: 'eq',
+          left: { type: 'path', path: 'name' },
+          right: { type: 'literal', value: 'a' },
+        },
+        right: {
+          type: 'binary',
+          operator: 'gt',
+          left: { type: 'path', path: 'revenue' },
+          right: { type: 'literal', value: 1 },
+        },
+      },
+    })
+  })
+
+  it('unescapes doubled quotes in strings', () => {
+    expect(parseFilter("name eq 'O''Brien'")).toMatchObject({
+      right: { type: 'literal', value: "O'Brien" },
+    })
+  })
+
+  it('rejects unterminated strings and trailing tokens', () => {
+    expect(() => parseFilter("name eq 'Contoso")).toThrow(ODataQueryError)
+    expect(() => parseFilter('statecode eq 0 1')).toThrow(ODataQueryError)
+    expect(() => parseFilter('statecode eq')).toThrow(ODataQueryError)
+  })
+})
+
+describe('queryRecords $filter', () => {
+  it('matches strings case-insensitively and with quotes', () => {
+    expect(filterIds("name eq 'contoso'")).toEqual(['a2'])
+    expect(filterIds("name eq 'O''Brien Ltd'")).toEqual(['a1'])
+  })
+
+  it('combines and, or and not with parentheses', () => {
+    expect(filterIds('statecode eq 0 and revenue gt 1000')).toEqual(['a2'])
+    expect(filterIds("name eq 'Fabrikam' or revenue lt 1000")).toEqual(['a1', 'a3'])
+    expect(filterIds('not (statecode eq 0)')).toEqual(['a3', 'a4'])
+    expect(filterIds("not contains(name,'contoso') and statecode eq 1")).toEqual(['a3'])
+  })
+
+  it('compares null values', () => {
+    expect(filterIds('revenue eq null')).toEqual(['a3'])
+    expect(filterIds('revenue ne null')).toEqual(['a1', 'a2', 'a4'])
+    // Ordering comparisons never match null
+    expect(filterIds('revenue lt 1000')).toEqual(['a1'])
+  })
+
+  it('reads lookups through their _value column', () => {
+    expect(filterIds('primarycontactid eq null')).toEqual(['a2'])
+    expect(filterIds("_primarycontactid_value eq 'c1'")).toEqual(['a1', 'a4'])
+  })
+
+  it('compares dates', () => {
+    expect(filterIds('createdon ge 2024-01-01')).toEqual(['a1', 'a3'])
+    expect(filterIds('createdon lt 2023-06-01T09:00:00Z and createdon gt 2023-01-01')).toEqual([
+      'a2',
+    ])
+  })
+
+  it('supports the string functions', () => {
+    expect(filterIds("startswith(name,'contoso')")).toEqual(['a2', 'a4'])
+    expect(filterIds("endswith(name,'LTD')")).toEqual(['a1'])
+    expect(filterIds("tolower(name) eq 'fabrikam'")).toEqual(['a3'])
+  })
+
+  it('supports the In and NotIn query functions', () => {
+    expect(
+      filterIds(
+        "Microsoft.Dynamics.CRM.In(PropertyName='name',PropertyValues=['Contoso','Fabrikam'])"
+      )
+    ).toEqual(['a2', 'a3'])
+    expect(
+      filterIds("Microsoft.Dynamics.CRM.In(PropertyName='statecode',PropertyValues=['1'])")
+    ).toEqual(['a3', 'a4'])
+    expect(
+      filterIds(
+        "Microsoft.Dynamics.CRM.NotIn(PropertyName='revenue',PropertyValues=['500']) and statecode eq 0"
+      )
+    ).toEqual(['a2'])
+  })
+
+  it('rejects query functions that are not supported offline', () => {
+    expect(() =>
+      filterIds("Microsoft.Dynamics.CRM.Between(PropertyName='revenue',PropertyValues=['1','2'])")
+    ).toThrow('not supported offline')
+    expect(() => filterIds("Microsoft.Dynamics.CRM.In(PropertyValues=['1'])")).toThrow(
+      'needs a PropertyName'
+    )
+  })
+})
+
+describe('queryRecords $orderby, $top and $select', () => {
+  it('sorts by several keys with nulls first', () => {
+    const records = queryRecords(accounts, { orderBy: 'revenue desc,name asc' }, noNavigation)
+    expect(records.map(record => record.accountid)).toEqual(['a2', 'a4', 'a1', 'a3'])
+
+    const ascending = queryRecords(accounts, { orderBy: 'revenue,createdon desc' }, noNavigation)
+    expect(ascending.map(record => record.accountid)).toEqual(['a3', 'a1', 'a2', 'a4'])
+  })
+
+  it('sorts dates and applies top after sorting', () => {
+    const records = queryRecords(accounts, { orderBy: 'createdon desc', top: 2 }, noNavigation)
+    expect(records.map(record => record.accountid)).toEqual(['a3', 'a1'])
+  })
+
+  it('selects columns and keeps the primary id and lookups', () => {
+    const [record] = queryRecords(
+      accounts,
+      { filter: "name eq 'Fabrikam'", select: ['name', 'primarycontactid'] },
+      noNavigation,
+      ['accountid']
+    )
+    expect(record).toEqual({ accountid: 'a3', name: 'Fabrikam', _primarycontactid_value: 'c2' })
+  })
+
+  it('reads the options from a query string', () => {
+    const options = parseQueryOptions(
+      '$select=name,revenue&$filter=revenue%20gt%20100&$orderby=name%20desc&$top=3&$count=true'
+    )
+    expect(options).toEqual({
+      select: ['name', 'revenue'],
+      filter: 'revenue gt 100',
+      orderBy: 'name desc',
+      top: 3,
+      count: true,
+    })
+  })
+})
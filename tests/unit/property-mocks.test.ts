@@ -0,0 +1,153 @@
+/**
+ * Unit tests for manifest property value parsing and formatting
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  createDateFormattingInfo,
+  createMockFormatting,
+  createNumberFormattingInfo,
+} from '../../src/utils/localeFormatting'
+import type { ManifestPropertyInfo } from '../../src/utils/manifestExtractor'
+import {
+  createPropertyAttributes,
+  formatPropertyValue,
+  getPropertyType,
+  parsePropertyValue,
+} from '../../src/utils/propertyMocks'
+
+const property: ManifestPropertyInfo = {
+  name: 'sampleProperty',
+  displayNameKey: 'Property_Display_Key',
+  types: ['SingleLine.Email'],
+  usage: 'bound',
+  required: true,
+}
+
+const options = [
+  { Label: 'Red', Value: 1, Color: '' },
+  { Label: 'Green', Value: 2, Color: '' },
+]
+
+describe('getPropertyType', () => {
+  it('uses the first type of an of-type-group', () => {
+    expect(getPropertyType({ ...property, types: ['Whole.None', 'Decimal'] })).toBe('Whole.None')
+  })
+
+  it('falls back to single line text', () => {
+    expect(getPropertyType({ ...property, types: [] })).toBe('SingleLine.Text')
+  })
+})
+
+describe('parsePropertyValue', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('parses numbers and returns null for invalid ones', () => {
+    expect(parsePropertyValue('Whole.None', '42')).toBe(42)
+    expect(parsePropertyValue('Decimal', 3.5)).toBe(3.5)
+    expect(parsePropertyValue('Currency', 'abc')).toBeNull()
+  })
+
+  it('parses two options from booleans, strings and numbers', () => {
+    expect(parsePropertyValue('TwoOptions', 'true')).toBe(true)
+    expect(parsePropertyValue('TwoOptions', '1')).toBe(true)
+    expect(parsePropertyValue('TwoOptions', 1)).toBe(true)
+    expect(parsePropertyValue('TwoOptions', 'false')).toBe(false)
+  })
+
+  it('parses dates and returns null for invalid ones', () => {
+    const date = parsePropertyValue('DateAndTime.DateAndTime', '2024-03-05T10:00:00Z') as Date
+    expect(date.toISOString()).toBe('2024-03-05T10:00:00.000Z')
+    expect(parsePropertyValue('DateAndTime.DateOnly', 'not a date')).toBeNull()
+  })
+
+  it('parses multi select option sets and drops values that are not numbers', () => {
+    expect(parsePropertyValue('MultiSelectOptionSet', '[1, 2,x]')).toEqual([1, 2])
+    expect(parsePropertyValue('MultiSelectOptionSet', ['3', 4])).toEqual([3, 4])
+  })
+
+  it('parses lookups from JSON and wraps a single reference in an array', () => {
+    const reference = { id: '1', name: 'Contoso', entityType: 'account' }
+    expect(parsePropertyValue('Lookup.Simple', JSON.stringify(reference))).toEqual([reference])
+    expect(parsePropertyValue('Lookup.Simple', [reference])).toEqual([reference])
+  })
+
+  it('warns and returns no lookup for values that are not JSON', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    expect(parsePropertyValue('Lookup.Simple', 'Contoso')).toEqual([])
+    expect(warn).toHaveBeenCalledOnce()
+  })
+
+  it('returns the empty value of the type for missing values', () => {
+    expect(parsePropertyValue('Whole.None', undefined)).toBeNull()
+    expect(parsePropertyValue('TwoOptions', '')).toBe(false)
+    expect(parsePropertyValue('Lookup.Simple', null)).toEqual([])
+  })
+
+  it('keeps objects and converts other types to strings', () => {
+    const value = { a: 1 }
+    expect(parsePropertyValue('Object', value)).toBe(value)
+    expect(parsePropertyValue('SingleLine.Text', 12)).toBe('12')
+  })
+})
+
+describe('createPropertyAttributes', () => {
+  it('builds the metadata of the type with overrides on top', () => {
+    const attributes = createPropertyAttributes(property, 'SingleLine.Email', { MaxLength: 50 })
+    expect(attributes).toMatchObject({
+      DisplayName: 'Property_Display_Key',
+      LogicalName: 'sampleProperty',
+      RequiredLevel: 2,
+      Format: 'Email',
+      MaxLength: 50,
+    })
+  })
+
+  it('adds the Yes and No options for two options', () => {
+    const attributes = createPropertyAttributes(property, 'TwoOptions')
+    expect(attributes.Options).toHaveLength(2)
+  })
+})
+
+describe('formatPropertyValue', () => {
+  it('formats numbers and dates as en-US without context.formatting', () => {
+    expect(formatPropertyValue('Whole.None', 1234567)).toBe('1,234,567')
+    expect(formatPropertyValue('Decimal', 1234.5, { Precision: 1 })).toBe('1,234.5')
+    expect(formatPropertyValue('Currency', 1234.5)).toBe('$1,234.50')
+    expect(formatPropertyValue('DateAndTime.DateOnly', new Date(2024, 2, 5))).toBe('3/5/2024')
+  })
+
+  it('uses the option labels', () => {
+    expect(formatPropertyValue('OptionSet', 2, { Options: options })).toBe('Green')
+    expect(formatPropertyValue('OptionSet', 3, { Options: options })).toBe('3')
+    expect(formatPropertyValue('MultiSelectOptionSet', [1, 2], { Options: options })).toBe(
+      'Red; Green'
+    )
+    expect(formatPropertyValue('TwoOptions', true)).toBe('Yes')
+  })
+
+  it('uses the lookup name and formats nothing for missing values', () => {
+    const lookup = [{ id: '1', name: 'Contoso', entityType: 'account' }]
+    expect(formatPropertyValue('Lookup.Simple', lookup)).toBe('Contoso')
+    expect(formatPropertyValue('Lookup.Simple', [])).toBe('')
+    expect(formatPropertyValue('Whole.None', null)).toBe('')
+  })
+
+  it('formats numbers and dates through context.formatting when given', () => {
+    const formatting = createMockFormatting(
+      () =>
+        ({
+          numberFormattingInfo: createNumberFormattingInfo(1031),
+          dateFormattingInfo: createDateFormattingInfo(1031),
+          getTimeZoneOffsetMinutes: () => 0,
+        }) as unknown as ComponentFramework.UserSettings
+    )
+    expect(formatPropertyValue('Decimal', 1234.5, { Precision: 1 }, formatting)).toBe('1.234,5')
+    expect(formatPropertyValue('Currency', 1234.5, {}, formatting)).toBe('1.234,50 €')
+    expect(formatPropertyValue('DateAndTime.DateOnly', new Date(2024, 2, 5), {}, formatting)).toBe(
+      '05.03.2024'
+    )
+  })
+})
@@ -0,0 +1,65 @@
+/**
+ * Unit tests for copying logged Web API calls as requests
+ */
+
+import { describe, expect, it } from 'vitest'
+import { decodeFetchXml, toCurlCommand, type WebApiCall } from '../../src/utils/webApiLog'
+
+function createCall(overrides: Partial<WebApiCall>): WebApiCall {
+  return {
+    id: 1,
+    timestamp: new Date(2024, 2, 5),
+    method: 'retrieveMultipleRecords',
+    entity: 'account',
+    pending: false,
+    ...overrides,
+  }
+}
+
+describe('toCurlCommand', () => {
+  it('percent-encodes OData string literals in the URL', () => {
+    const call = createCall({
+      url: "/api/data/v9.2/accounts?$select=name&$filter=name eq 'Contoso'",
+      httpMethod: 'GET',
+    })
+    const [request] = toCurlCommand(call, 'https://org.crm.dynamics.com/').split(' \\\n')
+    expect(request).toBe(
+      "curl -X GET 'https://org.crm.dynamics.com/api/data/v9.2/accounts?$select=name&$filter=name%20eq%20%27Contoso%27'"
+    )
+  })
+
+  it('escapes single quotes in header values and the body', () => {
+    const call = createCall({
+      method: 'createRecord',
+      url: '/api/data/v9.2/accounts',
+      httpMethod: 'POST',
+      requestHeaders: {
+        Accept: 'application/json',
+        Prefer: 'odata.include-annotations="*"',
+        'MSCRM.SolutionUniqueName': "O'Brien",
+      },
+      data: { name: "O'Brien Ltd" },
+    })
+    const lines = toCurlCommand(call, 'https://org.crm.dynamics.com').split(' \\\n')
+    expect(lines).toContain(`  -H 'Prefer: odata.include-annotations="*"'`)
+    expect(lines).toContain("  -H 'MSCRM.SolutionUniqueName: O'\\''Brien'")
+    expect(lines.filter(line => line.includes('Accept:'))).toHaveLength(1)
+    expect(lines.at(-1)).toBe(`  --data '{"name":"O'\\''Brien Ltd"}'`)
+  })
+
+  it('keeps a URL that does not parse', () => {
+    const call = createCall({ url: "/api/data/v9.2/accounts?$filter=name eq 'a'" })
+    expect(toCurlCommand(call, '').split(' \\\n')[0]).toBe(
+      "curl -X GET '/api/data/v9.2/accounts?$filter=name eq '\\''a'\\'''"
+    )
+  })
+})
+
+describe('decodeFetchXml', () => {
+  it('decodes the fetchXml option', () => {
+    expect(decodeFetchXml('?fetchXml=%3Cfetch%20top%3D%225%22%3E%3C%2Ffetch%3E')).toBe(
+      '<fetch top="5"></fetch>'
+    )
+    expect(decodeFetchXml('?$select=name')).toBeUndefined()
+  })
+})
@@ -0,0 +1,219 @@
+/**
+ * Unit tests for turning execute requests into Web API requests
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  buildExecuteRequests,
+  type EntityInfoResolver,
+  type ExecuteRequest,
+  type ExecuteRequestMetadata,
+  getQueryString,
+  getRequestEntity,
+} from '../../src/utils/webApiRequests'
+
+const resolve: EntityInfoResolver = async entity => ({
+  collectionName: `${entity}s`,
+  primaryIdAttribute: `${entity}id`,
+})
+
+function createRequest(
+  metadata: ExecuteRequestMetadata,
+  parameters: Record<string, unknown> = {}
+): ExecuteRequest {
+  return { ...parameters, getMetadata: () => metadata }
+}
+
+describe('buildExecuteRequests functions', () => {
+  it('passes the parameters as encoded aliases', async () => {
+    const request = createRequest(
+      {
+        boundParameter: null,
+        operationType: 1,
+        operationName: 'CalculateRollupField',
+        parameterTypes: {
+          RollupType: { typeName: 'mscrm.RollupType', structuralProperty: 3 },
+          UserId: { typeName: 'Edm.Guid', structuralProperty: 1 },
+        },
+      },
+      {
+        Target: { entityType: 'account', id: '{a1}' },
+        FieldName: "O'Brien",
+        RollupType: 'Related',
+        UserId: 'u1',
+        Top: 5,
+      }
+    )
+
+    const [built] = await buildExecuteRequests(request, resolve)
+    expect(built?.method).toBe('GET')
+    const [path, query = ''] = built?.path.split('?') ?? []
+    expect(path).toBe(
+      'CalculateRollupField(Target=@p1,FieldName=@p2,RollupType=@p3,UserId=@p4,Top=@p5)'
+    )
+    expect(query.split('&').map(decodeURIComponent)).toEqual([
+      '@p1={"@odata.id":"accounts(a1)"}',
+      "@p2='O''Brien'",
+      "@p3=Microsoft.Dynamics.CRM.RollupType'Related'",
+      '@p4=u1',
+      '@p5=5',
+    ])
+  })
+
+  it('leaves out the query string without parameters', async () => {
+    const request = createRequest({
+      boundParameter: null,
+      operationType: 1,
+      operationName: 'WhoAmI',
+    })
+    expect(await buildExecuteRequests(request, resolve)).toEqual([
+      { method: 'GET', path: 'WhoAmI()' },
+    ])
+  })
+})
+
+describe('buildExecuteRequests bound operations', () => {
+  it('binds actions to the record and sends entity references as records', async () => {
+    const request = createRequest(
+      { boundParameter: 'entity', operationType: 0, operationName: 'WinOpportunity' },
+      {
+        entity: { entityType: 'opportunity', id: '{o1}' },
+        Status: 3,
+        Contacts: [{ entityType: 'contact', id: 'c1' }],
+      }
+    )
+    expect(await buildExecuteRequests(request, resolve)).toEqual([
+      {
+        method: 'POST',
+        path: 'opportunitys(o1)/Microsoft.Dynamics.CRM.WinOpportunity',
+        body: {
+          Status: 3,
+          Contacts: [{ '@odata.type': 'Microsoft.Dynamics.CRM.contact', contactid: 'c1' }],
+        },
+      },
+    ])
+  })
+
+  it('binds to the entity set when the bound parameter has no id', async () => {
+    const request = createRequest(
+      { boundParameter: 'entityset', operationType: 1, operationName: 'GetTopAccounts' },
+      { entityset: { entityType: 'account' } }
+    )
+    const [built] = await buildExecuteRequests(request, resolve)
+    expect(built?.path).toBe('accounts/Microsoft.Dynamics.CRM.GetTopAccounts()')
+    expect(getRequestEntity(request)).toBe('account')
+  })
+
+  it('rejects a missing bound parameter', async () => {
+    const request = createRequest({
+      boundParameter: 'entity',
+      operationType: 0,
+      operationName: 'WinOpportunity',
+    })
+    await expect(buildExecuteRequests(request, resolve)).rejects.toThrow(
+      'WinOpportunity needs the bound parameter "entity"'
+    )
+  })
+})
+
+describe('buildExecuteRequests CRUD', () => {
+  const crud = (operationName: string) => ({ operationType: 2 as const, operationName })
+
+  it('builds create, retrieve, update and delete requests', async () => {
+    const reference = { entityType: 'account', id: '{a1}' }
+    const requests = await Promise.all([
+      buildExecuteRequests(
+        createRequest(crud('Create'), { etn: 'account', payload: { name: 'n' } }),
+        resolve
+      ),
+      buildExecuteRequests(
+        createRequest(crud('Retrieve'), {
+          entityReference: reference,
+          columns: ['name', 'revenue'],
+        }),
+        resolve
+      ),
+      buildExecuteRequests(
+        createRequest(crud('Update'), { etn: 'account', id: 'a1', payload: { name: 'u' } }),
+        resolve
+      ),
+      buildExecuteRequests(createRequest(crud('Delete'), { entityReference: reference }), resolve),
+    ])
+    expect(requests.flat()).toEqual([
+      { method: 'POST', path: 'accounts', body: { name: 'n' } },
+      { method: 'GET', path: 'accounts(a1)?$select=name,revenue' },
+      { method: 'PATCH', path: 'accounts(a1)', body: { name: 'u' } },
+      { method: 'DELETE', path: 'accounts(a1)' },
+    ])
+  })
+
+  it('associates each related record with its own request', async () => {
+    const request = createRequest(crud('Associate'), {
+      target: { entityType: 'account', id: 'a1' },
+      relationship: 'contact_customer_accounts',
+      relatedEntities: [
+        { entityType: 'contact', id: 'c1' },
+        { entityType: 'contact', id: '{c2}' },
+      ],
+    })
+    expect(await buildExecuteRequests(request, resolve)).toEqual([
+      {
+        method: 'POST',
+        path: 'accounts(a1)/contact_customer_accounts/$ref',
+        body: { '@odata.id': 'contacts(c1)' },
+      },
+      {
+        method: 'POST',
+        path: 'accounts(a1)/contact_customer_accounts/$ref',
+        body: { '@odata.id': 'contacts(c2)' },
+      },
+    ])
+  })
+
+  it('disassociates collection and single-valued navigation properties', async () => {
+    const target = { entityType: 'account', id: 'a1' }
+    const collection = createRequest(crud('Disassociate'), {
+      target,
+      relationship: 'contact_customer_accounts',
+      relatedEntityId: 'c1',
+    })
+    const single = createRequest(crud('Disassociate'), { target, relationship: 'primarycontactid' })
+    expect(await buildExecuteRequests(collection, resolve)).toEqual([
+      { method: 'DELETE', path: 'accounts(a1)/contact_customer_accounts(c1)/$ref' },
+    ])
+    expect(await buildExecuteRequests(single, resolve)).toEqual([
+      { method: 'DELETE', path: 'accounts(a1)/primarycontactid/$ref' },
+    ])
+  })
+
+  it('rejects unknown CRUD requests', async () => {
+    await expect(buildExecuteRequests(createRequest(crud('Upsert')), resolve)).rejects.toThrow(
+      'The Upsert request is not supported'
+    )
+  })
+})
+
+describe('getRequestEntity', () => {
+  it('falls back to etn and then to the operation name', () => {
+    expect(
+      getRequestEntity(
+        createRequest({ operationType: 2, operationName: 'Create' }, { etn: 'contact' })
+      )
+    ).toBe('contact')
+    expect(getRequestEntity(createRequest({ boundParameter: null, operationName: 'WhoAmI' }))).toBe(
+      'WhoAmI'
+    )
+  })
+})
+
+describe('getQueryString', () => {
+  it('reads the query of a nextLink and adds the question mark to options', () => {
+    expect(
+      getQueryString(
+        'https://org.crm.dynamics.com/api/data/v9.2/accounts?$select=name&$skiptoken=x'
+      )
+    ).toBe('?$select=name&$skiptoken=x')
+    expect(getQueryString('$top=5')).toBe('?$top=5')
+    expect(getQueryString('?$top=5')).toBe('?$top=5')
+  })
+})